@@ -0,0 +1,285 @@
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { AuditEntry, AuditLogConfig, AuditOutcome, AuditQuery } from '../types/index';
+
+const DEFAULT_RETENTION_DAYS = 30;
+const DEFAULT_MAX_FILE_BYTES = 50 * 1024 * 1024;
+const DEFAULT_QUERY_LIMIT = 100;
+const MAX_QUERY_LIMIT = 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const OUTCOMES: AuditOutcome[] = ['success', 'rejected', 'error', 'cancelled', 'timeout'];
+
+/**
+ * Log file names: audit-2024-05-01.jsonl, then audit-2024-05-01.1.jsonl and so on once a day's file is full
+ */
+const FILE_PATTERN = /^audit-(\d{4}-\d{2}-\d{2})(?:\.(\d+))?\.jsonl$/;
+
+/**
+ * A log file and its position in the rotation
+ */
+interface LogFile {
+  name: string;
+  date: string;
+  index: number;
+}
+
+/**
+ * Drop comments, collapse whitespace outside quoted strings and identifiers and drop trailing semicolons,
+ * so the same query is found the same way however it was formatted. A comment becomes whitespace, so the
+ * result still reads as the query that ran.
+ */
+export function normalizeSql(sql: string): string {
+  let normalized = '';
+  let quote: string | null = null;
+  let pendingSpace = false;
+
+  for (let i = 0; i < sql.length; i++) {
+    const char = sql[i]!;
+    if (quote) {
+      normalized += char;
+      if (char === quote) {
+        quote = null;
+      }
+      continue;
+    }
+    if (char === '-' && sql[i + 1] === '-') {
+      const end = sql.indexOf('\n', i);
+      i = end === -1 ? sql.length : end;
+      pendingSpace = true;
+      continue;
+    }
+    if (char === '/' && sql[i + 1] === '*') {
+      const end = sql.indexOf('*/', i + 2);
+      i = end === -1 ? sql.length : end + 1;
+      pendingSpace = true;
+      continue;
+    }
+    if (/\s/.test(char)) {
+      pendingSpace = true;
+      continue;
+    }
+    if (pendingSpace && normalized.length > 0) {
+      normalized += ' ';
+    }
+    pendingSpace = false;
+    if (char === "'" || char === '"') {
+      quote = char;
+    }
+    normalized += char;
+  }
+  return normalized.replace(/\s*;+$/, '');
+}
+
+/**
+ * Build audit log filters from untrusted input (query string or tool arguments), normalizing timestamps
+ * to ISO form. Throws with a description of the first invalid filter.
+ */
+export function parseAuditQuery(input: Record<string, unknown>): AuditQuery {
+  const query: AuditQuery = {};
+
+  for (const key of ['from', 'to'] as const) {
+    const value = input[key];
+    if (value === undefined || value === '') {
+      continue;
+    }
+    const time = typeof value === 'string' ? new Date(value) : null;
+    if (!time || Number.isNaN(time.getTime())) {
+      throw new Error(`"${key}" must be an ISO 8601 date or timestamp`);
+    }
+    query[key] = time.toISOString();
+  }
+
+  for (const key of ['sessionId', 'principal', 'tool', 'sql'] as const) {
+    const value = input[key];
+    if (value !== undefined && value !== '') {
+      if (typeof value !== 'string') {
+        throw new Error(`"${key}" must be a string`);
+      }
+      query[key] = value;
+    }
+  }
+
+  if (input.outcome !== undefined && input.outcome !== '') {
+    if (!OUTCOMES.includes(input.outcome as AuditOutcome)) {
+      throw new Error(`"outcome" must be one of ${OUTCOMES.join(', ')}`);
+    }
+    query.outcome = input.outcome as AuditOutcome;
+  }
+
+  if (input.limit !== undefined && input.limit !== '') {
+    const limit = Number(input.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_QUERY_LIMIT) {
+      throw new Error(`"limit" must be an integer from 1 to ${MAX_QUERY_LIMIT}`);
+    }
+    query.limit = limit;
+  }
+  return query;
+}
+
+/**
+ * Durable record of every tool call, appended as JSON lines to one file per day. A day's file is rotated
+ * to a numbered file when it reaches maxFileBytes, and files older than retentionDays are deleted.
+ */
+export class AuditLog {
+  private directory: string;
+  private retentionDays: number;
+  private maxFileBytes: number;
+  private current: (LogFile & { bytes: number }) | null = null;
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(config: Omit<AuditLogConfig, 'type'> = {}) {
+    this.directory = path.resolve(config.directory ?? path.join('logs', 'audit'));
+    this.retentionDays = config.retentionDays ?? DEFAULT_RETENTION_DAYS;
+    this.maxFileBytes = config.maxFileBytes ?? DEFAULT_MAX_FILE_BYTES;
+  }
+
+  /**
+   * Append a tool call. Writes happen in the background in call order; a failed write is logged, not thrown.
+   */
+  record(entry: Omit<AuditEntry, 'id' | 'timestamp'>): void {
+    const complete: AuditEntry = { id: crypto.randomUUID(), timestamp: new Date().toISOString(), ...entry };
+    const line = `${JSON.stringify(complete)}\n`;
+
+    this.writes = this.writes
+      .then(async () => {
+        const file = await this.fileFor(complete.timestamp.slice(0, 10), Buffer.byteLength(line));
+        await fs.appendFile(path.join(this.directory, file.name), line);
+        file.bytes += Buffer.byteLength(line);
+      })
+      .catch(error => {
+        console.error(`Failed to write audit entry for ${complete.tool} call in session ${complete.sessionId}:`, error);
+      });
+  }
+
+  /**
+   * Read entries matching the filters, newest first
+   */
+  async query(filter: AuditQuery = {}): Promise<AuditEntry[]> {
+    await this.writes;
+    const limit = Math.min(Math.max(1, Math.floor(filter.limit ?? DEFAULT_QUERY_LIMIT)), MAX_QUERY_LIMIT);
+    const fromDay = filter.from?.slice(0, 10);
+    const toDay = filter.to?.slice(0, 10);
+
+    const files = (await this.listFiles())
+      .filter(file => (!fromDay || file.date >= fromDay) && (!toDay || file.date <= toDay))
+      .sort((a, b) => b.date.localeCompare(a.date) || b.index - a.index);
+
+    const matches: AuditEntry[] = [];
+    for (const file of files) {
+      const lines = (await fs.readFile(path.join(this.directory, file.name), 'utf-8')).split('\n');
+      for (let i = lines.length - 1; i >= 0; i--) {
+        const entry = this.parse(lines[i]!);
+        if (entry && this.matches(entry, filter)) {
+          matches.push(entry);
+          if (matches.length >= limit) {
+            return matches;
+          }
+        }
+      }
+    }
+    return matches;
+  }
+
+  /**
+   * Delete files older than the retention period. Returns the number deleted.
+   */
+  async purgeExpired(): Promise<number> {
+    const cutoff = new Date(Date.now() - this.retentionDays * DAY_MS).toISOString().slice(0, 10);
+    const expired = (await this.listFiles()).filter(file => file.date < cutoff);
+    for (const file of expired) {
+      await fs.rm(path.join(this.directory, file.name), { force: true });
+    }
+    return expired.length;
+  }
+
+  /**
+   * Wait for entries recorded so far to be written
+   */
+  async flush(): Promise<void> {
+    await this.writes;
+  }
+
+  /**
+   * The file to append an entry of the given size to, rotating when the day's file is full
+   */
+  private async fileFor(date: string, bytes: number): Promise<LogFile & { bytes: number }> {
+    if (this.current?.date !== date) {
+      await fs.mkdir(this.directory, { recursive: true });
+      // Continue the newest file for the day left by an earlier run
+      const latest = (await this.listFiles())
+        .filter(file => file.date === date)
+        .sort((a, b) => b.index - a.index)[0];
+      const name = latest?.name ?? `audit-${date}.jsonl`;
+      const size = latest ? (await fs.stat(path.join(this.directory, name))).size : 0;
+      this.current = { name, date, index: latest?.index ?? 0, bytes: size };
+    }
+
+    if (this.current.bytes > 0 && this.current.bytes + bytes > this.maxFileBytes) {
+      const index = this.current.index + 1;
+      this.current = { name: `audit-${date}.${index}.jsonl`, date, index, bytes: 0 };
+    }
+    return this.current;
+  }
+
+  /**
+   * Log files in the directory, in no particular order
+   */
+  private async listFiles(): Promise<LogFile[]> {
+    let names: string[];
+    try {
+      names = await fs.readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    return names.flatMap(name => {
+      const match = FILE_PATTERN.exec(name);
+      return match ? [{ name, date: match[1]!, index: match[2] ? parseInt(match[2]) : 0 }] : [];
+    });
+  }
+
+  /**
+   * Parse one line, skipping blank and torn lines
+   */
+  private parse(line: string): AuditEntry | null {
+    if (!line) {
+      return null;
+    }
+    try {
+      return JSON.parse(line);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Check an entry against the query filters
+   */
+  private matches(entry: AuditEntry, filter: AuditQuery): boolean {
+    return (!filter.from || entry.timestamp >= filter.from)
+      && (!filter.to || entry.timestamp < filter.to)
+      && (!filter.sessionId || entry.sessionId === filter.sessionId)
+      && (!filter.principal || entry.principal?.id === filter.principal)
+      && (!filter.tool || entry.tool === filter.tool)
+      && (!filter.outcome || entry.outcome === filter.outcome)
+      && (!filter.sql || (entry.normalizedSql ?? '').toLowerCase().includes(normalizeSql(filter.sql).toLowerCase()));
+  }
+}
+
+/**
+ * Create the configured audit log, or null when auditing is disabled
+ */
+export function createAuditLog(config: AuditLogConfig = { type: 'file' }): AuditLog | null {
+  switch (config.type) {
+    case 'none':
+      return null;
+    case 'file':
+      return new AuditLog(config);
+    default:
+      throw new Error(`Unknown audit log type: ${String((config as AuditLogConfig).type)}`);
+  }
+}
@@ -0,0 +1,229 @@
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+import { AuthConfig, Principal } from '../types/index';
+import { InvalidTokenError, JwtVerifier } from './jwtVerifier';
+
+/**
+ * Path of the OAuth 2.0 protected-resource metadata document (RFC 9728) for the /mcp resource
+ */
+export const PROTECTED_RESOURCE_METADATA_PATH = '/.well-known/oauth-protected-resource/mcp';
+
+/**
+ * Raised when a request lacks valid credentials (401) or has credentials without the required scopes (403)
+ */
+export class AuthenticationError extends Error {
+  readonly status: 401 | 403;
+  readonly errorCode: 'invalid_request' | 'invalid_token' | 'insufficient_scope';
+
+  constructor(status: 401 | 403, errorCode: AuthenticationError['errorCode'], message: string) {
+    super(message);
+    this.name = 'AuthenticationError';
+    this.status = status;
+    this.errorCode = errorCode;
+  }
+}
+
+/**
+ * Load authentication settings from a JSON file, resolving the JWKS path relative to the file
+ */
+export async function loadAuthConfigFile(configPath: string): Promise<AuthConfig> {
+  const config: AuthConfig = JSON.parse(await fs.readFile(configPath, 'utf-8'));
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    throw new Error(`Auth config ${configPath} must be a JSON object`);
+  }
+
+  for (const apiKey of config.apiKeys ?? []) {
+    if (!apiKey || typeof apiKey.key !== 'string' || !apiKey.key || typeof apiKey.principal !== 'string') {
+      throw new Error(`API key entries in ${configPath} require "key" and "principal" strings`);
+    }
+  }
+
+  if (config.oauth) {
+    const { issuer, audience, jwksPath } = config.oauth;
+    if (typeof issuer !== 'string' || typeof audience !== 'string' || typeof jwksPath !== 'string') {
+      throw new Error(`The oauth section of ${configPath} requires "issuer", "audience" and "jwksPath" strings`);
+    }
+    config.oauth.jwksPath = path.resolve(path.dirname(path.resolve(configPath)), jwksPath);
+  }
+
+  return config;
+}
+
+/**
+ * Hash a secret so API keys can be compared in constant time regardless of length
+ */
+function digest(secret: string): Buffer {
+  return crypto.createHash('sha256').update(secret).digest();
+}
+
+/**
+ * Authenticates MCP requests with static API keys or OAuth 2.1 bearer tokens
+ */
+export class Authenticator {
+  private config: AuthConfig;
+  private resource: string;
+  private apiKeys: Array<{ digest: Buffer; principal: Principal }>;
+  private jwtVerifier: JwtVerifier | null;
+
+  constructor(config: AuthConfig, defaultResource: string) {
+    this.config = config;
+    this.resource = config.resource ?? defaultResource;
+    this.apiKeys = (config.apiKeys ?? []).map(apiKey => ({
+      digest: digest(apiKey.key),
+      principal: {
+        id: apiKey.principal,
+        method: 'api-key',
+        roles: apiKey.roles ?? [],
+        scopes: [],
+        attributes: apiKey.attributes ?? {}
+      }
+    }));
+    this.jwtVerifier = config.oauth ? new JwtVerifier(config.oauth) : null;
+  }
+
+  /**
+   * Load the JWKS file so configuration problems surface at startup
+   */
+  async initialize(): Promise<void> {
+    await this.jwtVerifier?.loadKeys();
+    console.log(`Authentication enabled: ${this.apiKeys.length} API key(s), OAuth ${this.jwtVerifier ? `issuer ${this.config.oauth!.issuer}` : 'disabled'}`);
+  }
+
+  /**
+   * Protected-resource metadata for the MCP endpoint, or null when OAuth is not configured
+   */
+  getResourceMetadata(): Record<string, unknown> | null {
+    const oauth = this.config.oauth;
+    if (!oauth) {
+      return null;
+    }
+    return {
+      resource: this.resource,
+      authorization_servers: oauth.authorizationServers ?? [oauth.issuer],
+      bearer_methods_supported: ['header'],
+      resource_name: 'MCP DuckDB Server',
+      ...(oauth.scopesSupported && { scopes_supported: oauth.scopesSupported })
+    };
+  }
+
+  /**
+   * Authenticate a request from its Authorization or X-API-Key header
+   */
+  async authenticate(req: Request): Promise<Principal> {
+    const apiKeyHeader = req.headers['x-api-key'];
+    if (typeof apiKeyHeader === 'string' && apiKeyHeader) {
+      return this.matchApiKey(apiKeyHeader) ?? this.reject('Invalid API key');
+    }
+
+    const header = req.headers.authorization;
+    if (!header) {
+      throw new AuthenticationError(401, 'invalid_request', 'Authentication required');
+    }
+    const [scheme, token, ...rest] = header.trim().split(/\s+/);
+    if (scheme?.toLowerCase() !== 'bearer' || !token || rest.length > 0) {
+      throw new AuthenticationError(401, 'invalid_request', 'Expected "Authorization: Bearer <token>"');
+    }
+
+    const apiKeyPrincipal = this.matchApiKey(token);
+    if (apiKeyPrincipal) {
+      return apiKeyPrincipal;
+    }
+    if (!this.jwtVerifier) {
+      return this.reject('Invalid API key');
+    }
+    return this.verifyAccessToken(token);
+  }
+
+  /**
+   * Check whether a principal holds one of the admin roles
+   */
+  isAdmin(principal: Principal | undefined): boolean {
+    const adminRoles = this.config.adminRoles ?? ['admin'];
+    return !!principal && principal.roles.some(role => adminRoles.includes(role));
+  }
+
+  /**
+   * Express middleware that authenticates the request and stores the principal in res.locals.principal
+   */
+  middleware(): RequestHandler {
+    return async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        res.locals.principal = await this.authenticate(req);
+        next();
+      } catch (error) {
+        if (!(error instanceof AuthenticationError)) {
+          console.error('Authentication error:', error);
+          res.status(500).json({ error: 'server_error', error_description: 'Authentication failed' });
+          return;
+        }
+
+        const metadataUrl = new URL(PROTECTED_RESOURCE_METADATA_PATH, this.resource).toString();
+        const params = [
+          ...(error.errorCode !== 'invalid_request' ? [`error="${error.errorCode}"`, `error_description="${error.message.replace(/"/g, "'")}"`] : []),
+          ...(this.config.oauth ? [`resource_metadata="${metadataUrl}"`] : [])
+        ];
+        res.set('WWW-Authenticate', params.length > 0 ? `Bearer ${params.join(', ')}` : 'Bearer');
+        res.status(error.status).json({ error: error.errorCode, error_description: error.message });
+      }
+    };
+  }
+
+  /**
+   * Find the principal for an API key, comparing every configured key in constant time
+   */
+  private matchApiKey(candidate: string): Principal | null {
+    const candidateDigest = digest(candidate);
+    let match: Principal | null = null;
+    for (const apiKey of this.apiKeys) {
+      if (crypto.timingSafeEqual(apiKey.digest, candidateDigest)) {
+        match = apiKey.principal;
+      }
+    }
+    return match;
+  }
+
+  /**
+   * Validate an OAuth access token and build its principal
+   */
+  private async verifyAccessToken(token: string): Promise<Principal> {
+    const oauth = this.config.oauth!;
+    let claims: Record<string, any>;
+    try {
+      claims = await this.jwtVerifier!.verify(token);
+    } catch (error) {
+      if (error instanceof InvalidTokenError) {
+        return this.reject(error.message);
+      }
+      throw error;
+    }
+
+    const scopes = typeof claims.scope === 'string'
+      ? claims.scope.split(' ').filter(Boolean)
+      : Array.isArray(claims.scp) ? claims.scp.map(String) : [];
+    const missing = (oauth.requiredScopes ?? []).filter(scope => !scopes.includes(scope));
+    if (missing.length > 0) {
+      throw new AuthenticationError(403, 'insufficient_scope', `Token is missing required scopes: ${missing.join(' ')}`);
+    }
+
+    const rawRoles = claims[oauth.rolesClaim ?? 'roles'];
+    const roles = Array.isArray(rawRoles) ? rawRoles.map(String) : typeof rawRoles === 'string' ? rawRoles.split(' ').filter(Boolean) : [];
+
+    const attributes: Record<string, string> = {};
+    for (const [name, value] of Object.entries(claims)) {
+      if (typeof value === 'string') {
+        attributes[name] = value;
+      }
+    }
+
+    return { id: claims.sub, method: 'oauth', roles, scopes, attributes };
+  }
+
+  /**
+   * Reject a request with invalid credentials
+   */
+  private reject(message: string): never {
+    throw new AuthenticationError(401, 'invalid_token', message);
+  }
+}
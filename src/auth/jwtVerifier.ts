@@ -0,0 +1,200 @@
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import { OAuthConfig } from '../types/index';
+
+/**
+ * Signature parameters for each accepted JWS algorithm. Symmetric (HS*) and "none" are deliberately absent.
+ */
+const ALGORITHMS: Record<string, { hash: string | null; keyType: string; padding?: number; dsaEncoding?: 'ieee-p1363' }> = {
+  RS256: { hash: 'sha256', keyType: 'RSA' },
+  RS384: { hash: 'sha384', keyType: 'RSA' },
+  RS512: { hash: 'sha512', keyType: 'RSA' },
+  PS256: { hash: 'sha256', keyType: 'RSA', padding: crypto.constants.RSA_PKCS1_PSS_PADDING },
+  ES256: { hash: 'sha256', keyType: 'EC', dsaEncoding: 'ieee-p1363' },
+  ES384: { hash: 'sha384', keyType: 'EC', dsaEncoding: 'ieee-p1363' },
+  EdDSA: { hash: null, keyType: 'OKP' }
+};
+
+const DEFAULT_CLOCK_TOLERANCE_SECONDS = 60;
+const DEFAULT_JWKS_RELOAD_INTERVAL_SECONDS = 30;
+
+/**
+ * Raised when a bearer token is malformed, badly signed, expired or issued for someone else
+ */
+export class InvalidTokenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidTokenError';
+  }
+}
+
+/**
+ * Decode one base64url JWT segment as JSON
+ */
+function decodeSegment(segment: string, label: string): any {
+  try {
+    const value = JSON.parse(Buffer.from(segment, 'base64url').toString('utf-8'));
+    if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+      throw new Error('not an object');
+    }
+    return value;
+  } catch {
+    throw new InvalidTokenError(`Malformed token ${label}`);
+  }
+}
+
+/**
+ * Verifies JWT access tokens against a JSON Web Key Set read from a local file.
+ *
+ * The key set is re-read when a token names a key id that is not loaded yet, so keys can be
+ * rotated by replacing the file without restarting the server. Re-reads happen at most once per
+ * reload interval, so tokens with made-up key ids cannot make every request read the file.
+ */
+export class JwtVerifier {
+  private config: OAuthConfig;
+  private keys: any[] = [];
+  private loadedAt: number = 0;
+  private reloading: Promise<void> | null = null;
+
+  constructor(config: OAuthConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Load the key set from disk
+   */
+  async loadKeys(): Promise<void> {
+    const jwks = JSON.parse(await fs.readFile(this.config.jwksPath, 'utf-8'));
+    if (!jwks || !Array.isArray(jwks.keys)) {
+      throw new Error(`JWKS file ${this.config.jwksPath} must contain a "keys" array`);
+    }
+    this.keys = jwks.keys.filter((key: any) => key && key.use !== 'enc');
+    this.loadedAt = Date.now();
+  }
+
+  /**
+   * Verify a token's signature and registered claims, returning its payload
+   */
+  async verify(token: string): Promise<Record<string, any>> {
+    const segments = token.split('.');
+    if (segments.length !== 3) {
+      throw new InvalidTokenError('Token is not a JWT');
+    }
+    const [encodedHeader, encodedPayload, encodedSignature] = segments as [string, string, string];
+    const header = decodeSegment(encodedHeader, 'header');
+    const payload = decodeSegment(encodedPayload, 'payload');
+
+    const algorithm = ALGORITHMS[header.alg];
+    if (!algorithm) {
+      throw new InvalidTokenError(`Unsupported token algorithm: ${String(header.alg)}`);
+    }
+
+    const jwk = await this.findKey(header.kid, header.alg, algorithm.keyType);
+    let key: crypto.KeyObject;
+    try {
+      key = crypto.createPublicKey({ key: jwk, format: 'jwk' });
+    } catch (error) {
+      console.error(`Signing key ${jwk.kid !== undefined ? `"${String(jwk.kid)}" ` : ''}in ${this.config.jwksPath} is not a valid public key:`, error);
+      throw new InvalidTokenError('Token signing key is not usable');
+    }
+    const verifyKey: crypto.VerifyKeyObjectInput = { key };
+    if (algorithm.padding !== undefined) {
+      verifyKey.padding = algorithm.padding;
+    }
+    if (algorithm.dsaEncoding) {
+      verifyKey.dsaEncoding = algorithm.dsaEncoding;
+    }
+
+    // Keys that do not fit the algorithm and malformed signatures make verify throw rather than return false
+    const signed = Buffer.from(`${encodedHeader}.${encodedPayload}`);
+    let valid: boolean;
+    try {
+      valid = crypto.verify(algorithm.hash, signed, verifyKey, Buffer.from(encodedSignature, 'base64url'));
+    } catch {
+      valid = false;
+    }
+    if (!valid) {
+      throw new InvalidTokenError('Token signature is invalid');
+    }
+
+    this.checkClaims(payload);
+    return payload;
+  }
+
+  /**
+   * Find the signing key for a token, reloading the key set once if the key id is unknown and the
+   * last load is older than the reload interval
+   */
+  private async findKey(kid: unknown, alg: string, keyType: string): Promise<any> {
+    const match = () => {
+      const candidates = this.keys.filter(key =>
+        key.kty === keyType && (!key.alg || key.alg === alg) && (kid === undefined || key.kid === kid)
+      );
+      // Without a kid the key set must be unambiguous
+      return kid === undefined && candidates.length !== 1 ? undefined : candidates[0];
+    };
+
+    let jwk = match();
+    if (!jwk && kid !== undefined && await this.reloadKeys()) {
+      jwk = match();
+    }
+    if (!jwk) {
+      throw new InvalidTokenError(kid !== undefined ? `No signing key found for kid "${String(kid)}"` : 'Token has no kid and the key set is ambiguous');
+    }
+    return jwk;
+  }
+
+  /**
+   * Re-read the key set unless it was loaded within the reload interval. Concurrent callers share one
+   * read, and a failed read keeps the current keys. Returns whether the keys may have changed.
+   */
+  private async reloadKeys(): Promise<boolean> {
+    if (!this.reloading) {
+      const intervalMs = (this.config.jwksReloadIntervalSeconds ?? DEFAULT_JWKS_RELOAD_INTERVAL_SECONDS) * 1000;
+      if (Date.now() - this.loadedAt < intervalMs) {
+        return false;
+      }
+      this.reloading = this.loadKeys()
+        .catch(error => {
+          // Wait a full interval before trying a broken file again
+          this.loadedAt = Date.now();
+          console.error(`Failed to reload JWKS ${this.config.jwksPath}:`, error);
+        })
+        .finally(() => {
+          this.reloading = null;
+        });
+    }
+    await this.reloading;
+    return true;
+  }
+
+  /**
+   * Check issuer, audience and validity period
+   */
+  private checkClaims(payload: Record<string, any>): void {
+    const now = Math.floor(Date.now() / 1000);
+    const tolerance = this.config.clockToleranceSeconds ?? DEFAULT_CLOCK_TOLERANCE_SECONDS;
+
+    if (payload.iss !== this.config.issuer) {
+      throw new InvalidTokenError('Token was issued by an unexpected issuer');
+    }
+
+    const audiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+    if (!audiences.includes(this.config.audience)) {
+      throw new InvalidTokenError('Token was not issued for this resource');
+    }
+
+    if (typeof payload.exp !== 'number') {
+      throw new InvalidTokenError('Token has no expiration time');
+    }
+    if (payload.exp + tolerance < now) {
+      throw new InvalidTokenError('Token has expired');
+    }
+    if (typeof payload.nbf === 'number' && payload.nbf - tolerance > now) {
+      throw new InvalidTokenError('Token is not valid yet');
+    }
+    if (typeof payload.sub !== 'string' || !payload.sub) {
+      throw new InvalidTokenError('Token has no subject');
+    }
+  }
+}
@@ -0,0 +1,205 @@
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import { AccessPolicy, ColumnRule, Principal, RowFilterValue, TablePolicy } from '../types/index';
+import { quoteIdentifier, quoteLiteral } from './catalog';
+
+/**
+ * Policy key that applies to every table not listed explicitly
+ */
+const ALL_TABLES = '*';
+
+/**
+ * DuckDB types that can be bucketed
+ */
+const NUMERIC_TYPE_PATTERN = /^(TINYINT|SMALLINT|INTEGER|BIGINT|HUGEINT|UTINYINT|USMALLINT|UINTEGER|UBIGINT|UHUGEINT|FLOAT|DOUBLE|DECIMAL)/i;
+
+/**
+ * Access rules resolved for one principal: the matched policy plus the row filter values taken from the principal
+ */
+export interface ResolvedAccess {
+  policy: AccessPolicy | null; // null when no policy matched, which denies every table
+  schema: string; // DuckDB schema holding this principal's views
+  principal: Principal;
+}
+
+/**
+ * Load access policies from a JSON file (an array, or an object with a "policies" array)
+ */
+export async function loadPolicyConfigFile(configPath: string): Promise<AccessPolicy[]> {
+  const raw = JSON.parse(await fs.readFile(configPath, 'utf-8'));
+  const policies: AccessPolicy[] = Array.isArray(raw) ? raw : raw.policies;
+  if (!Array.isArray(policies)) {
+    throw new Error(`Policy config ${configPath} must be an array or an object with a "policies" array`);
+  }
+
+  for (const policy of policies) {
+    if (!policy || typeof policy.name !== 'string' || !policy.tables || typeof policy.tables !== 'object') {
+      throw new Error(`Policies in ${configPath} require a "name" string and a "tables" object`);
+    }
+    for (const [table, tablePolicy] of Object.entries(policy.tables)) {
+      for (const [column, rule] of Object.entries(tablePolicy.columns ?? {})) {
+        const valid = rule === 'hide' || rule === 'null' ||
+          (typeof rule === 'object' && rule !== null && typeof rule.bucket === 'number' && rule.bucket > 0);
+        if (!valid) {
+          throw new Error(`Policy ${policy.name}: column ${table}.${column} must be "hide", "null" or { "bucket": <positive number> }`);
+        }
+      }
+    }
+  }
+  return policies;
+}
+
+/**
+ * Maps principals to access policies and builds the per-principal views that enforce them.
+ *
+ * Each distinct combination of policy and row filter values gets its own DuckDB schema. That schema
+ * shadows every registered table with a view: allowed tables are masked and filtered, denied tables are
+ * empty. Queries run with search_path set to the schema, so unqualified table names, SELECT * and
+ * subqueries all resolve to the views.
+ */
+export class AccessControl {
+  private policies: AccessPolicy[];
+
+  constructor(policies: AccessPolicy[]) {
+    this.policies = policies;
+  }
+
+  /**
+   * Resolve the access rules for a principal. null means unrestricted (no principal, e.g. authentication disabled).
+   */
+  resolve(principal: Principal | null | undefined): ResolvedAccess | null {
+    if (!principal) {
+      return null;
+    }
+
+    const policy = this.policies.find(candidate =>
+      candidate.principals?.includes(principal.id) ||
+      candidate.roles?.some(role => principal.roles.includes(role))
+    ) ?? null;
+
+    // Schemas are shared by principals that end up with identical views
+    const filterValues = policy ? this.filterValues(policy, principal) : {};
+    const key = JSON.stringify({ policy: policy?.name ?? null, filterValues });
+    const schema = `policy_${crypto.createHash('sha256').update(key).digest('hex').slice(0, 16)}`;
+
+    return { policy, schema, principal };
+  }
+
+  /**
+   * The policy for one table, or null when the table is denied
+   */
+  tablePolicy(access: ResolvedAccess, table: string): TablePolicy | null {
+    if (!access.policy) {
+      return null;
+    }
+    const entry = Object.entries(access.policy.tables)
+      .find(([name]) => name !== ALL_TABLES && name.toLowerCase() === table.toLowerCase());
+    return entry ? entry[1] : access.policy.tables[ALL_TABLES] ?? null;
+  }
+
+  /**
+   * Columns of a table the principal sees hidden, nulled or bucketed, named as in the policy
+   */
+  maskedColumns(access: ResolvedAccess, table: string): string[] {
+    return Object.keys(this.tablePolicy(access, table)?.columns ?? {});
+  }
+
+  /**
+   * Build the view that exposes a table to a principal.
+   * Columns are given in table order with their DuckDB types.
+   */
+  buildViewStatement(access: ResolvedAccess, table: string, columns: Array<{ name: string; type: string }>): string {
+    const target = `${quoteIdentifier(access.schema)}.${quoteIdentifier(table)}`;
+    const source = `main.${quoteIdentifier(table)}`;
+    const tablePolicy = this.tablePolicy(access, table);
+
+    const projections = tablePolicy
+      ? columns
+        .map(column => this.projectColumn(table, column, this.columnRule(tablePolicy, column.name)))
+        .filter((projection): projection is string => projection !== null)
+      : [];
+
+    // Denied tables (or tables with every column hidden) become empty views so no row data can leak
+    if (projections.length === 0) {
+      return `CREATE OR REPLACE VIEW ${target} AS SELECT NULL AS access_denied WHERE false`;
+    }
+
+    const predicates = Object.entries(tablePolicy!.rowFilter ?? {})
+      .map(([column, expected]) => this.rowPredicate(column, expected, access.principal));
+    const where = predicates.length > 0 ? ` WHERE ${predicates.join(' AND ')}` : '';
+
+    return `CREATE OR REPLACE VIEW ${target} AS SELECT ${projections.join(', ')} FROM ${source}${where}`;
+  }
+
+  /**
+   * Find the rule for a column, matching names case-insensitively like DuckDB
+   */
+  private columnRule(tablePolicy: TablePolicy, column: string): ColumnRule | undefined {
+    const entry = Object.entries(tablePolicy.columns ?? {}).find(([name]) => name.toLowerCase() === column.toLowerCase());
+    return entry?.[1];
+  }
+
+  /**
+   * SQL projection for one column under a rule, or null when the column is hidden
+   */
+  private projectColumn(table: string, column: { name: string; type: string }, rule: ColumnRule | undefined): string | null {
+    const name = quoteIdentifier(column.name);
+    if (rule === undefined) {
+      return name;
+    }
+    if (rule === 'hide') {
+      return null;
+    }
+    if (rule === 'null') {
+      return `CAST(NULL AS ${column.type}) AS ${name}`;
+    }
+    if (!NUMERIC_TYPE_PATTERN.test(column.type)) {
+      throw new Error(`Cannot bucket ${table}.${column.name}: ${column.type} is not numeric`);
+    }
+    return `CAST(floor(${name} / ${rule.bucket}) * ${rule.bucket} AS ${column.type}) AS ${name}`;
+  }
+
+  /**
+   * SQL predicate requiring a column to equal one of the expected values
+   */
+  private rowPredicate(column: string, expected: RowFilterValue | RowFilterValue[], principal: Principal): string {
+    const values = (Array.isArray(expected) ? expected : [expected])
+      .map(value => this.resolveValue(value, principal))
+      .filter((value): value is RowFilterValue => value !== undefined);
+
+    // A principal without the referenced attribute sees no rows
+    if (values.length === 0) {
+      return 'false';
+    }
+    const literals = values.map(value => typeof value === 'string' ? quoteLiteral(value) : String(value));
+    return `${quoteIdentifier(column)} IN (${literals.join(', ')})`;
+  }
+
+  /**
+   * Replace "$attribute" references with the principal's attribute values
+   */
+  private resolveValue(value: RowFilterValue, principal: Principal): RowFilterValue | undefined {
+    if (typeof value !== 'string' || !value.startsWith('$')) {
+      return value;
+    }
+    const attribute = value.slice(1);
+    return attribute === 'id' ? principal.id : principal.attributes[attribute];
+  }
+
+  /**
+   * Row filter values a policy takes from a principal, used to tell apart principals that need different views
+   */
+  private filterValues(policy: AccessPolicy, principal: Principal): Record<string, unknown> {
+    const values: Record<string, unknown> = {};
+    for (const tablePolicy of Object.values(policy.tables)) {
+      for (const expected of Object.values(tablePolicy.rowFilter ?? {})) {
+        for (const value of Array.isArray(expected) ? expected : [expected]) {
+          if (typeof value === 'string' && value.startsWith('$')) {
+            values[value] = this.resolveValue(value, principal) ?? null;
+          }
+        }
+      }
+    }
+    return values;
+  }
+}
@@ -0,0 +1,305 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { DatasetConfig, DatasetFormat } from '../types/index';
+
+/**
+ * Column types for the bundled employees dataset
+ */
+export const EMPLOYEE_COLUMNS: Record<string, string> = {
+  employeeId: 'INTEGER',
+  employeeName: 'VARCHAR',
+  location: 'VARCHAR',
+  startDate: 'DATE',
+  department: 'VARCHAR',
+  salary: 'BIGINT',
+  position: 'VARCHAR',
+  isRemote: 'BOOLEAN',
+  lastPromoted: 'DATE'
+};
+
+/**
+ * Build the default catalog entry for the employees CSV file
+ */
+export function employeesDataset(csvFilePath: string): DatasetConfig {
+  return {
+    name: 'employees',
+    path: csvFilePath,
+    format: 'csv',
+    mode: 'table',
+    columnTypes: EMPLOYEE_COLUMNS,
+    columnComments: {
+      employeeId: 'Unique employee number',
+      employeeName: 'Full name',
+      location: 'Work location (US state)',
+      startDate: 'First day of employment',
+      department: 'Department name',
+      salary: 'Annual salary',
+      position: 'Job title',
+      isRemote: 'Whether the employee works remotely',
+      lastPromoted: 'Date of the most recent promotion'
+    },
+    description: 'Employee records (id, name, location, start date, department, salary, position, remote flag, last promotion)'
+  };
+}
+
+/**
+ * Read a JSON dataset list from disk. Relative dataset paths are resolved against the config file's directory.
+ */
+export async function loadDatasetConfigFile(configPath: string): Promise<DatasetConfig[]> {
+  const raw = JSON.parse(await fs.readFile(configPath, 'utf-8'));
+  const datasets: DatasetConfig[] = Array.isArray(raw) ? raw : raw.datasets;
+  if (!Array.isArray(datasets)) {
+    throw new Error(`Dataset config ${configPath} must be an array or an object with a "datasets" array`);
+  }
+
+  const baseDir = path.dirname(path.resolve(configPath));
+  return datasets.map(dataset => {
+    if (!dataset || typeof dataset.name !== 'string' || typeof dataset.path !== 'string') {
+      throw new Error(`Dataset entries in ${configPath} require "name" and "path" strings`);
+    }
+    return { ...dataset, path: path.resolve(baseDir, dataset.path) };
+  });
+}
+
+/**
+ * Name of the table a reload loads a dataset's new data into before swapping it in
+ */
+export function stagingTableName(dataset: string): string {
+  return `_staging_${dataset}`;
+}
+
+/**
+ * Name of the table holding a dataset's rejected CSV rows
+ */
+export function quarantineTableName(dataset: string): string {
+  return `${dataset}_quarantine`;
+}
+
+/**
+ * Temporary tables that read_csv fills with rejected rows and the scans that produced them
+ */
+export interface RejectTables {
+  errors: string;
+  scans: string;
+}
+
+/**
+ * Quote an identifier (table or column name) for use in DuckDB SQL
+ */
+export function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Quote a string literal for use in DuckDB SQL
+ */
+export function quoteLiteral(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Check whether a dataset path contains glob wildcards
+ */
+export function isGlobPath(filePath: string): boolean {
+  return /[*?[\]{}]/.test(filePath);
+}
+
+/**
+ * Infer a dataset format from its file extension
+ */
+export function inferFormat(filePath: string): DatasetFormat {
+  const extension = path.extname(filePath.replace(/\.gz$/i, '')).toLowerCase();
+  switch (extension) {
+    case '.csv':
+    case '.tsv':
+      return 'csv';
+    case '.parquet':
+      return 'parquet';
+    case '.json':
+      return 'json';
+    case '.ndjson':
+    case '.jsonl':
+      return 'ndjson';
+    default:
+      throw new Error(`Cannot infer dataset format from "${filePath}". Set "format" explicitly.`);
+  }
+}
+
+/**
+ * Registry of datasets loaded into DuckDB
+ */
+export class DatasetCatalog {
+  private datasets: Map<string, DatasetConfig> = new Map();
+
+  constructor(datasets: DatasetConfig[] = []) {
+    for (const dataset of datasets) {
+      this.register(dataset);
+    }
+  }
+
+  /**
+   * Add a dataset to the catalog
+   */
+  register(dataset: DatasetConfig): void {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(dataset.name)) {
+      throw new Error(`Invalid dataset name "${dataset.name}". Use letters, digits and underscores only.`);
+    }
+    if (this.datasets.has(dataset.name.toLowerCase())) {
+      throw new Error(`Dataset "${dataset.name}" is already registered`);
+    }
+    this.datasets.set(dataset.name.toLowerCase(), dataset);
+  }
+
+  /**
+   * Look up a dataset by table name (case-insensitive)
+   */
+  get(name: string): DatasetConfig | undefined {
+    return this.datasets.get(name.toLowerCase());
+  }
+
+  /**
+   * List all registered datasets in registration order
+   */
+  list(): DatasetConfig[] {
+    return Array.from(this.datasets.values());
+  }
+
+  /**
+   * Names of all registered tables and views
+   */
+  names(): string[] {
+    return this.list().map(dataset => dataset.name);
+  }
+
+  /**
+   * Build the table function expression that reads a dataset's source files. With reject tables, malformed
+   * CSV rows are skipped and recorded in them instead of failing the read.
+   */
+  buildReadExpression(dataset: DatasetConfig, rejects?: RejectTables): string {
+    const source = quoteLiteral(path.resolve(dataset.path));
+    const format = dataset.format ?? inferFormat(dataset.path);
+    const columns = dataset.columns ? this.buildColumnsStruct(dataset.columns) : null;
+
+    switch (format) {
+      case 'csv': {
+        const options = this.buildCsvOptions(dataset);
+        if (rejects) {
+          options.push('store_rejects = true', `rejects_table = ${quoteLiteral(rejects.errors)}`, `rejects_scan = ${quoteLiteral(rejects.scans)}`);
+        }
+        return `read_csv(${[source, ...options].join(', ')})`;
+      }
+      case 'json':
+        return columns
+          ? `read_json(${source}, columns = ${columns})`
+          : `read_json(${source})`;
+      case 'ndjson':
+        return columns
+          ? `read_json(${source}, format = 'newline_delimited', columns = ${columns})`
+          : `read_json(${source}, format = 'newline_delimited')`;
+      case 'parquet':
+        return `read_parquet(${source})`;
+    }
+  }
+
+  /**
+   * Build the CREATE statement that registers a dataset as a table or view, optionally under another name
+   */
+  buildCreateStatement(dataset: DatasetConfig, target: string = dataset.name, rejects?: RejectTables): string {
+    const kind = dataset.mode === 'view' ? 'VIEW' : 'TABLE';
+    const format = dataset.format ?? inferFormat(dataset.path);
+    const readExpression = this.buildReadExpression(dataset, rejects);
+
+    // Parquet carries its own schema, so explicit column types are applied as casts; so are type
+    // overrides for formats whose readers cannot take them
+    let projection = '*';
+    if (format === 'parquet' && dataset.columns) {
+      projection = Object.entries(dataset.columns)
+        .map(([column, type]) => `CAST(${quoteIdentifier(column)} AS ${type}) AS ${quoteIdentifier(column)}`)
+        .join(', ');
+    } else if (format !== 'csv' && dataset.columnTypes && Object.keys(dataset.columnTypes).length > 0) {
+      const casts = Object.entries(dataset.columnTypes)
+        .map(([column, type]) => `CAST(${quoteIdentifier(column)} AS ${type}) AS ${quoteIdentifier(column)}`);
+      projection = `* REPLACE (${casts.join(', ')})`;
+    }
+
+    return `CREATE OR REPLACE ${kind} ${quoteIdentifier(target)} AS SELECT ${projection} FROM ${readExpression}`;
+  }
+
+  /**
+   * Build the query that reports the CSV dialect a dataset is read with, as detected by sniff_csv with
+   * the dataset's options applied
+   */
+  buildSniffQuery(dataset: DatasetConfig): string {
+    const source = quoteLiteral(path.resolve(dataset.path));
+    const options = [...this.buildCsvOptions(dataset), 'ignore_errors = true'];
+    return `SELECT Delimiter, Quote, Escape, HasHeader, DateFormat, TimestampFormat FROM sniff_csv(${[source, ...options].join(', ')})`;
+  }
+
+  /**
+   * COPY ... TO options that write a table in a dataset's CSV dialect, so the next load reads it back the
+   * same way. NULLs are written as the first of the dataset's null strings.
+   */
+  buildCopyOptions(dataset: DatasetConfig): string {
+    const csv = dataset.csv ?? {};
+    const options = ['FORMAT csv', `HEADER ${csv.header ?? true}`];
+    if (csv.delimiter !== undefined) {
+      options.push(`DELIMITER ${quoteLiteral(csv.delimiter)}`);
+    }
+    if (csv.quote !== undefined) {
+      options.push(`QUOTE ${quoteLiteral(csv.quote)}`);
+    }
+    if (csv.escape !== undefined) {
+      options.push(`ESCAPE ${quoteLiteral(csv.escape)}`);
+    }
+    if (csv.nullStrings !== undefined && csv.nullStrings.length > 0) {
+      options.push(`NULLSTR ${quoteLiteral(csv.nullStrings[0])}`);
+    }
+    if (csv.dateFormat !== undefined) {
+      options.push(`DATEFORMAT ${quoteLiteral(csv.dateFormat)}`);
+    }
+    if (csv.timestampFormat !== undefined) {
+      options.push(`TIMESTAMPFORMAT ${quoteLiteral(csv.timestampFormat)}`);
+    }
+    return `(${options.join(', ')})`;
+  }
+
+  /**
+   * read_csv options for a dataset's CSV settings, column schema and type overrides
+   */
+  private buildCsvOptions(dataset: DatasetConfig): string[] {
+    const csv = dataset.csv ?? {};
+    const options = [`header = ${csv.header ?? true}`];
+    if (csv.delimiter !== undefined) {
+      options.push(`delim = ${quoteLiteral(csv.delimiter)}`);
+    }
+    if (csv.quote !== undefined) {
+      options.push(`quote = ${quoteLiteral(csv.quote)}`);
+    }
+    if (csv.escape !== undefined) {
+      options.push(`escape = ${quoteLiteral(csv.escape)}`);
+    }
+    if (csv.nullStrings !== undefined) {
+      options.push(`nullstr = [${csv.nullStrings.map(quoteLiteral).join(', ')}]`);
+    }
+    if (csv.dateFormat !== undefined) {
+      options.push(`dateformat = ${quoteLiteral(csv.dateFormat)}`);
+    }
+    if (csv.timestampFormat !== undefined) {
+      options.push(`timestampformat = ${quoteLiteral(csv.timestampFormat)}`);
+    }
+    if (dataset.columns) {
+      options.push(`columns = ${this.buildColumnsStruct(dataset.columns)}`);
+    } else if (dataset.columnTypes && Object.keys(dataset.columnTypes).length > 0) {
+      options.push(`types = ${this.buildColumnsStruct(dataset.columnTypes)}`);
+    }
+    return options;
+  }
+
+  /**
+   * Build a DuckDB struct literal mapping column names to types
+   */
+  private buildColumnsStruct(columns: Record<string, string>): string {
+    const entries = Object.entries(columns).map(([column, type]) => `${quoteLiteral(column)}: ${quoteLiteral(type)}`);
+    return `{${entries.join(', ')}}`;
+  }
+}
@@ -0,0 +1,272 @@
+import { DuckDBConnection, DuckDBInstance } from '@duckdb/node-api';
+import { ConnectionPoolConfig, ConnectionPoolStats } from '../types/index';
+import { QueryCancelledError } from './queryStream';
+
+export const DEFAULT_MAX_CONNECTIONS = 8;
+const DEFAULT_ACQUIRE_TIMEOUT_MS = 10_000;
+
+/**
+ * Raised when no connection becomes free within the pool's maximum wait
+ */
+export class ConnectionPoolTimeoutError extends Error {
+  readonly waitedMs: number;
+
+  constructor(waitedMs: number, maxConnections: number) {
+    super(`No database connection became free within ${waitedMs}ms; all ${maxConnections} connections are busy. Retry shortly, or page open cursors to the end so their connections are released.`);
+    this.name = 'ConnectionPoolTimeoutError';
+    this.waitedMs = waitedMs;
+  }
+}
+
+/**
+ * One pooled connection and the session it is homed to
+ */
+interface PooledConnection {
+  connection: DuckDBConnection;
+  sessionId: string | null; // Session whose home connection this is; null when shared
+  inUse: boolean;
+  retired: boolean; // Close instead of returning to the pool on release
+  lastUsed: number;
+}
+
+/**
+ * Query queued for a connection
+ */
+interface Waiter {
+  sessionId: string | null;
+  resolve: (entry: PooledConnection) => void;
+  reject: (error: Error) => void;
+  cleanup: () => void;
+}
+
+/**
+ * Bounded pool of connections over one DuckDB instance.
+ *
+ * A session's first query makes the connection it runs on that session's home connection, and later
+ * queries from the session run there whenever it is free, so session-scoped state such as settings and
+ * temporary views stays visible. While the home connection is busy (a running query or an open cursor)
+ * the session borrows a shared connection. When the pool is full, an idle home connection of another
+ * session is closed and reopened fresh, so one session's state never leaks into another's. Queries
+ * that find no connection wait in FIFO order up to acquireTimeoutMs.
+ */
+export class ConnectionPool {
+  private instance: DuckDBInstance;
+  private maxConnections: number;
+  private acquireTimeoutMs: number;
+  private entries: Map<DuckDBConnection, PooledConnection> = new Map();
+  private opening: number = 0; // Connections being opened, counted against the maximum
+  private waiters: Waiter[] = [];
+  private closed: boolean = false;
+  private counters = { acquired: 0, timeouts: 0, totalWaitMs: 0, maxWaitMs: 0 };
+
+  constructor(instance: DuckDBInstance, config: ConnectionPoolConfig = {}) {
+    this.instance = instance;
+    this.maxConnections = Math.max(1, Math.floor(config.maxConnections ?? DEFAULT_MAX_CONNECTIONS));
+    this.acquireTimeoutMs = config.acquireTimeoutMs ?? DEFAULT_ACQUIRE_TIMEOUT_MS;
+  }
+
+  /**
+   * Take a connection for one query, preferring the session's home connection.
+   * Aborting the signal while waiting fails with QueryCancelledError.
+   */
+  async acquire(sessionId: string | null = null, signal?: AbortSignal): Promise<DuckDBConnection> {
+    if (this.closed) {
+      throw new Error('Connection pool is closed');
+    }
+    if (signal?.aborted) {
+      throw new QueryCancelledError(signal.reason);
+    }
+
+    const startedAt = Date.now();
+    const entry = await (this.take(sessionId) ?? this.wait(sessionId, signal));
+
+    const waitedMs = Date.now() - startedAt;
+    this.counters.acquired++;
+    this.counters.totalWaitMs += waitedMs;
+    this.counters.maxWaitMs = Math.max(this.counters.maxWaitMs, waitedMs);
+    return entry.connection;
+  }
+
+  /**
+   * Return a connection taken with acquire()
+   */
+  release(connection: DuckDBConnection): void {
+    const entry = this.entries.get(connection);
+    if (!entry || !entry.inUse) {
+      return;
+    }
+    entry.inUse = false;
+    entry.lastUsed = Date.now();
+    if (entry.retired || this.closed) {
+      this.discard(entry);
+    }
+    this.dispatch();
+  }
+
+  /**
+   * Forget a session that ended, closing its home connection so its state is dropped
+   */
+  releaseSession(sessionId: string): void {
+    for (const entry of this.entries.values()) {
+      if (entry.sessionId !== sessionId) {
+        continue;
+      }
+      if (entry.inUse) {
+        entry.retired = true;
+      } else {
+        this.discard(entry);
+      }
+    }
+    this.dispatch();
+  }
+
+  /**
+   * Current pool usage
+   */
+  getStats(): ConnectionPoolStats {
+    const entries = Array.from(this.entries.values());
+    const inUse = entries.filter(entry => entry.inUse).length;
+    const sessions = new Set(entries.map(entry => entry.sessionId).filter(sessionId => sessionId !== null));
+    return {
+      maxConnections: this.maxConnections,
+      open: entries.length,
+      inUse,
+      idle: entries.length - inUse,
+      sessions: sessions.size,
+      waiting: this.waiters.length,
+      acquired: this.counters.acquired,
+      timeouts: this.counters.timeouts,
+      averageWaitMs: this.counters.acquired > 0 ? Math.round(this.counters.totalWaitMs / this.counters.acquired) : 0,
+      maxWaitMs: this.counters.maxWaitMs
+    };
+  }
+
+  /**
+   * Close idle connections and fail queued queries. Busy connections close when released.
+   */
+  close(): void {
+    this.closed = true;
+    for (const waiter of this.waiters.splice(0)) {
+      waiter.cleanup();
+      waiter.reject(new Error('Connection pool is closed'));
+    }
+    for (const entry of Array.from(this.entries.values())) {
+      if (!entry.inUse) {
+        this.discard(entry);
+      }
+    }
+  }
+
+  /**
+   * Claim a connection without waiting, or return null when the pool is exhausted
+   */
+  private take(sessionId: string | null): Promise<PooledConnection> | null {
+    const entries = Array.from(this.entries.values());
+    const idle = entries.filter(entry => !entry.inUse && !entry.retired);
+    const hasHome = sessionId !== null && entries.some(entry => entry.sessionId === sessionId);
+
+    const home = sessionId !== null ? idle.find(entry => entry.sessionId === sessionId) : undefined;
+    const shared = idle.find(entry => entry.sessionId === null);
+    const available = home ?? shared;
+    if (available) {
+      available.inUse = true;
+      if (!hasHome && sessionId !== null) {
+        available.sessionId = sessionId;
+      }
+      return Promise.resolve(available);
+    }
+
+    const owner = hasHome ? null : sessionId;
+    if (this.entries.size + this.opening < this.maxConnections) {
+      return this.open(owner);
+    }
+
+    // Reclaim the least recently used idle home connection of another session
+    const reclaimable = idle
+      .filter(entry => entry.sessionId !== sessionId)
+      .sort((a, b) => a.lastUsed - b.lastUsed)[0];
+    if (reclaimable) {
+      this.discard(reclaimable);
+      return this.open(owner);
+    }
+    return null;
+  }
+
+  /**
+   * Open a new connection, reserving its slot until it is ready
+   */
+  private async open(sessionId: string | null): Promise<PooledConnection> {
+    this.opening++;
+    let connection: DuckDBConnection;
+    try {
+      connection = await this.instance.connect();
+    } catch (error) {
+      // Let a queued query retry the freed slot
+      this.opening--;
+      this.dispatch();
+      throw error;
+    }
+    this.opening--;
+
+    const entry: PooledConnection = { connection, sessionId, inUse: true, retired: false, lastUsed: Date.now() };
+    this.entries.set(connection, entry);
+    return entry;
+  }
+
+  /**
+   * Queue until a connection is released, the maximum wait elapses or the signal aborts
+   */
+  private wait(sessionId: string | null, signal?: AbortSignal): Promise<PooledConnection> {
+    return new Promise((resolve, reject) => {
+      const startedAt = Date.now();
+      const waiter: Waiter = {
+        sessionId,
+        resolve,
+        reject,
+        cleanup: () => {
+          clearTimeout(timer);
+          signal?.removeEventListener('abort', onAbort);
+        }
+      };
+      const leave = (error: Error) => {
+        this.waiters = this.waiters.filter(candidate => candidate !== waiter);
+        waiter.cleanup();
+        reject(error);
+      };
+      const timer = setTimeout(() => {
+        this.counters.timeouts++;
+        leave(new ConnectionPoolTimeoutError(Date.now() - startedAt, this.maxConnections));
+      }, this.acquireTimeoutMs);
+      const onAbort = () => leave(new QueryCancelledError(signal!.reason));
+      signal?.addEventListener('abort', onAbort);
+      this.waiters.push(waiter);
+    });
+  }
+
+  /**
+   * Hand free connections to queued queries in arrival order
+   */
+  private dispatch(): void {
+    while (this.waiters.length > 0 && !this.closed) {
+      const claim = this.take(this.waiters[0]!.sessionId);
+      if (!claim) {
+        return;
+      }
+      const waiter = this.waiters.shift()!;
+      waiter.cleanup();
+      claim.then(waiter.resolve, waiter.reject);
+    }
+  }
+
+  /**
+   * Close a connection and remove it from the pool
+   */
+  private discard(entry: PooledConnection): void {
+    this.entries.delete(entry.connection);
+    try {
+      entry.connection.closeSync();
+    } catch (error) {
+      console.error('Failed to close pooled connection:', error);
+    }
+  }
+}
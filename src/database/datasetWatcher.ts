@@ -0,0 +1,86 @@
+import { FSWatcher, watch } from 'fs';
+import path from 'path';
+import { DatasetConfig } from '../types/index';
+import { isGlobPath } from './catalog';
+
+const DEFAULT_DEBOUNCE_MS = 1000;
+
+/**
+ * Watches datasets' source files and reports which dataset changed once its files have been quiet for
+ * debounceMs, so a file that is still being written (e.g. by npm run generate-data) is reloaded once.
+ *
+ * The containing directory is watched rather than the file itself, because editors and generators often
+ * replace a file by renaming a new one over it. Glob datasets watch the deepest directory without
+ * wildcards, recursively, and treat any change below it as a change to the dataset.
+ */
+export class DatasetWatcher {
+  private watchers: FSWatcher[] = [];
+  private timers: Map<string, NodeJS.Timeout> = new Map();
+  private debounceMs: number;
+  private onChange: (dataset: string) => void;
+
+  constructor(onChange: (dataset: string) => void, debounceMs: number = DEFAULT_DEBOUNCE_MS) {
+    this.onChange = onChange;
+    this.debounceMs = debounceMs;
+  }
+
+  /**
+   * Start watching a dataset's source files. Datasets whose directory is missing are skipped with a warning.
+   */
+  watch(dataset: DatasetConfig): void {
+    const source = path.resolve(dataset.path);
+    const glob = isGlobPath(source);
+    const directory = glob ? this.staticPrefix(source) : path.dirname(source);
+    const fileName = path.basename(source);
+
+    try {
+      const watcher = watch(directory, { persistent: false, recursive: glob }, (_event, changed) => {
+        // Without a file name the platform could not say what changed, so assume it was the dataset
+        if (glob || !changed || changed.toString() === fileName) {
+          this.schedule(dataset.name);
+        }
+      });
+      watcher.on('error', error => {
+        console.error(`Stopped watching ${directory} for dataset ${dataset.name}:`, error);
+      });
+      this.watchers.push(watcher);
+      console.log(`Watching ${glob ? directory : source} for changes to dataset ${dataset.name}`);
+    } catch (error) {
+      console.warn(`Cannot watch ${directory} for dataset ${dataset.name}; it will not reload automatically:`, error);
+    }
+  }
+
+  /**
+   * Stop watching and drop pending reloads
+   */
+  close(): void {
+    for (const watcher of this.watchers) {
+      watcher.close();
+    }
+    this.watchers = [];
+    for (const timer of this.timers.values()) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+  }
+
+  /**
+   * Report a change once the dataset's files stop changing
+   */
+  private schedule(dataset: string): void {
+    clearTimeout(this.timers.get(dataset));
+    this.timers.set(dataset, setTimeout(() => {
+      this.timers.delete(dataset);
+      this.onChange(dataset);
+    }, this.debounceMs));
+  }
+
+  /**
+   * Deepest directory of a glob path that contains no wildcards
+   */
+  private staticPrefix(pattern: string): string {
+    const segments = pattern.split(path.sep);
+    const firstWildcard = segments.findIndex(segment => isGlobPath(segment));
+    return segments.slice(0, firstWildcard).join(path.sep) || path.sep;
+  }
+}
@@ -1,41 +1,86 @@
-import { DuckDBInstance, DuckDBConnection } from '@duckdb/node-api';
+import { DuckDBArrayValue, DuckDBConnection, DuckDBDecimalValue, DuckDBInstance, DuckDBListValue, DuckDBMapValue, DuckDBPreparedStatement, DuckDBResultReader, DuckDBStructValue, DuckDBUnionValue } from '@duckdb/node-api';
 import { promises as fs } from 'fs';
+import os from 'os';
 import path from 'path';
-import { QueryResponse, Employee } from '../types/index';
+import crypto from 'crypto';
+import { QueryResponse, Employee, DatasetConfig, TableInfo, SqlValidationResult, QueryParams, QueryResultColumn, AccessPolicy, Principal, QueryLimits, ConnectionPoolConfig, ConnectionPoolStats, DatasetStatus, ExplainedPlan, LoadDiagnostics, RejectedRow } from '../types/index';
+import { DatasetCatalog, RejectTables, employeesDataset, inferFormat, isGlobPath, quarantineTableName, quoteIdentifier, quoteLiteral, stagingTableName } from './catalog';
+import { SqlValidator, TableRestrictions } from './sqlValidator';
+import { AccessControl, ResolvedAccess } from './accessPolicy';
+import { bindParameters } from './params';
+import { ConnectionPool } from './connectionPool';
+import { QueryCancelledError, QueryLimitError, QueryStream, QueryTimeoutError } from './queryStream';
+
+const DEFAULT_QUERY_TIMEOUT_MS = 30_000;
 
 /**
- * DuckDB database manager for handling CSV data operations
+ * Temporary tables read_csv records rejected rows in while a dataset loads
+ */
+const LOAD_REJECTS: RejectTables = { errors: '_load_rejects', scans: '_load_reject_scans' };
+
+/**
+ * Outcome of a table update: the value to return, and whether the table's contents changed
+ */
+export interface TableUpdate<T> {
+  result: T;
+  changed: boolean;
+}
+
+/**
+ * DuckDB database manager for handling dataset loading and queries
  */
 export class DatabaseManager {
   private instance: DuckDBInstance | null = null;
   private connection: DuckDBConnection | null = null;
   private initialized: boolean = false;
+  private catalog: DatasetCatalog = new DatasetCatalog();
+  private validator: SqlValidator | null = null;
+  private changeListeners: Set<(table: string) => void> = new Set();
+  private accessControl: AccessControl | null = null;
+  private policySchemas: Map<string, Promise<void>> = new Map(); // Built per-principal view schemas
+  private limits: QueryLimits;
+  private poolConfig: ConnectionPoolConfig;
+  private pool: ConnectionPool | null = null; // Connections for queries; this.connection is kept for loading and validation
+  private datasetStatus: Map<string, DatasetStatus> = new Map();
+  private datasetTasks: Map<string, Promise<unknown>> = new Map(); // Latest queued reload or write per dataset
+  private pinnedDatasets: Map<string, string> = new Map(); // Datasets no longer reloaded from their files, with the reason
+  private datasetVersions: Map<string, number> = new Map(); // Bumped on every load, reload and write
 
-  constructor() {
+  constructor(limits: QueryLimits = {}, poolConfig: ConnectionPoolConfig = {}) {
     // Instance will be created in initialize()
+    this.limits = limits;
+    this.poolConfig = poolConfig;
   }
 
   /**
-   * Initialize the database and load CSV data
+   * Initialize the database and register the configured datasets.
+   * A plain CSV path registers the bundled employees table for backward compatibility.
    */
-  async initialize(csvFilePath: string): Promise<void> {
+  async initialize(source: string | DatasetConfig[]): Promise<void> {
     if (this.initialized) {
       return;
     }
 
     try {
-      // Verify CSV file exists
-      await fs.access(csvFilePath);
+      const datasets = typeof source === 'string' ? [employeesDataset(source)] : source;
+      if (datasets.length === 0) {
+        throw new Error('At least one dataset must be configured');
+      }
+      this.catalog = new DatasetCatalog(datasets);
 
       // Create DuckDB instance and connection
-      this.instance = await DuckDBInstance.create();
+      this.instance = await DuckDBInstance.create(':memory:', this.instanceOptions());
       this.connection = await this.instance.connect();
+      this.validator = new SqlValidator(this.connection);
+      this.pool = new ConnectionPool(this.instance, this.poolConfig);
 
-      // Create table and load CSV data
-      await this.createEmployeesTable(csvFilePath);
+      // Create a table or view for every registered dataset
+      for (const dataset of this.catalog.list()) {
+        await this.loadDataset(dataset);
+      }
 
       this.initialized = true;
-      console.log('Database initialized successfully');
+      console.log(`Database initialized successfully with ${datasets.length} dataset(s): ${this.catalog.names().join(', ')}`);
     } catch (error) {
       console.error('Failed to initialize database:', error);
       throw error;
@@ -43,56 +88,556 @@ export class DatabaseManager {
   }
 
   /**
-   * Create employees table and load CSV data
+   * DuckDB settings derived from the configured resource limits
+   */
+  private instanceOptions(): Record<string, string> {
+    const options: Record<string, string> = {};
+    if (this.limits.memoryLimit) {
+      options.memory_limit = this.limits.memoryLimit;
+    }
+    if (this.limits.threads) {
+      options.threads = String(this.limits.threads);
+    }
+    if (this.limits.tempDirectory) {
+      options.temp_directory = this.limits.tempDirectory;
+    }
+    return options;
+  }
+
+  /**
+   * Effective per-query limits. A timeout of null means queries may run indefinitely.
+   */
+  getQueryLimits(): { timeoutMs: number | null; maxRows: number | null; maxBytes: number | null } {
+    const timeoutMs = this.limits.queryTimeoutMs ?? DEFAULT_QUERY_TIMEOUT_MS;
+    return {
+      timeoutMs: timeoutMs > 0 ? timeoutMs : null,
+      maxRows: this.limits.maxResultRows ?? null,
+      maxBytes: this.limits.maxResultBytes ?? null
+    };
+  }
+
+  /**
+   * Create the table or view backing a dataset from its source files
+   */
+  private async loadDataset(dataset: DatasetConfig): Promise<void> {
+    if (!this.connection) {
+      throw new Error('Database connection not established');
+    }
+
+    const startedAt = Date.now();
+    await this.checkSource(dataset);
+    const rejects = this.quarantines(dataset) ? LOAD_REJECTS : undefined;
+
+    try {
+      await this.connection.run(this.catalog.buildCreateStatement(dataset, dataset.name, rejects));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to load dataset "${dataset.name}" from ${dataset.path}: ${message}`);
+    }
+
+    const rejectedRows = rejects ? await this.storeQuarantine(this.connection, dataset) : 0;
+    const rowCount = dataset.mode === 'view' ? null : await this.countRows(this.connection, dataset.name);
+    this.recordLoad(dataset, rowCount, startedAt, await this.describeLoad(this.connection, dataset, rejectedRows));
+    this.notifyTableChanged(dataset.name);
+  }
+
+  /**
+   * Reload a dataset from its source files. A table is loaded into a staging table, validated and swapped
+   * in within one transaction, so queries already running finish on the previous version. When loading or
+   * validation fails the previous version stays in use and the error is recorded in the dataset's status.
+   * Reloads and writes of the same dataset run one after another. Pinned datasets are not reloaded.
+   */
+  async reloadDataset(name: string): Promise<DatasetStatus> {
+    const dataset = this.catalog.get(name);
+    if (!dataset || !this.initialized) {
+      throw new Error(`Unknown dataset: ${name}`);
+    }
+    const pinned = this.pinnedDatasets.get(dataset.name);
+    if (pinned) {
+      throw new Error(`Dataset "${dataset.name}" is not reloaded from ${dataset.path}: ${pinned}`);
+    }
+
+    return this.runDatasetTask(dataset.name, () => this.swapDataset(dataset));
+  }
+
+  /**
+   * Stop reloading a dataset from its source files, because its records are now kept elsewhere
+   */
+  pinDataset(name: string, reason: string): void {
+    this.pinnedDatasets.set(name, reason);
+  }
+
+  /**
+   * Whether a dataset is no longer reloaded from its source files
+   */
+  isPinned(name: string): boolean {
+    return this.pinnedDatasets.has(name);
+  }
+
+  /**
+   * Run a write against a registered table on a dedicated connection, once reloads and earlier writes of
+   * the table have finished. The work manages its own transactions; listeners are told about the change
+   * when it reports one.
+   */
+  async updateTable<T>(name: string, work: (connection: DuckDBConnection) => Promise<TableUpdate<T>>): Promise<T> {
+    const dataset = this.catalog.get(name);
+    if (!dataset || dataset.mode === 'view' || !this.initialized) {
+      throw new Error(`Unknown table: ${name}`);
+    }
+
+    return this.runDatasetTask(dataset.name, async () => {
+      const connection = await this.instance!.connect();
+      try {
+        const { result, changed } = await work(connection);
+        if (changed) {
+          const status = this.datasetStatus.get(dataset.name);
+          if (status) {
+            status.rowCount = await this.countRows(connection, dataset.name);
+          }
+          this.notifyTableChanged(dataset.name);
+        }
+        return result;
+      } finally {
+        connection.closeSync();
+      }
+    });
+  }
+
+  /**
+   * Run a task after the dataset's earlier reloads and writes, whether or not they succeeded
+   */
+  private async runDatasetTask<T>(name: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.datasetTasks.get(name) ?? Promise.resolve();
+    const next = previous.catch(() => undefined).then(task);
+    this.datasetTasks.set(name, next);
+    try {
+      return await next;
+    } finally {
+      if (this.datasetTasks.get(name) === next) {
+        this.datasetTasks.delete(name);
+      }
+    }
+  }
+
+  /**
+   * Load a dataset's current files and replace the registered table or view with them
+   */
+  private async swapDataset(dataset: DatasetConfig): Promise<DatasetStatus> {
+    const startedAt = Date.now();
+    // A dedicated connection keeps the swap transaction apart from validation and policy work on this.connection
+    const connection = await this.instance!.connect();
+
+    try {
+      await this.checkSource(dataset);
+      let rowCount: number | null = null;
+      let rejectedRows = 0;
+
+      if (dataset.mode === 'view') {
+        // Views read their files on every query; recreating one binds it to the files' current columns
+        await connection.run(this.catalog.buildCreateStatement(dataset));
+      } else {
+        const staging = stagingTableName(dataset.name);
+        const rejects = this.quarantines(dataset) ? LOAD_REJECTS : undefined;
+        try {
+          await connection.run(this.catalog.buildCreateStatement(dataset, staging, rejects));
+          rowCount = await this.validateStaging(connection, dataset.name, staging);
+
+          await connection.run('BEGIN TRANSACTION');
+          try {
+            await connection.run(`DROP TABLE main.${quoteIdentifier(dataset.name)}`);
+            await connection.run(`ALTER TABLE main.${quoteIdentifier(staging)} RENAME TO ${quoteIdentifier(dataset.name)}`);
+            if (rejects) {
+              rejectedRows = await this.storeQuarantine(connection, dataset);
+            }
+            await connection.run('COMMIT');
+          } catch (error) {
+            await connection.run('ROLLBACK').catch(() => undefined);
+            throw error;
+          }
+        } finally {
+          await connection.run(`DROP TABLE IF EXISTS main.${quoteIdentifier(staging)}`).catch(() => undefined);
+        }
+      }
+
+      const status = this.recordLoad(dataset, rowCount, startedAt, await this.describeLoad(connection, dataset, rejectedRows));
+      console.log(`Reloaded dataset ${dataset.name} from ${dataset.path}${rowCount !== null ? ` (${rowCount} rows)` : ''} in ${status.loadDurationMs}ms`);
+      this.notifyTableChanged(dataset.name);
+      return status;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const status = this.datasetStatus.get(dataset.name);
+      if (status) {
+        status.lastError = { message, at: new Date().toISOString() };
+      }
+      throw new Error(`Failed to reload dataset "${dataset.name}" from ${dataset.path}; keeping the previous version: ${message}`);
+    } finally {
+      connection.closeSync();
+    }
+  }
+
+  /**
+   * Check that a freshly loaded staging table can replace the current table: it must keep every
+   * current column, and may only be empty if the current table is. Returns its row count.
+   */
+  private async validateStaging(connection: DuckDBConnection, table: string, staging: string): Promise<number> {
+    const columnsOf = async (name: string) => {
+      const described = await connection.runAndReadAll(`DESCRIBE main.${quoteIdentifier(name)}`);
+      return described.getRowObjects().map(row => String(row.column_name));
+    };
+
+    const stagedColumns = new Set(await columnsOf(staging));
+    const missing = (await columnsOf(table)).filter(column => !stagedColumns.has(column));
+    if (missing.length > 0) {
+      throw new Error(`the new data is missing column(s) ${missing.join(', ')}`);
+    }
+
+    const rowCount = await this.countRows(connection, staging);
+    if (rowCount === 0 && (this.datasetStatus.get(table)?.rowCount ?? 0) > 0) {
+      throw new Error('the new data has no rows');
+    }
+    return rowCount;
+  }
+
+  /**
+   * Fail early with a clear error when a single-file dataset's file is missing. Globs are resolved by DuckDB.
+   */
+  private async checkSource(dataset: DatasetConfig): Promise<void> {
+    if (!isGlobPath(dataset.path)) {
+      await fs.access(dataset.path);
+    }
+  }
+
+  /**
+   * Whether malformed rows of a dataset are quarantined rather than failing the load
+   */
+  private quarantines(dataset: DatasetConfig): boolean {
+    return (dataset.format ?? inferFormat(dataset.path)) === 'csv' && dataset.mode !== 'view' && dataset.csv?.quarantine !== false;
+  }
+
+  /**
+   * Replace a dataset's quarantine table with the rows rejected by the load that just ran on this
+   * connection, dropping it when there are none. Returns the number of rejected rows.
+   */
+  private async storeQuarantine(connection: DuckDBConnection, dataset: DatasetConfig): Promise<number> {
+    const quarantine = `main.${quoteIdentifier(quarantineTableName(dataset.name))}`;
+    const errors = quoteIdentifier(LOAD_REJECTS.errors);
+    const scans = quoteIdentifier(LOAD_REJECTS.scans);
+
+    try {
+      const counted = await connection.runAndReadAll(`SELECT count(*) AS rejected FROM ${errors}`);
+      const rejected = Number(counted.getRowObjects()[0]?.rejected ?? 0);
+      if (rejected === 0) {
+        await connection.run(`DROP TABLE IF EXISTS ${quarantine}`);
+        return 0;
+      }
+
+      await connection.run(
+        `CREATE OR REPLACE TABLE ${quarantine} AS
+         SELECT s.file_path AS file, e.line, e.column_name, e.error_type, e.error_message, e.csv_line
+         FROM ${errors} e JOIN ${scans} s USING (scan_id, file_id)
+         ORDER BY file, line`
+      );
+      console.warn(`⚠️  Dataset ${dataset.name}: ${rejected} malformed row(s) from ${dataset.path} moved to ${quarantineTableName(dataset.name)}`);
+      return rejected;
+    } finally {
+      await connection.run(`DROP TABLE IF EXISTS ${errors}`).catch(() => undefined);
+      await connection.run(`DROP TABLE IF EXISTS ${scans}`).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Describe what a load of a dataset found: its columns and where their types came from, the CSV
+   * dialect and how many rows were quarantined
+   */
+  private async describeLoad(connection: DuckDBConnection, dataset: DatasetConfig, rejectedRows: number): Promise<LoadDiagnostics> {
+    const format = dataset.format ?? inferFormat(dataset.path);
+    const described = await connection.runAndReadAll(`DESCRIBE main.${quoteIdentifier(dataset.name)}`);
+    const columns = described.getRowObjects().map(row => {
+      const name = String(row.column_name);
+      const source: LoadDiagnostics['columns'][number]['source'] = dataset.columns
+        ? 'declared'
+        : dataset.columnTypes && name in dataset.columnTypes ? 'override' : 'inferred';
+      return { name, type: String(row.column_type), source };
+    });
+
+    let dialect: LoadDiagnostics['dialect'] = null;
+    if (format === 'csv') {
+      try {
+        const sniffed = (await connection.runAndReadAll(this.catalog.buildSniffQuery(dataset))).getRowObjects()[0] ?? {};
+        const character = (value: unknown) => value === null || value === undefined || value === '(empty)' ? '' : String(value);
+        dialect = {
+          delimiter: character(sniffed.Delimiter),
+          quote: character(sniffed.Quote),
+          escape: character(sniffed.Escape),
+          header: sniffed.HasHeader === true,
+          dateFormat: (sniffed.DateFormat as string | null) ?? null,
+          timestampFormat: (sniffed.TimestampFormat as string | null) ?? null
+        };
+      } catch (error) {
+        // The dialect is informational; the data itself loaded
+        console.warn(`Could not detect the CSV dialect of ${dataset.name}:`, error instanceof Error ? error.message : error);
+      }
+    }
+
+    return {
+      format,
+      dialect,
+      columns,
+      rejectedRows,
+      quarantineTable: rejectedRows > 0 ? quarantineTableName(dataset.name) : null
+    };
+  }
+
+  /**
+   * Count the rows of a table in the main schema
+   */
+  private async countRows(connection: DuckDBConnection, table: string): Promise<number> {
+    const reader = await connection.runAndReadAll(`SELECT count(*) AS row_count FROM main.${quoteIdentifier(table)}`);
+    return Number(reader.getRowObjects()[0]?.row_count ?? 0);
+  }
+
+  /**
+   * Record a successful load or reload of a dataset
+   */
+  private recordLoad(dataset: DatasetConfig, rowCount: number | null, startedAt: number, diagnostics: LoadDiagnostics): DatasetStatus {
+    const previous = this.datasetStatus.get(dataset.name);
+    const status: DatasetStatus = {
+      name: dataset.name,
+      kind: dataset.mode === 'view' ? 'view' : 'table',
+      loadedAt: new Date().toISOString(),
+      rowCount,
+      loadDurationMs: Date.now() - startedAt,
+      reloads: previous ? previous.reloads + 1 : 0,
+      lastError: null,
+      diagnostics
+    };
+    this.datasetStatus.set(dataset.name, status);
+    return status;
+  }
+
+  /**
+   * Load state of every registered dataset
+   */
+  getDatasetStatus(): DatasetStatus[] {
+    return this.catalog.list()
+      .map(dataset => this.datasetStatus.get(dataset.name))
+      .filter((status): status is DatasetStatus => status !== undefined);
+  }
+
+  /**
+   * Rows the last load of a dataset quarantined, in file and line order. Without details, the error
+   * message and raw line are left out, since they can quote values an access policy hides.
+   */
+  async getRejectedRows(name: string, limit: number, details: boolean): Promise<RejectedRow[]> {
+    const dataset = this.catalog.get(name);
+    const quarantine = dataset ? this.datasetStatus.get(dataset.name)?.diagnostics.quarantineTable : null;
+    if (!quarantine) {
+      return [];
+    }
+
+    const result = await this.executeQuery(
+      `SELECT file, line, column_name, error_type, error_message, csv_line FROM main.${quoteIdentifier(quarantine)} ORDER BY file, line LIMIT ${Math.floor(limit)}`
+    );
+    return result.data.map(row => ({
+      file: String(row.file),
+      line: row.line === null ? null : Number(row.line),
+      column: (row.column_name as string | null) ?? null,
+      errorType: String(row.error_type),
+      ...(details && {
+        message: String(row.error_message),
+        csvLine: String(row.csv_line)
+      })
+    }));
+  }
+
+  /**
+   * Counter that changes whenever a dataset's contents change, for caching derived results
+   */
+  getDatasetVersion(name: string): number {
+    return this.datasetVersions.get(name) ?? 0;
+  }
+
+  /**
+   * Register a listener called whenever a table's contents change. Returns an unsubscribe function.
+   */
+  onTableChanged(listener: (table: string) => void): () => void {
+    this.changeListeners.add(listener);
+    return () => {
+      this.changeListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Tell listeners that a table's contents changed
+   */
+  private notifyTableChanged(table: string): void {
+    // Policy views are rebuilt on next use so they pick up column changes
+    this.policySchemas.clear();
+    this.datasetVersions.set(table, this.getDatasetVersion(table) + 1);
+
+    for (const listener of this.changeListeners) {
+      try {
+        listener(table);
+      } catch (error) {
+        console.error(`Table change listener failed for ${table}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Get the catalog of registered datasets
+   */
+  getCatalog(): DatasetCatalog {
+    return this.catalog;
+  }
+
+  /**
+   * Enforce access policies for every query, schema and sample request made on behalf of a principal.
+   * Without policies (the default) every principal sees all tables unchanged.
+   */
+  setAccessPolicies(policies: AccessPolicy[]): void {
+    this.accessControl = new AccessControl(policies);
+    this.policySchemas.clear();
+    console.log(`Access policies enabled: ${policies.map(policy => policy.name).join(', ') || '(none; every principal is denied)'}`);
+  }
+
+  /**
+   * Check whether a principal may query a registered table
+   */
+  canAccessTable(tableName: string, principal: Principal | null = null): boolean {
+    const dataset = this.catalog.get(tableName);
+    const access = this.accessControl?.resolve(principal);
+    return !!dataset && (!access || this.accessControl!.tablePolicy(access, dataset.name) !== null);
+  }
+
+  /**
+   * Columns of a table a principal's policy hides or masks, lower-cased. Empty when unrestricted.
    */
-  private async createEmployeesTable(csvFilePath: string): Promise<void> {
+  maskedColumns(tableName: string, principal: Principal | null = null): string[] {
+    const access = this.accessControl?.resolve(principal);
+    return access ? this.accessControl!.maskedColumns(access, tableName).map(column => column.toLowerCase()) : [];
+  }
+
+  /**
+   * Registered datasets a principal may query
+   */
+  visibleDatasets(principal: Principal | null = null): DatasetConfig[] {
+    return this.catalog.list().filter(dataset => this.canAccessTable(dataset.name, principal));
+  }
+
+  /**
+   * Identifies the views a principal's queries see: principals with the same scope get the same results
+   */
+  accessScope(principal: Principal | null = null): string {
+    return this.accessControl?.resolve(principal)?.schema ?? 'unrestricted';
+  }
+
+  /**
+   * Schema a principal's unqualified table names resolve to, building its policy views if needed
+   */
+  async resolveSchema(principal: Principal | null = null): Promise<string> {
+    return (await this.prepareAccess(principal))?.schema ?? 'main';
+  }
+
+  /**
+   * Resolve a principal's access rules and make sure its view schema exists. null means unrestricted.
+   */
+  private async prepareAccess(principal: Principal | null): Promise<ResolvedAccess | null> {
+    const access = this.accessControl?.resolve(principal) ?? null;
+    if (!access) {
+      return null;
+    }
+
+    let ready = this.policySchemas.get(access.schema);
+    if (!ready) {
+      ready = this.buildPolicySchema(access);
+      this.policySchemas.set(access.schema, ready);
+      ready.catch(() => this.policySchemas.delete(access.schema));
+    }
+    await ready;
+    return access;
+  }
+
+  /**
+   * Create the schema that shadows every registered table with the principal's masked and filtered view
+   */
+  private async buildPolicySchema(access: ResolvedAccess): Promise<void> {
     if (!this.connection) {
       throw new Error('Database connection not established');
     }
 
-    // Create table structure
-    await this.connection.run(`
-      CREATE TABLE employees (
-        employeeId INTEGER,
-        employeeName VARCHAR,
-        location VARCHAR,
-        startDate DATE,
-        department VARCHAR,
-        salary BIGINT,
-        position VARCHAR,
-        isRemote BOOLEAN,
-        lastPromoted DATE
-      )
-    `);
+    await this.connection.run(`CREATE SCHEMA IF NOT EXISTS ${quoteIdentifier(access.schema)}`);
+    for (const dataset of this.catalog.list()) {
+      const described = await this.connection.runAndReadAll(`DESCRIBE main.${quoteIdentifier(dataset.name)}`);
+      const columns = described.getRowObjects().map(row => ({ name: String(row.column_name), type: String(row.column_type) }));
+      await this.connection.run(this.accessControl!.buildViewStatement(access, dataset.name, columns));
+    }
+  }
+
+  /**
+   * Take a pooled connection whose unqualified table names resolve to the principal's policy views.
+   * The session's home connection is preferred; release it with releaseConnection().
+   */
+  private async connectAs(access: ResolvedAccess | null, sessionId: string | null, signal?: AbortSignal): Promise<DuckDBConnection> {
+    const connection = await this.pool!.acquire(sessionId, signal);
+    try {
+      // Pooled connections serve every principal, so the search path is set on each use
+      await connection.run(access ? `SET search_path = ${quoteLiteral(access.schema)}` : 'RESET search_path');
+    } catch (error) {
+      this.pool!.release(connection);
+      throw error;
+    }
+    return connection;
+  }
+
+  /**
+   * Return a connection taken with connectAs() to the pool
+   */
+  private releaseConnection(connection: DuckDBConnection): void {
+    this.pool?.release(connection);
+  }
 
-    // Load CSV data into the table
-    const absolutePath = path.resolve(csvFilePath);
-    await this.connection.run(`
-      COPY employees FROM '${absolutePath}' (FORMAT CSV, HEADER TRUE)
-    `);
+  /**
+   * Drop a session's connection affinity when the session ends, discarding its session-scoped state
+   */
+  releaseSession(sessionId: string): void {
+    this.pool?.releaseSession(sessionId);
+  }
+
+  /**
+   * Connection pool usage, or null before the database is initialized
+   */
+  getPoolStats(): ConnectionPoolStats | null {
+    return this.pool?.getStats() ?? null;
   }
 
   /**
-   * Convert BigInt values to regular numbers and format dates for JSON serialization
+   * Convert DuckDB values to plain JS values for JSON serialization: BigInts and decimals become numbers,
+   * lists and structs become arrays and objects, and dates, times, timestamps, intervals, UUIDs and blobs
+   * become their SQL text
    */
   private convertBigIntsToNumbers(obj: any): any {
     if (typeof obj === 'bigint') {
       return Number(obj);
     } else if (Array.isArray(obj)) {
       return obj.map(item => this.convertBigIntsToNumbers(item));
+    } else if (obj instanceof DuckDBDecimalValue) {
+      return obj.toDouble();
+    } else if (obj instanceof DuckDBListValue || obj instanceof DuckDBArrayValue) {
+      return obj.items.map(item => this.convertBigIntsToNumbers(item));
+    } else if (obj instanceof DuckDBStructValue) {
+      return this.convertBigIntsToNumbers({ ...obj.entries });
+    } else if (obj instanceof DuckDBMapValue) {
+      return obj.entries.map(entry => ({ key: this.convertBigIntsToNumbers(entry.key), value: this.convertBigIntsToNumbers(entry.value) }));
+    } else if (obj instanceof DuckDBUnionValue) {
+      return this.convertBigIntsToNumbers(obj.value);
+    } else if (obj !== null && typeof obj === 'object' && Object.getPrototypeOf(obj) !== Object.prototype) {
+      // Dates, times, timestamps, intervals, UUIDs, blobs and bitstrings
+      return String(obj);
     } else if (obj !== null && typeof obj === 'object') {
       const converted: any = {};
       for (const key in obj) {
-        const value = obj[key];
-        // Handle DuckDB date objects that have a 'days' property
-        if (value && typeof value === 'object' && 'days' in value && typeof value.days === 'number') {
-          // Convert DuckDB date to ISO string format
-          const epochDate = new Date(1970, 0, 1); // January 1, 1970
-          epochDate.setDate(epochDate.getDate() + value.days);
-          converted[key] = epochDate.toISOString().split('T')[0]; // Format as YYYY-MM-DD
-        } else {
-          converted[key] = this.convertBigIntsToNumbers(value);
-        }
+        converted[key] = this.convertBigIntsToNumbers(obj[key]);
       }
       return converted;
     }
@@ -100,17 +645,90 @@ export class DatabaseManager {
   }
 
   /**
-   * Execute a SQL query with optional streaming
+   * Run DuckDB work on a connection, interrupting it when the signal aborts or the query timeout
+   * (counted from startedAt) elapses, and report either as a QueryCancelledError or QueryTimeoutError
+   */
+  private async interruptible<T>(
+    connection: DuckDBConnection,
+    signal: AbortSignal | undefined,
+    startedAt: number,
+    work: () => Promise<T>
+  ): Promise<T> {
+    if (signal?.aborted) {
+      throw new QueryCancelledError(signal.reason);
+    }
+
+    const { timeoutMs } = this.getQueryLimits();
+    let timedOut = false;
+    const timer = timeoutMs !== null
+      ? setTimeout(() => {
+        timedOut = true;
+        connection.interrupt();
+      }, Math.max(0, startedAt + timeoutMs - Date.now()))
+      : null;
+    const interrupt = () => connection.interrupt();
+    signal?.addEventListener('abort', interrupt);
+
+    try {
+      return await work();
+    } catch (error) {
+      if (timedOut) {
+        throw new QueryTimeoutError(timeoutMs!);
+      }
+      if (signal?.aborted) {
+        throw new QueryCancelledError(signal.reason);
+      }
+      throw error;
+    } finally {
+      signal?.removeEventListener('abort', interrupt);
+      if (timer) {
+        clearTimeout(timer);
+      }
+    }
+  }
+
+  /**
+   * Prepare a statement, bind its parameters and read the full result
+   */
+  private async runPrepared(connection: DuckDBConnection, sql: string, params: QueryParams): Promise<DuckDBResultReader> {
+    const prepared = await connection.prepare(sql);
+    try {
+      bindParameters(prepared, params);
+      return await prepared.runAndReadAll();
+    } finally {
+      prepared.destroySync();
+    }
+  }
+
+  /**
+   * Execute a SQL query with optional bound parameters, under the principal's access policy.
+   * Runs on a pooled connection (the session's own when given and free), so the query timeout or an
+   * aborted signal can interrupt it without affecting other work.
    */
-  async executeQuery(sql: string, _params: any[] = []): Promise<QueryResponse> {
-    if (!this.initialized || !this.connection) {
+  async executeQuery(
+    sql: string,
+    params: QueryParams = [],
+    principal: Principal | null = null,
+    sessionId: string | null = null,
+    signal?: AbortSignal
+  ): Promise<QueryResponse> {
+    if (!this.initialized || !this.instance) {
       throw new Error('Database not initialized');
     }
+    if (signal?.aborted) {
+      throw new QueryCancelledError(signal.reason);
+    }
 
+    const connection = await this.connectAs(await this.prepareAccess(principal), sessionId, signal);
     const startTime = Date.now();
 
     try {
-      const reader = await this.connection.runAndReadAll(sql);
+      const reader = await this.interruptible(connection, signal, startTime, () => this.runPrepared(connection, sql, params));
+      const { maxRows } = this.getQueryLimits();
+      if (maxRows !== null && reader.currentRowCount > maxRows) {
+        throw new QueryLimitError(`Query returned ${reader.currentRowCount} rows, more than the server's maximum of ${maxRows}. Add a LIMIT, a WHERE filter or an aggregation to return fewer rows.`);
+      }
+
       const rawRows = reader.getRowObjects();
       const executionTime = Date.now() - startTime;
       const columns = reader.columnNames();
@@ -126,48 +744,179 @@ export class DatabaseManager {
       };
 
       return response;
+    } finally {
+      this.releaseConnection(connection);
+    }
+  }
+
+  /**
+   * Start a streaming query and return a reader that pulls result chunks lazily.
+   * Each stream holds a pooled connection until it is closed, so concurrent queries cannot invalidate it.
+   * Aborting the signal interrupts DuckDB and fails the stream with QueryCancelledError; running past
+   * the query timeout fails it with QueryTimeoutError, and exceeding the row limit with QueryLimitError.
+   */
+  async streamQuery(
+    sql: string,
+    params: QueryParams = [],
+    chunkSize: number = 100,
+    signal?: AbortSignal,
+    principal: Principal | null = null,
+    sessionId: string | null = null
+  ): Promise<QueryStream> {
+    if (!this.initialized || !this.instance) {
+      throw new Error('Database not initialized');
+    }
+    if (signal?.aborted) {
+      throw new QueryCancelledError(signal.reason);
+    }
+
+    const connection = await this.connectAs(await this.prepareAccess(principal), sessionId, signal);
+    const startedAt = Date.now();
+    let prepared: DuckDBPreparedStatement | null = null;
+
+    try {
+      // Blocking operators (sorts, aggregates) may do most of their work before the first chunk
+      prepared = await connection.prepare(sql);
+      bindParameters(prepared, params);
+      const statement = prepared;
+      const result = await this.interruptible(connection, signal, startedAt, () => statement.stream());
+      const { timeoutMs, maxRows } = this.getQueryLimits();
+      return new QueryStream(connection, prepared, result, rows => this.convertBigIntsToNumbers(rows), chunkSize, signal, {
+        timeoutMs,
+        maxRows,
+        startedAt
+      }, () => this.releaseConnection(connection));
     } catch (error) {
+      prepared?.destroySync();
+      this.releaseConnection(connection);
       throw error;
     }
   }
 
   /**
-   * Execute a streaming query that yields results in chunks
+   * Execute a streaming query that yields results in chunks as DuckDB produces them
    */
-  async *executeStreamingQuery(sql: string, _params: any[] = [], chunkSize: number = 100): AsyncGenerator<any[], void, unknown> {
-    if (!this.initialized || !this.connection) {
+  async *executeStreamingQuery(
+    sql: string,
+    params: QueryParams = [],
+    chunkSize: number = 100,
+    signal?: AbortSignal,
+    principal: Principal | null = null
+  ): AsyncGenerator<any[], void, unknown> {
+    const stream = await this.streamQuery(sql, params, chunkSize, signal, principal);
+    yield* stream;
+  }
+
+  /**
+   * Run a query and return its result encoded as a Parquet file written by DuckDB.
+   * Returns the file contents, the number of rows written and the column types read back from the file.
+   */
+  async exportParquet(
+    sql: string,
+    params: QueryParams = [],
+    signal?: AbortSignal,
+    principal: Principal | null = null,
+    sessionId: string | null = null
+  ): Promise<{ data: Buffer; rowCount: number; columns: QueryResultColumn[] }> {
+    if (!this.initialized || !this.instance) {
       throw new Error('Database not initialized');
     }
+    if (signal?.aborted) {
+      throw new QueryCancelledError(signal.reason);
+    }
+
+    const connection = await this.connectAs(await this.prepareAccess(principal), sessionId, signal);
+    const startedAt = Date.now();
+    const target = path.join(os.tmpdir(), `mcp-duckdb-${crypto.randomUUID()}.parquet`);
+    let prepared: DuckDBPreparedStatement | null = null;
 
     try {
-      const reader = await this.connection.runAndReadAll(sql);
-      const rawRows = reader.getRowObjects();
+      prepared = await connection.prepare(`COPY (\n${sql}\n) TO ${quoteLiteral(target)} (FORMAT PARQUET)`);
+      bindParameters(prepared, params);
+      const statement = prepared;
+      const { rowsChanged: rowCount } = await this.interruptible(connection, signal, startedAt, () => statement.run());
 
-      // Convert BigInts to numbers for JSON serialization
-      const rows = this.convertBigIntsToNumbers(rawRows);
+      const { maxRows, maxBytes } = this.getQueryLimits();
+      if (maxRows !== null && rowCount > maxRows) {
+        throw new QueryLimitError(`Query returned ${rowCount} rows, more than the server's maximum of ${maxRows}. Add a LIMIT, a WHERE filter or an aggregation to return fewer rows.`);
+      }
+      const { size } = await fs.stat(target);
+      if (maxBytes !== null && size > maxBytes) {
+        throw new QueryLimitError(`Parquet result is ${size} bytes, more than the server's maximum response size of ${maxBytes} bytes. Select fewer columns or return fewer rows.`);
+      }
 
-      // Yield results in chunks
-      for (let i = 0; i < rows.length; i += chunkSize) {
-        const chunk = rows.slice(i, i + chunkSize);
-        yield chunk;
+      const schema = await connection.runAndReadAll(`DESCRIBE SELECT * FROM read_parquet(${quoteLiteral(target)})`);
+      const columns = schema.getRowObjects().map(row => ({ name: String(row.column_name), type: String(row.column_type) }));
+      return { data: await fs.readFile(target), rowCount, columns };
+    } finally {
+      prepared?.destroySync();
+      this.releaseConnection(connection);
+      await fs.rm(target, { force: true });
+    }
+  }
+
+  /**
+   * Run EXPLAIN for a query under the principal's access policy and return each plan DuckDB prints, in text
+   * and JSON form. By default only the physical plan is returned; logical adds the unoptimized and optimized
+   * logical plans. analyze runs the query and returns the profiled plan instead, once per form unless
+   * text is false.
+   */
+  async explainQuery(
+    sql: string,
+    params: QueryParams = [],
+    options: { logical?: boolean; analyze?: boolean; text?: boolean } = {},
+    signal?: AbortSignal,
+    principal: Principal | null = null,
+    sessionId: string | null = null
+  ): Promise<ExplainedPlan[]> {
+    if (!this.initialized || !this.instance) {
+      throw new Error('Database not initialized');
+    }
+
+    const connection = await this.connectAs(await this.prepareAccess(principal), sessionId, signal);
+    const startedAt = Date.now();
+    const query = sql.trim().replace(/;+$/, '');
+
+    try {
+      if (options.logical && !options.analyze) {
+        await connection.run(`SET explain_output = 'all'`);
       }
-    } catch (error) {
-      throw error;
+      const explain = async (prefix: string) => {
+        const reader = await this.interruptible(connection, signal, startedAt, () => this.runPrepared(connection, `${prefix} ${query}`, params));
+        return reader.getRowObjects().map(row => ({ kind: String(row.explain_key), value: String(row.explain_value) }));
+      };
+      const jsons = await explain(options.analyze ? 'EXPLAIN (ANALYZE, FORMAT JSON)' : 'EXPLAIN (FORMAT JSON)');
+      const texts = options.text === false ? [] : await explain(options.analyze ? 'EXPLAIN ANALYZE' : 'EXPLAIN');
+
+      return jsons.map(({ kind, value }) => ({
+        kind,
+        text: texts.find(candidate => candidate.kind === kind)?.value ?? '',
+        json: JSON.parse(value)
+      }));
+    } finally {
+      // Pooled connections are shared, so the setting must not outlive this call
+      await connection.run('RESET explain_output').catch(() => undefined);
+      this.releaseConnection(connection);
     }
   }
 
   /**
-   * Get table schema information
+   * Get table schema information as seen by the principal
    */
-  async getTableSchema(tableName: string = 'employees'): Promise<any[]> {
-    const sql = `SELECT column_name, data_type FROM information_schema.columns WHERE table_name = '${tableName}'`;
+  async getTableSchema(tableName: string = 'employees', principal: Principal | null = null): Promise<any[]> {
+    const dataset = this.catalog.get(tableName);
+    if (!dataset || !this.canAccessTable(dataset.name, principal)) {
+      throw new Error(`Unknown table: ${tableName}`);
+    }
+    const schema = await this.resolveSchema(principal);
+    const sql = 'SELECT column_name, data_type FROM information_schema.columns WHERE table_schema = $1 AND table_name = $2 ORDER BY ordinal_position';
     try {
-      const result = await this.executeQuery(sql);
+      const result = await this.executeQuery(sql, [schema, dataset.name]);
       return result.data;
     } catch {
       // Fallback: get column info from LIMIT 0 query
-      const fallbackSql = `SELECT * FROM ${tableName} LIMIT 0`;
-      const result = await this.executeQuery(fallbackSql);
+      const fallbackSql = `SELECT * FROM ${quoteIdentifier(dataset.name)} LIMIT 0`;
+      const result = await this.executeQuery(fallbackSql, [], principal);
       return result.columns.map((col, index) => ({
         column_name: col,
         ordinal_position: index + 1,
@@ -177,34 +926,70 @@ export class DatabaseManager {
   }
 
   /**
-   * Get sample data from employees table
+   * Get sample rows from a registered table
    */
-  async getSampleEmployees(limit: number = 10): Promise<Employee[]> {
-    const sql = `SELECT * FROM employees LIMIT ${limit}`;
-    const result = await this.executeQuery(sql);
-    return result.data as Employee[];
+  async getSampleRows(tableName: string, limit: number = 10, principal: Principal | null = null): Promise<any[]> {
+    const dataset = this.catalog.get(tableName);
+    if (!dataset || !this.canAccessTable(dataset.name, principal)) {
+      throw new Error(`Unknown table: ${tableName}`);
+    }
+    const sql = `SELECT * FROM ${quoteIdentifier(dataset.name)} LIMIT ${Math.max(0, Math.floor(limit))}`;
+    const rows: any[] = [];
+    for await (const chunk of this.executeStreamingQuery(sql, [], limit, undefined, principal)) {
+      rows.push(...chunk);
+    }
+    return rows;
   }
 
   /**
-   * Validate SQL query for security (basic validation)
+   * Get sample data from employees table
    */
-  validateQuery(sql: string): boolean {
-    const sanitizedSql = sql.toLowerCase().trim();
+  async getSampleEmployees(limit: number = 10, principal: Principal | null = null): Promise<Employee[]> {
+    return await this.getSampleRows('employees', limit, principal) as Employee[];
+  }
 
-    // Only allow SELECT statements
-    if (!sanitizedSql.startsWith('select')) {
-      return false;
+  /**
+   * Describe every table the principal may query with its schema and a few sample rows
+   */
+  async describeTables(sampleSize: number = 5, principal: Principal | null = null): Promise<TableInfo[]> {
+    const tables: TableInfo[] = [];
+    for (const dataset of this.visibleDatasets(principal)) {
+      const info: TableInfo = {
+        name: dataset.name,
+        kind: dataset.mode ?? 'table',
+        format: dataset.format ?? inferFormat(dataset.path),
+        source: dataset.path,
+        schema: await this.getTableSchema(dataset.name, principal),
+        sampleData: await this.getSampleRows(dataset.name, sampleSize, principal)
+      };
+      if (dataset.description) {
+        info.description = dataset.description;
+      }
+      tables.push(info);
     }
+    return tables;
+  }
 
-    // Block potentially dangerous keywords
-    const dangerousKeywords = ['drop', 'delete', 'update', 'insert', 'alter', 'create', 'truncate'];
-    for (const keyword of dangerousKeywords) {
-      if (sanitizedSql.includes(keyword)) {
-        return false;
-      }
+  /**
+   * Validate SQL query for security using DuckDB's parser.
+   * Allows a single SELECT (including CTEs) and rejects file access, extension loading and other statements.
+   * Principals restricted by an access policy may also not name denied tables, quarantine or staging tables,
+   * schemas or system catalogs.
+   */
+  async validateQuery(sql: string, principal: Principal | null = null): Promise<SqlValidationResult> {
+    if (!this.initialized || !this.validator) {
+      throw new Error('Database not initialized');
     }
 
-    return true;
+    let restrictions: TableRestrictions | undefined;
+    if (this.accessControl?.resolve(principal)) {
+      const denied = this.catalog.list().filter(dataset => !this.canAccessTable(dataset.name, principal));
+      // Quarantined rows and tables staged by a running reload are raw data that policy views cannot mask.
+      // They live in main, which unqualified names fall back to when the policy schema lacks them.
+      const unmasked = this.catalog.names().flatMap(name => [quarantineTableName(name), stagingTableName(name)]);
+      restrictions = { deniedTables: new Set([...denied.map(dataset => dataset.name), ...unmasked].map(name => name.toLowerCase())) };
+    }
+    return await this.validator.validate(sql, restrictions);
   }
 
   /**
@@ -212,9 +997,12 @@ export class DatabaseManager {
    */
   async close(): Promise<void> {
     try {
+      this.pool?.close();
+      this.pool = null;
       if (this.connection) {
         this.connection.closeSync();
         this.connection = null;
+        this.validator = null;
       }
       if (this.instance) {
         // DuckDBInstance doesn't have a close method in the Neo API
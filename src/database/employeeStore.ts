@@ -0,0 +1,353 @@
+import { DuckDBConnection } from '@duckdb/node-api';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { EmployeeFields, Principal } from '../types/index';
+import { DatabaseManager, TableUpdate } from './db';
+import { EMPLOYEE_COLUMNS, inferFormat, isGlobPath, quoteIdentifier, quoteLiteral } from './catalog';
+
+const EMPLOYEES_TABLE = 'employees';
+const STORE_ALIAS = 'employee_store';
+
+/**
+ * Where applied changes are persisted
+ */
+export type EmployeePersistence = { type: 'csv' } | { type: 'database'; path: string };
+
+/**
+ * Record before and after a change
+ */
+export interface EmployeeChange {
+  before: EmployeeFields | null;
+  after: EmployeeFields;
+}
+
+/**
+ * A change involves a record the principal's access policy does not show: the current record is filtered
+ * out ('hidden'), or the changed record would be ('outside')
+ */
+export class EmployeeAccessError extends Error {
+  readonly reason: 'hidden' | 'outside';
+
+  constructor(reason: 'hidden' | 'outside', employeeId: number) {
+    super(reason === 'hidden'
+      ? `Employee ${employeeId} is not visible to you`
+      : `After this change employee ${employeeId} would no longer be visible to you`);
+    this.name = 'EmployeeAccessError';
+    this.reason = reason;
+  }
+}
+
+/**
+ * Reads and writes single employee records in the employees table and persists every write, either by
+ * rewriting the table's source CSV or by keeping the records in a DuckDB database file that is restored
+ * at startup. Each change runs as one task on the table, so concurrent writes and reloads never interleave.
+ */
+export class EmployeeStore {
+  private dbManager: DatabaseManager;
+  private persistence: EmployeePersistence;
+
+  constructor(dbManager: DatabaseManager, persistence: EmployeePersistence = { type: 'csv' }) {
+    this.dbManager = dbManager;
+    this.persistence = persistence;
+  }
+
+  /**
+   * Check that the employees table can be written back, and with a database file, restore its records and
+   * stop reloading the table from its source data
+   */
+  async initialize(): Promise<void> {
+    const dataset = this.dbManager.getCatalog().get(EMPLOYEES_TABLE);
+    if (!dataset || dataset.mode === 'view') {
+      throw new Error('Employee writes need an "employees" table in the dataset catalog');
+    }
+
+    if (this.persistence.type === 'csv') {
+      if (isGlobPath(dataset.path) || (dataset.format ?? inferFormat(dataset.path)) !== 'csv') {
+        throw new Error(`Employee writes can only rewrite a single CSV file, but the employees dataset reads ${dataset.path}. Persist to a database file instead.`);
+      }
+      return;
+    }
+
+    const databasePath = this.persistence.path;
+    await fs.mkdir(path.dirname(databasePath), { recursive: true });
+    await this.dbManager.updateTable(EMPLOYEES_TABLE, async connection => {
+      await connection.run(`ATTACH IF NOT EXISTS ${quoteLiteral(databasePath)} AS ${STORE_ALIAS}`);
+      const existing = await connection.runAndReadAll(
+        `SELECT count(*) AS tables FROM duckdb_tables() WHERE database_name = ${quoteLiteral(STORE_ALIAS)} AND table_name = ${quoteLiteral(EMPLOYEES_TABLE)}`
+      );
+
+      const created = Number(existing.getRowObjects()[0]?.tables ?? 0) === 0;
+      if (created) {
+        // First start with this file: seed it from the loaded source data
+        await connection.run(`CREATE TABLE ${this.storeTable()} AS SELECT * FROM ${this.mainTable()}`);
+      }
+      await this.ensurePrimaryKey(connection, databasePath);
+
+      if (created) {
+        console.log(`Created employee store ${databasePath} from the employees dataset`);
+        return { result: undefined, changed: false };
+      }
+      await connection.run(`CREATE OR REPLACE TABLE ${this.mainTable()} AS SELECT * FROM ${this.storeTable()}`);
+      console.log(`Restored employee records from ${databasePath}`);
+      return { result: undefined, changed: true };
+    });
+
+    // The file now owns the records; reloading the source data would drop the writes it holds
+    this.dbManager.pinDataset(EMPLOYEES_TABLE, `its records are kept in ${databasePath}`);
+  }
+
+  /**
+   * Make employeeId the store table's primary key, so a write can never add a second record with an id.
+   * Files created before the key existed get it added here.
+   */
+  private async ensurePrimaryKey(connection: DuckDBConnection, databasePath: string): Promise<void> {
+    const constraints = await connection.runAndReadAll(
+      `SELECT count(*) AS keys FROM duckdb_constraints() WHERE database_name = ${quoteLiteral(STORE_ALIAS)} AND table_name = ${quoteLiteral(EMPLOYEES_TABLE)} AND constraint_type = 'PRIMARY KEY'`
+    );
+    if (Number(constraints.getRowObjects()[0]?.keys ?? 0) > 0) {
+      return;
+    }
+
+    try {
+      await connection.run(`ALTER TABLE ${this.storeTable()} ADD PRIMARY KEY (${quoteIdentifier('employeeId')})`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Employee store ${databasePath} needs unique, non-null employee ids: ${message}`);
+    }
+  }
+
+  /**
+   * The id after the highest one in use
+   */
+  async nextEmployeeId(): Promise<number> {
+    return this.dbManager.updateTable(EMPLOYEES_TABLE, async connection => {
+      const reader = await connection.runAndReadAll(`SELECT coalesce(max(${quoteIdentifier('employeeId')}), 0) + 1 AS next_id FROM ${this.mainTable()}`);
+      return { result: Number(reader.getRowObjects()[0]?.next_id ?? 1), changed: false };
+    });
+  }
+
+  /**
+   * Build and apply a change to one employee on behalf of a principal. build receives the current record
+   * (null when the id is free) and returns the new record, or throws to reject the change. In a dry run
+   * nothing is written. Otherwise record is called once the change is applied; if it throws, the change
+   * is undone. Returns the change as the principal's policy view shows it; a record the view
+   * filters out, before or after the change, fails with EmployeeAccessError.
+   */
+  async change(
+    employeeId: number,
+    build: (before: EmployeeFields | null) => EmployeeFields,
+    options: { dryRun: boolean; principal: Principal | null; record: (change: EmployeeChange) => Promise<void> }
+  ): Promise<EmployeeChange> {
+    const schema = await this.dbManager.resolveSchema(options.principal);
+    const view = schema === 'main' ? null : `${quoteIdentifier(schema)}.${quoteIdentifier(EMPLOYEES_TABLE)}`;
+
+    return this.dbManager.updateTable(EMPLOYEES_TABLE, async (connection): Promise<TableUpdate<EmployeeChange>> => {
+      const before = await this.read(connection, this.mainTable(), employeeId);
+      const visibleBefore = view && before ? await this.read(connection, view, employeeId) : before;
+      if (before && !visibleBefore) {
+        throw new EmployeeAccessError('hidden', employeeId);
+      }
+
+      const after = build(before);
+      const visible = { before: visibleBefore, after: view ? await this.preview(connection, view, { before, after }) : after };
+      if (options.dryRun) {
+        return { result: visible, changed: false };
+      }
+
+      if (this.persistence.type === 'csv') {
+        await this.writeCsv(connection, { before, after }, options.record);
+      } else {
+        await this.writeDatabase(connection, { before, after }, options.record);
+      }
+      return { result: visible, changed: true };
+    });
+  }
+
+  /**
+   * Read the changed record through a policy view by applying the change in a transaction that is rolled back
+   */
+  private async preview(connection: DuckDBConnection, view: string, change: EmployeeChange): Promise<EmployeeFields> {
+    const employeeId = change.after.employeeId as number;
+    let after: EmployeeFields | null;
+    await connection.run('BEGIN TRANSACTION');
+    try {
+      await this.writeRow(connection, this.mainTable(), change);
+      after = await this.read(connection, view, employeeId);
+    } finally {
+      await connection.run('ROLLBACK').catch(() => undefined);
+    }
+
+    if (!after) {
+      throw new EmployeeAccessError('outside', employeeId);
+    }
+    return after;
+  }
+
+  /**
+   * Apply a change and rewrite the source CSV in one transaction. The file is replaced by renaming a
+   * complete copy over it, so a failed write leaves both the table and the file unchanged. The change is
+   * recorded last, and undone in both if recording fails.
+   */
+  private async writeCsv(connection: DuckDBConnection, change: EmployeeChange, record: (change: EmployeeChange) => Promise<void>): Promise<void> {
+    const dataset = this.dbManager.getCatalog().get(EMPLOYEES_TABLE)!;
+    const file = path.resolve(dataset.path);
+
+    // The file is rewritten from the table, which lacks the rows the last load quarantined
+    const diagnostics = this.dbManager.getDatasetStatus().find(status => status.name === EMPLOYEES_TABLE)?.diagnostics;
+    if (diagnostics?.quarantineTable) {
+      throw new Error(`${diagnostics.rejectedRows} row(s) of ${file} could not be loaded and are kept in ${diagnostics.quarantineTable}; rewriting the file would drop them. Fix and reload the file first, or persist writes to a database file.`);
+    }
+
+    let replaced = false;
+    await connection.run('BEGIN TRANSACTION');
+    try {
+      await this.writeRow(connection, this.mainTable(), change);
+      await this.exportCsv(connection, file);
+      replaced = true;
+      await connection.run('COMMIT');
+    } catch (error) {
+      await connection.run('ROLLBACK').catch(() => undefined);
+      if (replaced) {
+        await this.restoreCsv(connection, file);
+      }
+      throw error;
+    }
+
+    try {
+      await record(change);
+    } catch (error) {
+      await this.undo(connection, this.mainTable(), change);
+      await this.restoreCsv(connection, file);
+      throw error;
+    }
+  }
+
+  /**
+   * Write the employees table to its source CSV in the dataset's dialect, through a temporary file
+   */
+  private async exportCsv(connection: DuckDBConnection, file: string): Promise<void> {
+    const dataset = this.dbManager.getCatalog().get(EMPLOYEES_TABLE)!;
+    const temporary = `${file}.${process.pid}.tmp`;
+    try {
+      await connection.run(
+        `COPY (SELECT * FROM ${this.mainTable()} ORDER BY ${quoteIdentifier('employeeId')}) TO ${quoteLiteral(temporary)} ${this.dbManager.getCatalog().buildCopyOptions(dataset)}`
+      );
+      await fs.rename(temporary, file);
+    } finally {
+      await fs.rm(temporary, { force: true });
+    }
+  }
+
+  /**
+   * Rewrite the source CSV from the table after a failed change, logging rather than hiding the original error
+   */
+  private async restoreCsv(connection: DuckDBConnection, file: string): Promise<void> {
+    await this.exportCsv(connection, file).catch(error => {
+      console.error(`Failed to restore ${file} after a failed employee write; it may not match the loaded table:`, error);
+    });
+  }
+
+  /**
+   * Apply a change to the database file, then to the loaded table. DuckDB cannot write to two databases in
+   * one transaction, so the file, which is what survives a restart, is committed first. The change is
+   * recorded last, and undone in both if the table write or recording fails.
+   */
+  private async writeDatabase(connection: DuckDBConnection, change: EmployeeChange, record: (change: EmployeeChange) => Promise<void>): Promise<void> {
+    await connection.run('BEGIN TRANSACTION');
+    try {
+      await this.writeRow(connection, this.storeTable(), change);
+      await connection.run('COMMIT');
+    } catch (error) {
+      await connection.run('ROLLBACK').catch(() => undefined);
+      throw error;
+    }
+
+    try {
+      await this.writeRow(connection, this.mainTable(), change);
+      await record(change);
+    } catch (error) {
+      await this.undo(connection, this.storeTable(), change);
+      await this.undo(connection, this.mainTable(), change);
+      throw error;
+    }
+  }
+
+  /**
+   * Put back the record a change replaced, or delete the record it added. Safe to run on a table the
+   * change never reached; failures are logged rather than hiding the original error.
+   */
+  private async undo(connection: DuckDBConnection, table: string, change: EmployeeChange): Promise<void> {
+    try {
+      if (change.before) {
+        await this.writeRow(connection, table, { before: change.after, after: change.before });
+      } else {
+        await connection.run(`DELETE FROM ${table} WHERE ${quoteIdentifier('employeeId')} = $id`, { id: change.after.employeeId ?? null });
+      }
+    } catch (error) {
+      console.error(`Failed to undo a change to employee ${change.after.employeeId} in ${table}:`, error);
+    }
+  }
+
+  /**
+   * Insert a new record or overwrite an existing one
+   */
+  private async writeRow(connection: DuckDBConnection, table: string, { before, after }: EmployeeChange): Promise<void> {
+    const columns = Object.keys(EMPLOYEE_COLUMNS);
+    const values = Object.fromEntries(columns.map((column, index) => [`v${index}`, after[column] ?? null]));
+
+    if (!before) {
+      const placeholders = columns.map((column, index) => `CAST($v${index} AS ${EMPLOYEE_COLUMNS[column]})`);
+      await connection.run(`INSERT INTO ${table} (${columns.map(quoteIdentifier).join(', ')}) VALUES (${placeholders.join(', ')})`, values);
+      return;
+    }
+
+    const assignments = columns.map((column, index) => `${quoteIdentifier(column)} = CAST($v${index} AS ${EMPLOYEE_COLUMNS[column]})`);
+    await connection.run(
+      `UPDATE ${table} SET ${assignments.join(', ')} WHERE ${quoteIdentifier('employeeId')} = $id`,
+      { ...values, id: before.employeeId ?? null }
+    );
+  }
+
+  /**
+   * Read one employee as plain JSON values (numbers, booleans, YYYY-MM-DD dates) from the employees table
+   * or a policy view of it, which may lack hidden columns
+   */
+  private async read(connection: DuckDBConnection, table: string, employeeId: number): Promise<EmployeeFields | null> {
+    const described = await connection.runAndReadAll(`DESCRIBE ${table}`);
+    const present = new Set(described.getRowObjects().map(row => String(row.column_name)));
+    const columns = Object.keys(EMPLOYEE_COLUMNS).filter(column => present.has(column));
+    // Integers are read as DOUBLE so they come back as numbers even where the load inferred BIGINT
+    const projection = columns.map(column => {
+      const type = EMPLOYEE_COLUMNS[column];
+      return type === 'DATE'
+        ? `strftime(${quoteIdentifier(column)}, '%Y-%m-%d') AS ${quoteIdentifier(column)}`
+        : type === 'BIGINT' || type === 'INTEGER'
+          ? `CAST(${quoteIdentifier(column)} AS DOUBLE) AS ${quoteIdentifier(column)}`
+          : quoteIdentifier(column);
+    });
+
+    const reader = await connection.runAndReadAll(
+      `SELECT ${projection.join(', ')} FROM ${table} WHERE ${quoteIdentifier('employeeId')} = $id LIMIT 1`,
+      { id: employeeId }
+    );
+    const row = reader.getRowObjects()[0];
+    if (!row) {
+      return null;
+    }
+    return Object.fromEntries(columns.map(column => [column, row[column] as string | number | boolean | null]));
+  }
+
+  /**
+   * The loaded employees table that queries read
+   */
+  private mainTable(): string {
+    return `main.${quoteIdentifier(EMPLOYEES_TABLE)}`;
+  }
+
+  /**
+   * The employees table in the attached database file
+   */
+  private storeTable(): string {
+    return `${STORE_ALIAS}.${quoteIdentifier(EMPLOYEES_TABLE)}`;
+  }
+}
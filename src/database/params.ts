@@ -0,0 +1,164 @@
+import { DuckDBPreparedStatement, DuckDBTypeId } from '@duckdb/node-api';
+import { QueryParameterIssue, QueryParams } from '../types/index';
+
+/**
+ * Raised when bound parameters are missing, unexpected or of the wrong type
+ */
+export class QueryParameterError extends Error {
+  readonly issues: QueryParameterIssue[];
+
+  constructor(issues: QueryParameterIssue[]) {
+    super(`Invalid query parameters:\n${issues.map(issue => `  ${issue.parameter}: ${issue.message}`).join('\n')}`);
+    this.name = 'QueryParameterError';
+    this.issues = issues;
+  }
+}
+
+const INTEGER_TYPES = new Set<DuckDBTypeId>([
+  DuckDBTypeId.TINYINT,
+  DuckDBTypeId.SMALLINT,
+  DuckDBTypeId.INTEGER,
+  DuckDBTypeId.BIGINT,
+  DuckDBTypeId.HUGEINT,
+  DuckDBTypeId.UTINYINT,
+  DuckDBTypeId.USMALLINT,
+  DuckDBTypeId.UINTEGER,
+  DuckDBTypeId.UBIGINT,
+  DuckDBTypeId.UHUGEINT
+]);
+
+const FLOAT_TYPES = new Set<DuckDBTypeId>([
+  DuckDBTypeId.FLOAT,
+  DuckDBTypeId.DOUBLE,
+  DuckDBTypeId.DECIMAL
+]);
+
+const TEMPORAL_TYPES = new Set<DuckDBTypeId>([
+  DuckDBTypeId.TIMESTAMP,
+  DuckDBTypeId.TIMESTAMP_S,
+  DuckDBTypeId.TIMESTAMP_MS,
+  DuckDBTypeId.TIMESTAMP_NS,
+  DuckDBTypeId.TIMESTAMP_TZ,
+  DuckDBTypeId.TIME,
+  DuckDBTypeId.INTERVAL
+]);
+
+/**
+ * Check that a JS value can be bound to a parameter of the given DuckDB type.
+ * Returns an error message, or null when the value is acceptable.
+ */
+function checkValue(value: unknown, typeId: DuckDBTypeId): string | null {
+  const typeName = DuckDBTypeId[typeId] ?? 'UNKNOWN';
+  const actual = Array.isArray(value) ? 'array' : typeof value;
+
+  if (value === null) {
+    return null;
+  }
+  if (typeId === DuckDBTypeId.BOOLEAN) {
+    return typeof value === 'boolean' ? null : `expected BOOLEAN (true/false), got ${actual}`;
+  }
+  if (INTEGER_TYPES.has(typeId)) {
+    if (typeof value === 'number' && Number.isSafeInteger(value)) {
+      return null;
+    }
+    if (typeof value === 'string' && /^-?\d+$/.test(value)) {
+      return null;
+    }
+    return `expected ${typeName} (whole number), got ${actual} ${JSON.stringify(value)}`;
+  }
+  if (FLOAT_TYPES.has(typeId)) {
+    return typeof value === 'number' && Number.isFinite(value) ? null : `expected ${typeName} (number), got ${actual}`;
+  }
+  if (typeId === DuckDBTypeId.DATE) {
+    if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value))) {
+      return null;
+    }
+    return `expected DATE as 'YYYY-MM-DD' string, got ${actual} ${JSON.stringify(value)}`;
+  }
+  if (TEMPORAL_TYPES.has(typeId)) {
+    return typeof value === 'string' ? null : `expected ${typeName} as string, got ${actual}`;
+  }
+  if (typeId === DuckDBTypeId.VARCHAR) {
+    return typeof value === 'string' ? null : `expected VARCHAR (string), got ${actual}`;
+  }
+  if (typeId === DuckDBTypeId.INVALID || typeId === DuckDBTypeId.ANY) {
+    // Untyped parameter (e.g. SELECT $1): any scalar JSON value is accepted
+    return ['string', 'number', 'boolean'].includes(typeof value) ? null : `unsupported value of type ${actual}`;
+  }
+  return `parameters of type ${typeName} are not supported`;
+}
+
+/**
+ * Bind a checked value using the binder matching its expected type
+ */
+function bindValue(prepared: DuckDBPreparedStatement, index: number, value: unknown, typeId: DuckDBTypeId): void {
+  if (value === null) {
+    prepared.bindNull(index);
+  } else if (typeof value === 'boolean') {
+    prepared.bindBoolean(index, value);
+  } else if (INTEGER_TYPES.has(typeId) || (typeof value === 'number' && Number.isSafeInteger(value) && !FLOAT_TYPES.has(typeId))) {
+    prepared.bindBigInt(index, BigInt(value as number | string));
+  } else if (typeof value === 'number') {
+    prepared.bindDouble(index, value);
+  } else {
+    // Strings (including dates and timestamps) are cast by DuckDB to the parameter type
+    prepared.bindVarchar(index, String(value));
+  }
+}
+
+/**
+ * Bind positional (array) or named (object) parameters to a prepared statement,
+ * type-checking each value against the type DuckDB inferred for its placeholder
+ */
+export function bindParameters(prepared: DuckDBPreparedStatement, params: QueryParams = []): void {
+  const issues: QueryParameterIssue[] = [];
+  const expected = new Set<string>();
+  const positional = Array.isArray(params);
+
+  for (let index = 1; index <= prepared.parameterCount; index++) {
+    const name = prepared.parameterName(index);
+    const isNumbered = /^\d+$/.test(name);
+    const label = `$${name}`;
+    expected.add(name);
+
+    if (positional && !isNumbered) {
+      issues.push({ parameter: label, message: 'query uses named parameters; pass params as an object' });
+      continue;
+    }
+
+    const value = positional
+      ? (params as unknown[])[Number(name) - 1]
+      : (params as Record<string, unknown>)[name];
+
+    if (value === undefined) {
+      issues.push({ parameter: label, message: 'missing value' });
+      continue;
+    }
+
+    const typeId = prepared.parameterTypeId(index);
+    const problem = checkValue(value, typeId);
+    if (problem) {
+      issues.push({ parameter: label, message: problem });
+      continue;
+    }
+
+    bindValue(prepared, index, value, typeId);
+  }
+
+  // Report values that no placeholder consumes
+  if (positional) {
+    for (let index = prepared.parameterCount; index < (params as unknown[]).length; index++) {
+      issues.push({ parameter: `$${index + 1}`, message: 'unexpected value; the query has no matching placeholder' });
+    }
+  } else {
+    for (const key of Object.keys(params)) {
+      if (!expected.has(key)) {
+        issues.push({ parameter: `$${key}`, message: 'unexpected value; the query has no matching placeholder' });
+      }
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new QueryParameterError(issues);
+  }
+}
@@ -0,0 +1,75 @@
+import { PlanEstimate } from '../types/index';
+
+/**
+ * Physical operators that combine rows from two inputs
+ */
+const JOIN_OPERATOR_PATTERN = /JOIN|CROSS_PRODUCT/i;
+
+/**
+ * Physical operators that return a single row whatever their input
+ */
+const SINGLE_ROW_OPERATORS = new Set(['UNGROUPED_AGGREGATE', 'SIMPLE_AGGREGATE']);
+
+/**
+ * One operator of a plan printed by EXPLAIN (FORMAT JSON)
+ */
+interface PlanNode {
+  name?: string;
+  operator_name?: string; // EXPLAIN ANALYZE names operators here
+  children?: PlanNode[];
+  extra_info?: Record<string, unknown>;
+}
+
+/**
+ * Estimate the size of a query from its physical plan as printed by EXPLAIN (FORMAT JSON), or from the
+ * profiled plan printed by EXPLAIN (ANALYZE, FORMAT JSON).
+ * Operators without DuckDB's "Estimated Cardinality" take it from their inputs: one row for an ungrouped
+ * aggregate, at most the top count for TOP_N, the product of the inputs for a cross product, otherwise the
+ * largest input. The plan does not show a LIMIT's count, so the result estimate is capped by `limit` instead.
+ */
+export function estimatePlan(plan: unknown, limit: number | null = null): PlanEstimate {
+  const estimate: PlanEstimate = { estimatedRows: null, peakEstimatedRows: null, joins: 0, operators: 0 };
+
+  const visit = (node: PlanNode): number | null => {
+    const name = (node.name ?? node.operator_name)?.trim();
+    if (name) {
+      estimate.operators++;
+    }
+    if (name && JOIN_OPERATOR_PATTERN.test(name)) {
+      estimate.joins++;
+    }
+
+    const inputs = (node.children ?? []).map(visit);
+    const known = inputs.filter((rows): rows is number => rows !== null);
+    const reported = node.extra_info?.['Estimated Cardinality'];
+    let rows: number | null;
+    if (reported !== undefined && Number.isFinite(Number(reported))) {
+      rows = Number(reported);
+    } else if (name && SINGLE_ROW_OPERATORS.has(name)) {
+      rows = 1;
+    } else if (name === 'TOP_N' && Number.isFinite(Number(node.extra_info?.['Top']))) {
+      rows = Math.min(Number(node.extra_info!['Top']), ...known);
+    } else if (name === 'CROSS_PRODUCT' && known.length === inputs.length && known.length > 0) {
+      rows = known.reduce((product, value) => product * value, 1);
+    } else {
+      rows = known.length > 0 ? Math.max(...known) : null;
+    }
+
+    if (rows !== null) {
+      estimate.peakEstimatedRows = Math.max(estimate.peakEstimatedRows ?? 0, rows);
+    }
+    return rows;
+  };
+
+  const roots: PlanNode[] = Array.isArray(plan) ? plan : [plan as PlanNode];
+  for (const root of roots) {
+    const rows = visit(root);
+    if (rows !== null) {
+      estimate.estimatedRows = (estimate.estimatedRows ?? 0) + rows;
+    }
+  }
+  if (limit !== null && estimate.estimatedRows !== null) {
+    estimate.estimatedRows = Math.min(estimate.estimatedRows, limit);
+  }
+  return estimate;
+}
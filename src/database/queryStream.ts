@@ -0,0 +1,219 @@
+import { DuckDBConnection, DuckDBDataChunk, DuckDBPreparedStatement, DuckDBResult } from '@duckdb/node-api';
+
+/**
+ * Raised when a running query is interrupted because its caller cancelled it
+ */
+export class QueryCancelledError extends Error {
+  constructor(reason?: unknown) {
+    super(`Query cancelled${typeof reason === 'string' && reason ? `: ${reason}` : ''}`);
+    this.name = 'QueryCancelledError';
+  }
+}
+
+/**
+ * Raised when a query runs past the configured wall-clock timeout and DuckDB is interrupted
+ */
+export class QueryTimeoutError extends Error {
+  readonly timeoutMs: number;
+
+  constructor(timeoutMs: number) {
+    super(`Query exceeded the ${timeoutMs}ms time limit and was stopped. Filter or aggregate the data so less work is needed, or page through it with a smaller limit.`);
+    this.name = 'QueryTimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * Raised when a result grows past a configured row or size limit
+ */
+export class QueryLimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'QueryLimitError';
+  }
+}
+
+/**
+ * Limits enforced while reading a stream. Null disables a limit.
+ */
+export interface StreamLimits {
+  timeoutMs: number | null; // Wall-clock budget per call, restarted by bindSignal()
+  maxRows: number | null; // Rows the whole result may contain
+  startedAt: number; // When the first call's budget started, so preparing the query counts against it
+}
+
+/**
+ * Incremental reader over a streaming DuckDB result.
+ *
+ * DuckDB produces results in vectors of up to 2048 rows. Each vector is fetched only when the
+ * consumer asks for more rows, so memory stays bounded by one DuckDB chunk plus one output chunk
+ * and a slow consumer naturally pauses query execution (back-pressure).
+ */
+export class QueryStream implements AsyncIterable<any[]> {
+  readonly columns: string[];
+  readonly columnTypes: string[];
+  private result: DuckDBResult;
+  private prepared: DuckDBPreparedStatement;
+  private connection: DuckDBConnection;
+  private convertRows: (rows: any[]) => any[];
+  private chunkSize: number;
+  private signal: AbortSignal | undefined;
+  private closed: boolean = false;
+  private fetching: boolean = false;
+  private rowsRead: number = 0;
+  private rowsProduced: number = 0;
+  private limits: StreamLimits;
+  private deadline: number | null;
+  private release: () => void;
+
+  constructor(
+    connection: DuckDBConnection,
+    prepared: DuckDBPreparedStatement,
+    result: DuckDBResult,
+    convertRows: (rows: any[]) => any[],
+    chunkSize: number,
+    signal?: AbortSignal,
+    limits: StreamLimits = { timeoutMs: null, maxRows: null, startedAt: Date.now() },
+    release: () => void = () => connection.closeSync()
+  ) {
+    this.connection = connection;
+    this.prepared = prepared;
+    this.result = result;
+    this.convertRows = convertRows;
+    this.chunkSize = Math.max(1, Math.floor(chunkSize));
+    this.columns = result.deduplicatedColumnNames();
+    this.columnTypes = result.columnTypes().map(type => type.toString());
+    this.signal = signal;
+    this.signal?.addEventListener('abort', this.cancel);
+    this.limits = limits;
+    this.release = release;
+    this.deadline = limits.timeoutMs !== null ? limits.startedAt + limits.timeoutMs : null;
+  }
+
+  /**
+   * Number of rows handed to the consumer so far
+   */
+  get rowCount(): number {
+    return this.rowsRead;
+  }
+
+  /**
+   * Yield converted rows in chunks of chunkSize, fetching DuckDB vectors lazily
+   */
+  async *[Symbol.asyncIterator](): AsyncGenerator<any[], void, unknown> {
+    let buffer: any[] = [];
+
+    try {
+      while (!this.closed) {
+        const dataChunk = await this.fetchChunk();
+        if (!dataChunk || dataChunk.rowCount === 0) {
+          break;
+        }
+
+        // Convert one DuckDB vector at a time rather than the whole result
+        const rows = this.convertRows(dataChunk.getRowObjects(this.columns));
+        this.rowsProduced += rows.length;
+        if (this.limits.maxRows !== null && this.rowsProduced > this.limits.maxRows) {
+          throw new QueryLimitError(`Query returned more than ${this.limits.maxRows} rows, the server's maximum result size. Add a LIMIT, a WHERE filter or an aggregation to return fewer rows.`);
+        }
+        let offset = 0;
+
+        while (offset < rows.length) {
+          const take = Math.min(this.chunkSize - buffer.length, rows.length - offset);
+          buffer.push(...rows.slice(offset, offset + take));
+          offset += take;
+
+          if (buffer.length >= this.chunkSize) {
+            const chunk = buffer;
+            buffer = [];
+            this.rowsRead += chunk.length;
+            yield chunk;
+          }
+        }
+      }
+
+      if (buffer.length > 0) {
+        this.rowsRead += buffer.length;
+        yield buffer;
+      }
+    } finally {
+      this.close();
+    }
+  }
+
+  /**
+   * Replace the abort signal governing the stream, e.g. when a later tool call resumes a paged result.
+   * The call that binds the signal gets a fresh timeout budget.
+   */
+  bindSignal(signal?: AbortSignal): void {
+    this.signal?.removeEventListener('abort', this.cancel);
+    this.signal = signal;
+    this.signal?.addEventListener('abort', this.cancel);
+    if (this.limits.timeoutMs !== null) {
+      this.deadline = Date.now() + this.limits.timeoutMs;
+    }
+  }
+
+  /**
+   * Interrupt the running query. A pending fetch fails with QueryCancelledError; an idle
+   * stream fails on its next fetch. Either way the iterator then releases the connection.
+   */
+  cancel = (): void => {
+    if (!this.closed && this.fetching) {
+      this.connection.interrupt();
+    }
+  };
+
+  /**
+   * Release the prepared statement and hand back the stream's connection.
+   * Safe to call more than once; abandoning iteration early calls it automatically.
+   */
+  close(): void {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    this.signal?.removeEventListener('abort', this.cancel);
+    this.prepared.destroySync();
+    this.release();
+  }
+
+  /**
+   * Fetch the next DuckDB vector, translating interrupts caused by cancellation or the timeout
+   */
+  private async fetchChunk(): Promise<DuckDBDataChunk | null> {
+    if (this.signal?.aborted) {
+      throw new QueryCancelledError(this.signal.reason);
+    }
+
+    const remaining = this.deadline !== null ? this.deadline - Date.now() : null;
+    if (remaining !== null && remaining <= 0) {
+      throw new QueryTimeoutError(this.limits.timeoutMs!);
+    }
+    let timedOut = false;
+    const timer = remaining !== null
+      ? setTimeout(() => {
+        timedOut = true;
+        this.connection.interrupt();
+      }, remaining)
+      : null;
+
+    this.fetching = true;
+    try {
+      return await this.result.fetchChunk();
+    } catch (error) {
+      if (timedOut) {
+        throw new QueryTimeoutError(this.limits.timeoutMs!);
+      }
+      if (this.signal?.aborted) {
+        throw new QueryCancelledError(this.signal.reason);
+      }
+      throw error;
+    } finally {
+      this.fetching = false;
+      if (timer) {
+        clearTimeout(timer);
+      }
+    }
+  }
+}
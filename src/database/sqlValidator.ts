@@ -0,0 +1,301 @@
+import { DuckDBConnection } from '@duckdb/node-api';
+import { SqlValidationResult } from '../types/index';
+
+/**
+ * Table and scalar functions that read files, reach the network, query other databases or expose server internals
+ */
+const BLOCKED_FUNCTIONS = new Set([
+  'glob',
+  'sniff_csv',
+  'parquet_metadata',
+  'parquet_schema',
+  'parquet_file_metadata',
+  'parquet_kv_metadata',
+  'iceberg_metadata',
+  'iceberg_snapshots',
+  'query',
+  'query_table',
+  'getenv',
+  'getvariable',
+  'load_extension',
+  'install_extension',
+  'current_setting',
+  'set_variable',
+  'sql_auto_complete',
+  'postgres_query',
+  'postgres_execute',
+  'mysql_query',
+  'mysql_execute',
+  'http_get',
+  'http_post'
+]);
+
+/**
+ * Function name patterns covering families of file/extension readers (read_csv, parquet_scan, sqlite_attach, pragma_*),
+ * secret and credential helpers (which_secret, load_aws_credentials) and DuckDB's catalog functions (duckdb_*)
+ */
+const BLOCKED_FUNCTION_PATTERNS: RegExp[] = [
+  /^read_/,
+  /_scan$/,
+  /_attach$/,
+  /^pragma_/,
+  /secret/,
+  /credential/,
+  /^duckdb_/
+];
+
+/**
+ * DuckDB's catalog views (duckdb_tables, duckdb_databases, ...), which call the blocked duckdb_* functions
+ */
+const DUCKDB_CATALOG_PATTERN = /^duckdb_/i;
+
+/**
+ * Table names DuckDB would resolve through a replacement scan (e.g. FROM '/etc/passwd.csv')
+ */
+const FILE_REFERENCE_PATTERN = /[/\\]|:\/\/|\.(csv|tsv|txt|parquet|json|jsonl|ndjson|gz|zst|xlsx|db|duckdb|sqlite|arrow)$/i;
+
+/**
+ * System catalog views and metadata functions hidden from callers restricted by an access policy
+ */
+const SYSTEM_CATALOG_PATTERN = /^(pg_|sqlite_|duckdb_|information_schema)/i;
+
+/**
+ * DuckDB encodes "no location" as UINT64_MAX
+ */
+const NO_LOCATION = Number.MAX_SAFE_INTEGER;
+
+/**
+ * Extra checks for callers restricted by an access policy
+ */
+export interface TableRestrictions {
+  deniedTables: Set<string>; // Lowercase names of registered tables the caller may not query
+}
+
+/**
+ * A top-level statement located in the raw SQL text
+ */
+interface StatementSpan {
+  start: number;
+  end: number; // Index of the terminating semicolon, or the end of input
+  text: string;
+}
+
+/**
+ * Analyzes SQL with DuckDB's own parser (json_serialize_sql) and enforces the read-only query policy
+ */
+export class SqlValidator {
+  private connection: DuckDBConnection;
+
+  constructor(connection: DuckDBConnection) {
+    this.connection = connection;
+  }
+
+  /**
+   * Validate a query, returning the reason and character position of the first violation.
+   * With restrictions, schema-qualified names, denied tables and system catalog metadata are rejected too.
+   */
+  async validate(sql: string, restrictions?: TableRestrictions): Promise<SqlValidationResult> {
+    const statements = this.splitStatements(sql);
+
+    if (statements.length === 0) {
+      return { valid: false, reason: 'Query is empty', position: 0 };
+    }
+
+    const firstStatement = statements[0]!;
+    if (statements.length > 1) {
+      return {
+        valid: false,
+        reason: `Multiple statements are not allowed (found ${statements.length}); submit a single SELECT query`,
+        position: firstStatement.end
+      };
+    }
+
+    const ast = await this.serialize(sql);
+
+    if (ast.error) {
+      if (ast.error_type === 'parser') {
+        const result: SqlValidationResult = { valid: false, reason: `Syntax error: ${ast.error_message}`, syntaxError: true };
+        const position = Number(ast.position);
+        if (Number.isFinite(position)) {
+          result.position = position;
+        }
+        return result;
+      }
+
+      // json_serialize_sql only understands SELECT statements; anything else is a non-query statement
+      const keyword = this.leadingKeyword(firstStatement.text);
+      return {
+        valid: false,
+        reason: `${keyword || 'This'} statements are not allowed. Only SELECT queries (including WITH ... SELECT) are permitted.`,
+        position: firstStatement.start + this.stripComments(firstStatement.text).search(/\S/)
+      };
+    }
+
+    const violation = this.findViolation(ast.statements, restrictions);
+    return violation ?? { valid: true };
+  }
+
+  /**
+   * Format a failed validation as a single error message
+   */
+  static formatError(result: SqlValidationResult): string {
+    const position = result.position !== undefined ? ` (at position ${result.position})` : '';
+    return `Invalid SQL query: ${result.reason ?? 'query rejected'}${position}`;
+  }
+
+  /**
+   * Serialize the query's parse tree to JSON using DuckDB's parser
+   */
+  private async serialize(sql: string): Promise<any> {
+    const reader = await this.connection.runAndReadAll('SELECT json_serialize_sql($1::VARCHAR) AS ast', [sql]);
+    const row = reader.getRowObjects()[0];
+    return JSON.parse(String(row?.ast ?? '{}'));
+  }
+
+  /**
+   * Walk the parse tree looking for blocked functions and file references
+   */
+  private findViolation(node: any, restrictions?: TableRestrictions): SqlValidationResult | null {
+    if (Array.isArray(node)) {
+      for (const child of node) {
+        const violation = this.findViolation(child, restrictions);
+        if (violation) {
+          return violation;
+        }
+      }
+      return null;
+    }
+
+    if (node === null || typeof node !== 'object') {
+      return null;
+    }
+
+    if (node.class === 'FUNCTION' && typeof node.function_name === 'string') {
+      const name = node.function_name.toLowerCase();
+      if (this.isBlockedFunction(name)) {
+        return this.rejection(`Function ${name}() is not allowed because it can read files, load extensions, reach other databases or expose server configuration`, node);
+      }
+    }
+
+    if (node.type === 'BASE_TABLE' && typeof node.table_name === 'string' && FILE_REFERENCE_PATTERN.test(node.table_name)) {
+      return this.rejection(`Direct file references such as '${node.table_name}' are not allowed; query a registered table instead`, node);
+    }
+    if (node.type === 'BASE_TABLE' && typeof node.table_name === 'string' && DUCKDB_CATALOG_PATTERN.test(node.table_name)) {
+      return this.rejection(`System catalog ${node.table_name} is not allowed because it exposes server configuration`, node);
+    }
+
+    if (restrictions) {
+      const violation = this.findRestrictedReference(node, restrictions);
+      if (violation) {
+        return violation;
+      }
+    }
+
+    for (const value of Object.values(node)) {
+      const violation = this.findViolation(value, restrictions);
+      if (violation) {
+        return violation;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Check a parse tree node against the access policy restrictions
+   */
+  private findRestrictedReference(node: any, restrictions: TableRestrictions): SqlValidationResult | null {
+    if (node.class === 'FUNCTION' && typeof node.function_name === 'string' && SYSTEM_CATALOG_PATTERN.test(node.function_name)) {
+      return this.rejection(`Function ${node.function_name.toLowerCase()}() is not available to your role`, node);
+    }
+
+    if (node.type !== 'BASE_TABLE' || typeof node.table_name !== 'string') {
+      return null;
+    }
+    if (node.schema_name || node.catalog_name) {
+      return this.rejection('Schema-qualified table names are not allowed; refer to tables by name only', node);
+    }
+    if (restrictions.deniedTables.has(node.table_name.toLowerCase())) {
+      return this.rejection(`Access to table ${node.table_name} is denied`, node);
+    }
+    if (SYSTEM_CATALOG_PATTERN.test(node.table_name)) {
+      return this.rejection(`System catalog ${node.table_name} is not available to your role`, node);
+    }
+    return null;
+  }
+
+  /**
+   * Check a function name against the block list
+   */
+  private isBlockedFunction(name: string): boolean {
+    return BLOCKED_FUNCTIONS.has(name) || BLOCKED_FUNCTION_PATTERNS.some(pattern => pattern.test(name));
+  }
+
+  /**
+   * Build a rejection for a parse tree node, including its location when known
+   */
+  private rejection(reason: string, node: any): SqlValidationResult {
+    const result: SqlValidationResult = { valid: false, reason };
+    if (typeof node.query_location === 'number' && node.query_location < NO_LOCATION) {
+      result.position = node.query_location;
+    }
+    return result;
+  }
+
+  /**
+   * Split SQL text into non-empty top-level statements, skipping quoted strings, identifiers and comments
+   */
+  private splitStatements(sql: string): StatementSpan[] {
+    const spans: StatementSpan[] = [];
+    let start = 0;
+    let i = 0;
+
+    const push = (end: number) => {
+      const text = sql.slice(start, end);
+      if (this.stripComments(text).trim().length > 0) {
+        spans.push({ start, end, text });
+      }
+    };
+
+    while (i < sql.length) {
+      const char = sql[i];
+      const next = sql[i + 1];
+
+      if (char === '\'' || char === '"') {
+        const close = sql.indexOf(char, i + 1);
+        // Doubled quotes are escapes; skipping past each closing quote handles them naturally
+        i = close === -1 ? sql.length : close + 1;
+      } else if (char === '-' && next === '-') {
+        const close = sql.indexOf('\n', i);
+        i = close === -1 ? sql.length : close + 1;
+      } else if (char === '/' && next === '*') {
+        const close = sql.indexOf('*/', i + 2);
+        i = close === -1 ? sql.length : close + 2;
+      } else if (char === ';') {
+        push(i);
+        start = i + 1;
+        i++;
+      } else {
+        i++;
+      }
+    }
+    push(sql.length);
+
+    return spans;
+  }
+
+  /**
+   * Get the first keyword of a statement, uppercased (e.g. COPY, ATTACH, PRAGMA)
+   */
+  private leadingKeyword(statement: string): string {
+    const match = this.stripComments(statement).trim().match(/^[A-Za-z_]+/);
+    return match ? match[0].toUpperCase() : '';
+  }
+
+  /**
+   * Replace comments with same-length whitespace so keyword detection and offsets ignore them
+   */
+  private stripComments(sql: string): string {
+    const blank = (comment: string) => comment.replace(/[^\n]/g, ' ');
+    return sql.replace(/--[^\n]*/g, blank).replace(/\/\*[\s\S]*?\*\//g, blank);
+  }
+}
@@ -0,0 +1,162 @@
+import { ColumnDescription, ColumnProfile, DatasetConfig, Principal, TableDescription, TableProfile } from '../types/index';
+import { DatabaseManager } from './db';
+import { inferFormat, quoteIdentifier } from './catalog';
+
+/**
+ * Column types that get a histogram: numbers, dates and timestamps
+ */
+const BINNABLE_TYPE_PATTERN = /^(U?(TINYINT|SMALLINT|INTEGER|BIGINT|HUGEINT)|FLOAT|DOUBLE|DECIMAL(\(\d+,\s*\d+\))?|DATE|TIMESTAMP)$/i;
+
+/**
+ * How much detail a profile includes
+ */
+export interface ProfileOptions {
+  topK: number; // Most frequent values per column
+  bins: number; // Target histogram bins per numeric or temporal column; rounding boundaries may add or remove one
+}
+
+/**
+ * Describes and profiles registered tables through a principal's policy views, so masked columns are
+ * profiled as masked, hidden columns are absent and row filters apply. Column metadata comes from
+ * information_schema and summary statistics from SUMMARIZE. Aborting the signal interrupts the running query.
+ */
+export class TableProfiler {
+  private dbManager: DatabaseManager;
+
+  constructor(dbManager: DatabaseManager) {
+    this.dbManager = dbManager;
+  }
+
+  /**
+   * Columns, types, nullability and comments of a table, plus the number of rows the principal can see
+   */
+  async describeTable(dataset: DatasetConfig, principal: Principal | null, signal?: AbortSignal): Promise<TableDescription> {
+    const schema = await this.dbManager.resolveSchema(principal);
+    // Policy views don't carry comments, so they are taken from the underlying table and the catalog
+    const result = await this.dbManager.executeQuery(
+      `SELECT c.column_name, c.data_type, c.is_nullable, coalesce(c.column_comment, m.column_comment) AS column_comment
+       FROM information_schema.columns c
+       LEFT JOIN information_schema.columns m ON m.table_schema = 'main' AND m.table_name = c.table_name AND m.column_name = c.column_name
+       WHERE c.table_schema = $1 AND c.table_name = $2
+       ORDER BY c.ordinal_position`,
+      [schema, dataset.name],
+      null,
+      null,
+      signal
+    );
+    const columns: ColumnDescription[] = result.data.map((row, index) => ({
+      name: String(row.column_name),
+      type: String(row.data_type),
+      nullable: row.is_nullable !== 'NO',
+      comment: dataset.columnComments?.[String(row.column_name)] ?? (row.column_comment as string | null) ?? null,
+      position: index + 1
+    }));
+
+    const count = await this.dbManager.executeQuery(`SELECT count(*) AS row_count FROM ${quoteIdentifier(dataset.name)}`, [], principal, null, signal);
+    return {
+      name: dataset.name,
+      kind: dataset.mode ?? 'table',
+      format: dataset.format ?? inferFormat(dataset.path),
+      description: dataset.description ?? null,
+      rowCount: Number(count.data[0]?.row_count ?? 0),
+      columns
+    };
+  }
+
+  /**
+   * Profile the given columns of a table: counts, null rate, exact distinct count, min/max, SUMMARIZE's mean,
+   * standard deviation and quartiles, the most frequent values and an equal-width histogram
+   */
+  async profileColumns(dataset: DatasetConfig, columns: ColumnDescription[], principal: Principal | null, options: ProfileOptions, signal?: AbortSignal): Promise<TableProfile> {
+    const table = quoteIdentifier(dataset.name);
+    if (columns.length === 0) {
+      const count = await this.dbManager.executeQuery(`SELECT count(*) AS row_count FROM ${table}`, [], principal, null, signal);
+      return { table: dataset.name, rowCount: Number(count.data[0]?.row_count ?? 0), columns: [] };
+    }
+
+    const projection = columns.map(column => quoteIdentifier(column.name)).join(', ');
+    const summary = await this.dbManager.executeQuery(
+      `SELECT column_name, min, max, avg, std, q25, q50, q75 FROM (SUMMARIZE SELECT ${projection} FROM ${table})`,
+      [],
+      principal,
+      null,
+      signal
+    );
+    const summaries = new Map(summary.data.map(row => [String(row.column_name), row]));
+
+    const aggregates = columns.flatMap((column, index) => [
+      `count(${quoteIdentifier(column.name)}) AS n${index}`,
+      `count(DISTINCT ${quoteIdentifier(column.name)}) AS d${index}`
+    ]);
+    const counts = (await this.dbManager.executeQuery(`SELECT count(*) AS row_count, ${aggregates.join(', ')} FROM ${table}`, [], principal, null, signal)).data[0] ?? {};
+    const rowCount = Number(counts.row_count ?? 0);
+
+    const profiles: ColumnProfile[] = [];
+    for (const [index, column] of columns.entries()) {
+      const stats = summaries.get(column.name) ?? {};
+      const nonNull = Number(counts[`n${index}`] ?? 0);
+      const text = (value: unknown) => value === null || value === undefined ? null : String(value);
+      const min = text(stats.min);
+
+      profiles.push({
+        name: column.name,
+        type: column.type,
+        rowCount,
+        nullCount: rowCount - nonNull,
+        nullRate: rowCount > 0 ? Math.round(((rowCount - nonNull) / rowCount) * 10000) / 10000 : 0,
+        distinctCount: Number(counts[`d${index}`] ?? 0),
+        min,
+        max: text(stats.max),
+        mean: text(stats.avg),
+        stddev: stats.std !== null && stats.std !== undefined ? Number(stats.std) : null,
+        quartiles: stats.q25 !== null && stats.q25 !== undefined
+          ? { q25: String(stats.q25), q50: String(stats.q50), q75: String(stats.q75) }
+          : null,
+        topValues: nonNull > 0 && options.topK > 0 ? await this.topValues(table, column, principal, options.topK, signal) : [],
+        histogram: nonNull > 0 && min !== null && BINNABLE_TYPE_PATTERN.test(column.type)
+          ? await this.histogram(table, column, min, principal, options.bins, signal)
+          : null
+      });
+    }
+    return { table: dataset.name, rowCount, columns: profiles };
+  }
+
+  /**
+   * Most frequent non-null values, ties broken by value
+   */
+  private async topValues(table: string, column: ColumnDescription, principal: Principal | null, topK: number, signal?: AbortSignal): Promise<ColumnProfile['topValues']> {
+    const name = quoteIdentifier(column.name);
+    const result = await this.dbManager.executeQuery(
+      `SELECT ${name}::VARCHAR AS value, count(*) AS count FROM ${table} WHERE ${name} IS NOT NULL GROUP BY ${name} ORDER BY count DESC, value LIMIT ${Math.floor(topK)}`,
+      [],
+      principal,
+      null,
+      signal
+    );
+    return result.data.map(row => ({ value: String(row.value), count: Number(row.count) }));
+  }
+
+  /**
+   * Equal-width histogram with DuckDB's rounded bin boundaries. Each bin holds values above the previous
+   * bin's upper bound up to and including its own.
+   */
+  private async histogram(table: string, column: ColumnDescription, min: string, principal: Principal | null, bins: number, signal?: AbortSignal): Promise<ColumnProfile['histogram']> {
+    const name = quoteIdentifier(column.name);
+    const result = await this.dbManager.executeQuery(
+      `WITH bins AS (SELECT equi_width_bins(min(${name}), max(${name}), ${Math.floor(bins)}, true) AS bounds FROM ${table})
+       SELECT unnest(map_keys(h))::VARCHAR AS upper_bound, unnest(map_values(h)) AS count
+       FROM (SELECT histogram(${name}, (SELECT bounds FROM bins)) AS h FROM ${table})`,
+      [],
+      principal,
+      null,
+      signal
+    );
+
+    let lowerBound = min;
+    return result.data.map(row => {
+      const bin = { lowerBound, upperBound: String(row.upper_bound), count: Number(row.count) };
+      lowerBound = bin.upperBound;
+      return bin;
+    });
+  }
+}
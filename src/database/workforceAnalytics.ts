@@ -0,0 +1,378 @@
+import {
+  HeadcountReport,
+  PromotionGap,
+  PromotionGapReport,
+  Principal,
+  SalaryBandReport,
+  TenureReport,
+  WorkforceBucket,
+  WorkforceGroupBy
+} from '../types/index';
+import { DatabaseManager } from './db';
+import { quoteIdentifier } from './catalog';
+
+const EMPLOYEES_TABLE = 'employees';
+
+/**
+ * DuckDB date_trunc unit and generate_series step for each headcount interval
+ */
+const INTERVALS: Record<HeadcountReport['interval'], { unit: string; step: string }> = {
+  month: { unit: 'month', step: 'INTERVAL 1 MONTH' },
+  quarter: { unit: 'quarter', step: 'INTERVAL 3 MONTH' },
+  year: { unit: 'year', step: 'INTERVAL 1 YEAR' }
+};
+
+/**
+ * Lower bounds, in months, of the promotion gap buckets
+ */
+const GAP_BUCKET_MONTHS = [0, 6, 12, 24, 36, 60];
+
+/**
+ * Optional PromotionGap fields filled in when the principal can see them
+ */
+type GapDetail = 'employeeName' | 'department' | 'position';
+const GAP_DETAILS: GapDetail[] = ['employeeName', 'department', 'position'];
+
+/**
+ * A report needs a column the principal's access policy hides
+ */
+export class HiddenColumnError extends Error {
+  readonly columns: string[];
+
+  constructor(columns: string[]) {
+    super(`This report needs ${columns.join(', ')}, which your access policy hides`);
+    this.name = 'HiddenColumnError';
+    this.columns = columns;
+  }
+}
+
+/**
+ * A headcount range, once its default start is resolved, spans more periods than allowed
+ */
+export class PeriodLimitError extends Error {
+  readonly periods: number;
+
+  constructor(periods: number, interval: HeadcountReport['interval'], maxPeriods: number) {
+    super(`The range covers about ${periods} ${interval}s; use a longer interval or a shorter range (at most ${maxPeriods} periods)`);
+    this.name = 'PeriodLimitError';
+    this.periods = periods;
+  }
+}
+
+/**
+ * Options for headcountOverTime; from and to are YYYY-MM-DD
+ */
+export interface HeadcountOptions {
+  interval: HeadcountReport['interval'];
+  groupBy: WorkforceGroupBy;
+  from: string | null; // Defaults to the earliest start date
+  to: string;
+  maxPeriods: number; // Longest series returned
+}
+
+/**
+ * Workforce reports over the employees table: headcount over time, tenure distribution, promotion gaps
+ * and salary bands. Queries run through the principal's policy views, so masked columns are reported
+ * as masked, row filters apply and reports needing a hidden column fail.
+ */
+export class WorkforceAnalytics {
+  private dbManager: DatabaseManager;
+
+  constructor(dbManager: DatabaseManager) {
+    this.dbManager = dbManager;
+  }
+
+  /**
+   * Hires per period and cumulative headcount at the end of each period, one series per group
+   */
+  async headcountOverTime(options: HeadcountOptions, principal: Principal | null, sessionId: string | null = null, signal?: AbortSignal): Promise<HeadcountReport> {
+    const visible = await this.requireColumns(principal, ['startDate', options.groupBy]);
+    const { unit, step } = INTERVALS[options.interval];
+    const table = quoteIdentifier(EMPLOYEES_TABLE);
+    const startDate = quoteIdentifier('startDate');
+
+    let from = options.from;
+    if (from === null) {
+      const earliest = await this.dbManager.executeQuery(`SELECT strftime(min(${startDate}), '%Y-%m-%d') AS earliest FROM ${table}`, [], principal, sessionId, signal);
+      from = (earliest.data[0]?.earliest as string | null) ?? options.to;
+    }
+
+    const months = (Number(options.to.slice(0, 4)) - Number(from.slice(0, 4))) * 12 + Number(options.to.slice(5, 7)) - Number(from.slice(5, 7));
+    const periods = Math.floor(months / { month: 1, quarter: 3, year: 12 }[options.interval]) + 1;
+    if (periods > options.maxPeriods) {
+      throw new PeriodLimitError(periods, options.interval, options.maxPeriods);
+    }
+
+    const result = await this.dbManager.executeQuery(
+      `WITH periods AS (
+         SELECT CAST(unnest(generate_series(date_trunc('${unit}', CAST($from AS DATE)), date_trunc('${unit}', CAST($to AS DATE)), ${step})) AS DATE) AS period_start
+       ), staff AS (
+         SELECT ${this.groupExpression(options.groupBy, visible)} AS grp, CAST(date_trunc('${unit}', ${startDate}) AS DATE) AS period_start
+         FROM ${table} WHERE ${startDate} IS NOT NULL
+       ), hires AS (
+         SELECT grp, period_start, count(*) AS hires FROM staff GROUP BY grp, period_start
+       ), earlier AS (
+         SELECT grp, count(*) AS hires FROM staff WHERE period_start < date_trunc('${unit}', CAST($from AS DATE)) GROUP BY grp
+       )
+       SELECT g.grp, strftime(p.period_start, '%Y-%m-%d') AS period_start, coalesce(h.hires, 0) AS hires,
+         coalesce(e.hires, 0) + sum(coalesce(h.hires, 0)) OVER (PARTITION BY g.grp ORDER BY p.period_start) AS headcount
+       FROM periods p
+       CROSS JOIN (SELECT DISTINCT grp FROM staff) g
+       LEFT JOIN hires h ON h.grp = g.grp AND h.period_start = p.period_start
+       LEFT JOIN earlier e ON e.grp = g.grp
+       ORDER BY g.grp, p.period_start`,
+      { from, to: options.to },
+      principal,
+      sessionId,
+      signal
+    );
+
+    const series = new Map<string, HeadcountReport['series'][number]>();
+    for (const row of result.data) {
+      const group = String(row.grp);
+      if (!series.has(group)) {
+        series.set(group, { group, points: [] });
+      }
+      const periodStart = String(row.period_start);
+      series.get(group)!.points.push({
+        period: this.periodLabel(periodStart, options.interval),
+        periodStart,
+        hires: Number(row.hires),
+        headcount: Number(row.headcount)
+      });
+    }
+
+    const points = [...series.values()][0]?.points ?? [];
+    return {
+      interval: options.interval,
+      groupBy: options.groupBy,
+      from: points[0]?.periodStart ?? from,
+      to: points[points.length - 1]?.periodStart ?? options.to,
+      series: [...series.values()]
+    };
+  }
+
+  /**
+   * Completed years of service as of a date, bucketed and summarized per group. Employees who start
+   * after that date are left out.
+   */
+  async tenureDistribution(asOf: string, bucketYears: number, groupBy: WorkforceGroupBy, principal: Principal | null, sessionId: string | null = null, signal?: AbortSignal): Promise<TenureReport> {
+    const visible = await this.requireColumns(principal, ['startDate', groupBy]);
+    const startDate = quoteIdentifier('startDate');
+    const staff = `WITH staff AS (
+         SELECT ${this.groupExpression(groupBy, visible)} AS grp,
+           date_part('year', age(CAST($asOf AS DATE), ${startDate})) AS years,
+           datediff('day', ${startDate}, CAST($asOf AS DATE)) / 365.25 AS exact_years
+         FROM ${quoteIdentifier(EMPLOYEES_TABLE)} WHERE ${startDate} <= CAST($asOf AS DATE)
+       )`;
+
+    const groups = await this.dbManager.executeQuery(
+      `${staff} SELECT grp, count(*) AS employees, avg(exact_years) AS mean_years, median(exact_years) AS median_years
+       FROM staff GROUP BY grp ORDER BY employees DESC, grp`,
+      { asOf },
+      principal,
+      sessionId,
+      signal
+    );
+    const counts = await this.dbManager.executeQuery(
+      `${staff} SELECT grp, CAST(floor(years / ${bucketYears}) * ${bucketYears} AS INTEGER) AS bucket, count(*) AS count
+       FROM staff GROUP BY grp, bucket`,
+      { asOf },
+      principal,
+      sessionId,
+      signal
+    );
+
+    // Every group gets the same buckets, from zero to the longest tenure anywhere
+    const longest = Math.max(0, ...counts.data.map(row => Number(row.bucket)));
+    const bounds: number[] = [];
+    for (let from = 0; from <= longest; from += bucketYears) {
+      bounds.push(from);
+    }
+    const label = (from: number) => bucketYears === 1
+      ? `${from} year${from === 1 ? '' : 's'}`
+      : `${from}-${from + bucketYears - 1} years`;
+
+    return {
+      asOf,
+      bucketYears,
+      groupBy,
+      series: groups.data.map(row => {
+        const group = String(row.grp);
+        const inGroup = counts.data.filter(count => String(count.grp) === group);
+        return {
+          group,
+          employees: Number(row.employees),
+          meanYears: this.round(row.mean_years, 1),
+          medianYears: this.round(row.median_years, 1),
+          buckets: bounds.map(from => ({
+            label: label(from),
+            from,
+            to: from + bucketYears,
+            count: Number(inGroup.find(count => Number(count.bucket) === from)?.count ?? 0)
+          }))
+        };
+      })
+    };
+  }
+
+  /**
+   * Completed months since each employee's last promotion, or since their start date for employees
+   * never promoted: bucketed statistics per group and the longest gaps
+   */
+  async promotionGaps(asOf: string, groupBy: WorkforceGroupBy, limit: number, principal: Principal | null, sessionId: string | null = null, signal?: AbortSignal): Promise<PromotionGapReport> {
+    const visible = await this.requireColumns(principal, ['employeeId', 'startDate', 'lastPromoted', groupBy]);
+    const since = `coalesce(${quoteIdentifier('lastPromoted')}, ${quoteIdentifier('startDate')})`;
+    const details = GAP_DETAILS.filter(column => visible.includes(column));
+    const gaps = `WITH gaps AS (
+         SELECT ${this.groupExpression(groupBy, visible)} AS grp, ${['employeeId', ...details].map(quoteIdentifier).join(', ')},
+           ${since} AS since, ${quoteIdentifier('lastPromoted')} IS NULL AS never_promoted,
+           CAST(date_part('year', age(CAST($asOf AS DATE), ${since})) * 12 + date_part('month', age(CAST($asOf AS DATE), ${since})) AS INTEGER) AS months
+         FROM ${quoteIdentifier(EMPLOYEES_TABLE)} WHERE ${since} <= CAST($asOf AS DATE)
+       )`;
+    const bucketCase = `CASE ${GAP_BUCKET_MONTHS.slice(1).map((upper, index) => `WHEN months < ${upper} THEN ${GAP_BUCKET_MONTHS[index]}`).join(' ')} ELSE ${GAP_BUCKET_MONTHS[GAP_BUCKET_MONTHS.length - 1]} END`;
+
+    const groups = await this.dbManager.executeQuery(
+      `${gaps} SELECT grp, count(*) AS employees, count(*) FILTER (WHERE never_promoted) AS never_promoted,
+         median(months) AS median_months, avg(months) AS mean_months, max(months) AS max_months
+       FROM gaps GROUP BY grp ORDER BY median_months DESC, grp`,
+      { asOf },
+      principal,
+      sessionId,
+      signal
+    );
+    const counts = await this.dbManager.executeQuery(
+      `${gaps} SELECT grp, ${bucketCase} AS bucket, count(*) AS count FROM gaps GROUP BY grp, bucket`,
+      { asOf },
+      principal,
+      sessionId,
+      signal
+    );
+    const longest = limit > 0
+      ? await this.dbManager.executeQuery(
+        `${gaps} SELECT ${['employeeId', ...details].map(quoteIdentifier).join(', ')}, strftime(since, '%Y-%m-%d') AS since, months, never_promoted
+         FROM gaps ORDER BY months DESC, ${quoteIdentifier('employeeId')} LIMIT ${limit}`,
+        { asOf },
+        principal,
+        sessionId,
+        signal
+      )
+      : null;
+
+    const label = (from: number, to: number | null) => to === null ? `${from}+ months` : `${from}-${to - 1} months`;
+    return {
+      asOf,
+      groupBy,
+      groups: groups.data.map(row => {
+        const group = String(row.grp);
+        const inGroup = counts.data.filter(count => String(count.grp) === group);
+        return {
+          group,
+          employees: Number(row.employees),
+          neverPromoted: Number(row.never_promoted),
+          medianMonths: this.round(row.median_months, 1),
+          meanMonths: this.round(row.mean_months, 1),
+          maxMonths: this.round(row.max_months, 0),
+          buckets: GAP_BUCKET_MONTHS.map((from, index): WorkforceBucket => {
+            const to = GAP_BUCKET_MONTHS[index + 1] ?? null;
+            return { label: label(from, to), from, to, count: Number(inGroup.find(count => Number(count.bucket) === from)?.count ?? 0) };
+          })
+        };
+      }),
+      longestGaps: (longest?.data ?? []).map((row): PromotionGap => {
+        const detailValues: Partial<Record<GapDetail, string>> = {};
+        for (const column of details) {
+          if (row[column] !== null) {
+            detailValues[column] = String(row[column]);
+          }
+        }
+        return {
+          employeeId: Number(row.employeeId),
+          ...detailValues,
+          since: String(row.since),
+          months: Number(row.months),
+          neverPromoted: row.never_promoted === true
+        };
+      })
+    };
+  }
+
+  /**
+   * Salary count, range, mean and interpolated percentiles per group. Percentiles are fractions from 0 to 1.
+   */
+  async salaryBands(groupBy: WorkforceGroupBy, percentiles: number[], principal: Principal | null, sessionId: string | null = null, signal?: AbortSignal): Promise<SalaryBandReport> {
+    const visible = await this.requireColumns(principal, ['salary', groupBy]);
+    const salary = quoteIdentifier('salary');
+    const result = await this.dbManager.executeQuery(
+      `SELECT ${this.groupExpression(groupBy, visible)} AS grp, count(${salary}) AS employees, min(${salary}) AS min, max(${salary}) AS max,
+         avg(${salary}) AS mean, ${percentiles.map((percentile, index) => `quantile_cont(${salary}, ${percentile}) AS p${index}`).join(', ')}
+       FROM ${quoteIdentifier(EMPLOYEES_TABLE)} WHERE ${salary} IS NOT NULL
+       GROUP BY grp ORDER BY quantile_cont(${salary}, 0.5) DESC, grp`,
+      [],
+      principal,
+      sessionId,
+      signal
+    );
+
+    return {
+      groupBy,
+      bands: result.data.map(row => ({
+        group: String(row.grp),
+        employees: Number(row.employees),
+        min: this.round(row.min, 2),
+        max: this.round(row.max, 2),
+        mean: this.round(row.mean, 2),
+        percentiles: percentiles.map((percentile, index) => ({ percentile, salary: this.round(row[`p${index}`], 2) ?? 0 }))
+      }))
+    };
+  }
+
+  /**
+   * Columns of the employees table the principal can see. Fails when a column the report needs is hidden.
+   */
+  private async requireColumns(principal: Principal | null, required: string[]): Promise<string[]> {
+    const schema = await this.dbManager.getTableSchema(EMPLOYEES_TABLE, principal);
+    const visible = schema.map(row => String(row.column_name));
+    const hidden = required.filter(column => column !== 'none' && !visible.includes(column));
+    if (hidden.length > 0) {
+      throw new HiddenColumnError(hidden);
+    }
+    return visible;
+  }
+
+  /**
+   * SQL expression naming each employee's group; missing values form their own group
+   */
+  private groupExpression(groupBy: WorkforceGroupBy, visible: string[]): string {
+    if (groupBy === 'none' || !visible.includes(groupBy)) {
+      return `'All employees'`;
+    }
+    return `coalesce(CAST(${quoteIdentifier(groupBy)} AS VARCHAR), '(not set)')`;
+  }
+
+  /**
+   * Chart label of a period starting on a YYYY-MM-DD date: 2024-03, 2024-Q1 or 2024
+   */
+  private periodLabel(periodStart: string, interval: HeadcountReport['interval']): string {
+    const [year, month] = periodStart.split('-');
+    switch (interval) {
+      case 'month':
+        return `${year}-${month}`;
+      case 'quarter':
+        return `${year}-Q${Math.floor((Number(month) - 1) / 3) + 1}`;
+      default:
+        return year;
+    }
+  }
+
+  /**
+   * Round a numeric query value, keeping nulls
+   */
+  private round(value: unknown, digits: number): number | null {
+    if (value === null || value === undefined) {
+      return null;
+    }
+    const factor = 10 ** digits;
+    return Math.round(Number(value) * factor) / factor;
+  }
+}
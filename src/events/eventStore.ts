@@ -0,0 +1,121 @@
+import path from 'path';
+import { EventId, EventStore, StreamId } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import { EventStoreConfig, Principal } from '../types/index';
+import { MemoryEventStore } from './memoryEventStore';
+import { FileEventStore } from './fileEventStore';
+
+/**
+ * Stream the SDK uses for the standalone GET /mcp SSE stream
+ */
+const STANDALONE_STREAM_ID = '_GET_stream';
+
+/**
+ * One SSE event sent to a client
+ */
+export interface StoredEvent {
+  eventId: EventId;
+  streamId: StreamId;
+  message: JSONRPCMessage;
+}
+
+/**
+ * What the store remembers about a session, enough to tell whether a client may replay its events
+ */
+export interface SessionRecord {
+  sessionId: string;
+  owner: Pick<Principal, 'id' | 'method'> | null; // null when authentication was disabled
+  createdAt: string;
+}
+
+/**
+ * Event store shared by every session. Events are kept per session, so a client can only replay
+ * events from its own session, and a session's events can be purged when it ends.
+ */
+export interface SessionEventStore {
+  /**
+   * Record a new session; events can only be stored for registered sessions
+   */
+  registerSession(record: SessionRecord): Promise<void>;
+
+  /**
+   * Look up a session, or null when the store does not know it
+   */
+  loadSession(sessionId: string): Promise<SessionRecord | null>;
+
+  /**
+   * Store an event sent on one of the session's streams and return its id
+   */
+  storeEvent(sessionId: string, streamId: StreamId, message: JSONRPCMessage): Promise<EventId>;
+
+  /**
+   * Events of the same stream that follow an event, or null when the event is not stored
+   */
+  eventsAfter(sessionId: string, lastEventId: EventId): Promise<{ streamId: StreamId; events: StoredEvent[] } | null>;
+
+  /**
+   * Drop a session and all of its events
+   */
+  purgeSession(sessionId: string): Promise<void>;
+
+  /**
+   * Drop sessions with no activity for maxAgeMs, except the given live ones. Returns the number purged.
+   */
+  purgeInactive(maxAgeMs: number, liveSessionIds: Set<string>): Promise<number>;
+}
+
+/**
+ * Separates the session id from the store's own id in the event ids sent to clients
+ */
+const EVENT_ID_SEPARATOR = ':';
+
+/**
+ * Adapt the shared store to the SDK's EventStore interface for one session's transport. Event ids name
+ * their session, so a client that had to initialize a new session, for example after a restart, can still
+ * replay a stream of an earlier session it owned by sending its Last-Event-ID. Replaying an event the store
+ * no longer has, or one of another owner's sessions, continues as the standalone stream without replay.
+ */
+export function scopeToSession(store: SessionEventStore, sessionId: string, owner: SessionRecord['owner']): EventStore {
+  return {
+    storeEvent: async (streamId, message) => `${sessionId}${EVENT_ID_SEPARATOR}${await store.storeEvent(sessionId, streamId, message)}`,
+    replayEventsAfter: async (lastEventId, { send }) => {
+      const separator = lastEventId.lastIndexOf(EVENT_ID_SEPARATOR);
+      const source = lastEventId.slice(0, Math.max(separator, 0));
+      const record = source && source !== sessionId ? await store.loadSession(source) : null;
+      const owned = source === sessionId || (record !== null && sameOwner(record.owner, owner));
+
+      const replay = owned ? await store.eventsAfter(source, lastEventId.slice(separator + 1)) : null;
+      if (!replay) {
+        console.warn(`Session ${sessionId} asked to resume after unknown event ${lastEventId}; nothing to replay`);
+        return STANDALONE_STREAM_ID;
+      }
+      for (const event of replay.events) {
+        await send(`${source}${EVENT_ID_SEPARATOR}${event.eventId}`, event.message);
+      }
+      return replay.streamId;
+    }
+  };
+}
+
+/**
+ * Check whether two session owners are the same principal
+ */
+function sameOwner(a: SessionRecord['owner'], b: SessionRecord['owner']): boolean {
+  return a === null || b === null ? a === b : a.id === b.id && a.method === b.method;
+}
+
+/**
+ * Create the configured event store, or null when resumability is disabled
+ */
+export function createEventStore(config: EventStoreConfig = { type: 'memory' }): SessionEventStore | null {
+  switch (config.type) {
+    case 'none':
+      return null;
+    case 'file':
+      return new FileEventStore(config.directory ?? path.join(process.cwd(), '.mcp-events'), config.maxEventsPerSession);
+    case 'memory':
+      return new MemoryEventStore(config.maxEventsPerSession, config.maxEvents);
+    default:
+      throw new Error(`Unknown event store type: ${String((config as EventStoreConfig).type)}`);
+  }
+}
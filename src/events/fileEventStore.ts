@@ -0,0 +1,219 @@
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { EventId, StreamId } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import { SessionEventStore, SessionRecord, StoredEvent } from './eventStore';
+
+const DEFAULT_MAX_EVENTS_PER_SESSION = 1000;
+
+/**
+ * A session's events as loaded from its file
+ */
+interface SessionLog {
+  record: SessionRecord;
+  events: StoredEvent[]; // Oldest first, at most maxEventsPerSession
+  nextEventId: number;
+  lines: number; // Lines in the file, including events already dropped from memory
+  writes: Promise<void>; // Serializes appends and compaction for the session's file
+}
+
+/**
+ * Event store that appends each session's events to an NDJSON file, so session owners and their
+ * undelivered events survive a server restart and can be replayed from a new session. Files are read lazily the first time a session is
+ * looked up and rewritten once they hold twice as many events as the per-session cap.
+ */
+export class FileEventStore implements SessionEventStore {
+  private directory: string;
+  private maxEventsPerSession: number;
+  private logs: Map<string, Promise<SessionLog | null>> = new Map();
+
+  constructor(directory: string, maxEventsPerSession: number = DEFAULT_MAX_EVENTS_PER_SESSION) {
+    this.directory = directory;
+    this.maxEventsPerSession = Math.max(1, maxEventsPerSession);
+  }
+
+  async registerSession(record: SessionRecord): Promise<void> {
+    if (await this.log(record.sessionId)) {
+      return;
+    }
+
+    const log: SessionLog = { record, events: [], nextEventId: 1, lines: 1, writes: Promise.resolve() };
+    this.logs.set(record.sessionId, Promise.resolve(log));
+    await fs.mkdir(this.directory, { recursive: true });
+    await this.write(log, () => fs.writeFile(this.filePath(record.sessionId), `${JSON.stringify({ type: 'session', record })}\n`));
+  }
+
+  async loadSession(sessionId: string): Promise<SessionRecord | null> {
+    return (await this.log(sessionId))?.record ?? null;
+  }
+
+  async storeEvent(sessionId: string, streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+    const log = await this.log(sessionId);
+    if (!log) {
+      throw new Error(`Cannot store events for unknown session ${sessionId}`);
+    }
+
+    const event: StoredEvent = { eventId: String(log.nextEventId++), streamId, message };
+    log.events.push(event);
+    if (log.events.length > this.maxEventsPerSession) {
+      log.events.shift();
+    }
+
+    log.lines++;
+    const file = this.filePath(sessionId);
+    await this.write(log, () => fs.appendFile(file, `${JSON.stringify({ type: 'event', event })}\n`));
+    if (log.lines > 2 * this.maxEventsPerSession + 1) {
+      await this.compact(log);
+    }
+    return event.eventId;
+  }
+
+  async eventsAfter(sessionId: string, lastEventId: EventId): Promise<{ streamId: StreamId; events: StoredEvent[] } | null> {
+    const log = await this.log(sessionId);
+    const index = log?.events.findIndex(event => event.eventId === lastEventId) ?? -1;
+    if (!log || index < 0) {
+      return null;
+    }
+
+    const { streamId } = log.events[index]!;
+    return { streamId, events: log.events.slice(index + 1).filter(event => event.streamId === streamId) };
+  }
+
+  async purgeSession(sessionId: string): Promise<void> {
+    const log = await this.logs.get(sessionId)?.catch(() => null);
+    this.logs.delete(sessionId);
+    await log?.writes;
+    await fs.rm(this.filePath(sessionId), { force: true });
+  }
+
+  async purgeInactive(maxAgeMs: number, liveSessionIds: Set<string>): Promise<number> {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return 0;
+      }
+      throw error;
+    }
+
+    const liveFiles = new Set(Array.from(liveSessionIds, sessionId => path.basename(this.filePath(sessionId))));
+    const cutoff = Date.now() - maxAgeMs;
+    let purged = 0;
+
+    for (const entry of entries) {
+      if (!entry.endsWith('.ndjson') || liveFiles.has(entry)) {
+        continue;
+      }
+      const file = path.join(this.directory, entry);
+      const { mtimeMs } = await fs.stat(file);
+      if (mtimeMs >= cutoff) {
+        continue;
+      }
+
+      // Forget a cached copy so a later lookup does not resurrect the session
+      for (const sessionId of Array.from(this.logs.keys())) {
+        if (this.filePath(sessionId) === file) {
+          this.logs.delete(sessionId);
+        }
+      }
+      await fs.rm(file, { force: true });
+      purged++;
+    }
+    return purged;
+  }
+
+  /**
+   * File holding a session's log. Session ids come from clients, so the name is a hash of the id.
+   */
+  private filePath(sessionId: string): string {
+    const name = crypto.createHash('sha256').update(sessionId).digest('hex').slice(0, 32);
+    return path.join(this.directory, `${name}.ndjson`);
+  }
+
+  /**
+   * The cached log for a session, reading it from disk on first use
+   */
+  private log(sessionId: string): Promise<SessionLog | null> {
+    let log = this.logs.get(sessionId);
+    if (!log) {
+      log = this.readLog(sessionId);
+      this.logs.set(sessionId, log);
+      log.catch(() => this.logs.delete(sessionId));
+    }
+    return log;
+  }
+
+  /**
+   * Read a session's file, or null when the session is unknown
+   */
+  private async readLog(sessionId: string): Promise<SessionLog | null> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath(sessionId), 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+
+    const lines = content.split('\n').filter(Boolean);
+    let record: SessionRecord | null = null;
+    const events: StoredEvent[] = [];
+    for (const line of lines) {
+      let entry: any;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        // A line torn by a crash mid-write is skipped
+        continue;
+      }
+      if (entry.type === 'session') {
+        record = entry.record;
+      } else if (entry.type === 'event') {
+        events.push(entry.event);
+      }
+    }
+    if (!record || record.sessionId !== sessionId) {
+      return null;
+    }
+
+    events.sort((a, b) => Number(a.eventId) - Number(b.eventId));
+    const lastEventId = events.length > 0 ? Number(events[events.length - 1]!.eventId) : 0;
+    return {
+      record,
+      events: events.slice(-this.maxEventsPerSession),
+      nextEventId: lastEventId + 1,
+      lines: lines.length,
+      writes: Promise.resolve()
+    };
+  }
+
+  /**
+   * Rewrite a session's file with only the events still kept in memory
+   */
+  private async compact(log: SessionLog): Promise<void> {
+    const file = this.filePath(log.record.sessionId);
+    const temporary = `${file}.${process.pid}.tmp`;
+    const lines = [{ type: 'session', record: log.record }, ...log.events.map(event => ({ type: 'event', event }))];
+    const linesBefore = log.lines;
+
+    await this.write(log, async () => {
+      await fs.writeFile(temporary, lines.map(line => `${JSON.stringify(line)}\n`).join(''));
+      await fs.rename(temporary, file);
+    });
+    // Events stored while compacting were appended to the new file
+    log.lines -= linesBefore - lines.length;
+  }
+
+  /**
+   * Run a file operation after the session's earlier ones, so lines are written in order
+   */
+  private async write(log: SessionLog, operation: () => Promise<void>): Promise<void> {
+    const next = log.writes.then(operation);
+    log.writes = next.catch(() => undefined);
+    await next;
+  }
+}
@@ -0,0 +1,110 @@
+import { EventId, StreamId } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import { SessionEventStore, SessionRecord, StoredEvent } from './eventStore';
+
+const DEFAULT_MAX_EVENTS_PER_SESSION = 1000;
+const DEFAULT_MAX_EVENTS = 10_000;
+
+/**
+ * Events and bookkeeping for one session
+ */
+interface SessionEvents {
+  record: SessionRecord;
+  events: StoredEvent[]; // Oldest first
+  nextEventId: number;
+  lastActivity: number;
+}
+
+/**
+ * Event store held in process memory. Each session keeps at most maxEventsPerSession events and the
+ * store at most maxEvents in total; beyond either cap the oldest events are dropped first.
+ */
+export class MemoryEventStore implements SessionEventStore {
+  private sessions: Map<string, SessionEvents> = new Map();
+  private maxEventsPerSession: number;
+  private maxEvents: number;
+  private totalEvents: number = 0;
+
+  constructor(maxEventsPerSession: number = DEFAULT_MAX_EVENTS_PER_SESSION, maxEvents: number = DEFAULT_MAX_EVENTS) {
+    this.maxEventsPerSession = Math.max(1, maxEventsPerSession);
+    this.maxEvents = Math.max(1, maxEvents);
+  }
+
+  async registerSession(record: SessionRecord): Promise<void> {
+    if (!this.sessions.has(record.sessionId)) {
+      this.sessions.set(record.sessionId, { record, events: [], nextEventId: 1, lastActivity: Date.now() });
+    }
+  }
+
+  async loadSession(sessionId: string): Promise<SessionRecord | null> {
+    return this.sessions.get(sessionId)?.record ?? null;
+  }
+
+  async storeEvent(sessionId: string, streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error(`Cannot store events for unknown session ${sessionId}`);
+    }
+
+    const event: StoredEvent = { eventId: String(session.nextEventId++), streamId, message };
+    session.events.push(event);
+    session.lastActivity = Date.now();
+    this.totalEvents++;
+
+    if (session.events.length > this.maxEventsPerSession) {
+      session.events.shift();
+      this.totalEvents--;
+    }
+    while (this.totalEvents > this.maxEvents) {
+      this.dropOldestEvent();
+    }
+    return event.eventId;
+  }
+
+  async eventsAfter(sessionId: string, lastEventId: EventId): Promise<{ streamId: StreamId; events: StoredEvent[] } | null> {
+    const session = this.sessions.get(sessionId);
+    const index = session?.events.findIndex(event => event.eventId === lastEventId) ?? -1;
+    if (!session || index < 0) {
+      return null;
+    }
+
+    session.lastActivity = Date.now();
+    const { streamId } = session.events[index]!;
+    return { streamId, events: session.events.slice(index + 1).filter(event => event.streamId === streamId) };
+  }
+
+  async purgeSession(sessionId: string): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (session) {
+      this.totalEvents -= session.events.length;
+      this.sessions.delete(sessionId);
+    }
+  }
+
+  async purgeInactive(maxAgeMs: number, liveSessionIds: Set<string>): Promise<number> {
+    const cutoff = Date.now() - maxAgeMs;
+    const inactive = Array.from(this.sessions.values())
+      .filter(session => session.lastActivity < cutoff && !liveSessionIds.has(session.record.sessionId));
+    for (const session of inactive) {
+      await this.purgeSession(session.record.sessionId);
+    }
+    return inactive.length;
+  }
+
+  /**
+   * Drop the oldest event of the least recently active session that still has events
+   */
+  private dropOldestEvent(): void {
+    let oldest: SessionEvents | null = null;
+    for (const session of this.sessions.values()) {
+      if (session.events.length > 0 && (!oldest || session.lastActivity < oldest.lastActivity)) {
+        oldest = session;
+      }
+    }
+    if (!oldest) {
+      return;
+    }
+    oldest.events.shift();
+    this.totalEvents--;
+  }
+}
@@ -0,0 +1,259 @@
+import { ErrorCode, GetPromptResult, McpError, Prompt } from '@modelcontextprotocol/sdk/types.js';
+import { DatabaseManager } from '../database/db';
+import { TableResources } from '../resources/tableResources';
+import { Principal } from '../types/index';
+
+/**
+ * Column whose distinct values an argument must match
+ */
+type DistinctColumn = 'department' | 'location';
+
+/**
+ * Declarative description of a prompt argument
+ */
+interface PromptArgumentSpec {
+  name: string;
+  description: string;
+  kind: 'year' | 'text' | DistinctColumn;
+}
+
+/**
+ * Declarative description of a parameterized analytical prompt
+ */
+interface PromptSpec {
+  name: string;
+  title: string;
+  description: string;
+  question: string; // Natural-language question; {arg} placeholders are filled from arguments
+  sql: string; // Suggested query using bound $parameters
+  arguments: PromptArgumentSpec[];
+}
+
+/**
+ * Prompts derived from the dbQueryTool sample query catalogue
+ */
+const PROMPTS: PromptSpec[] = [
+  {
+    name: 'headcount-by-location',
+    title: 'Headcount by location',
+    description: 'Count employees per location, largest first',
+    question: 'How many employees work in each location?',
+    sql: 'SELECT location, COUNT(*) AS employee_count FROM employees GROUP BY location ORDER BY employee_count DESC',
+    arguments: []
+  },
+  {
+    name: 'hires-per-year-since',
+    title: 'Hires per year since a given year',
+    description: 'Count hires per start year from {year} onwards',
+    question: 'How many people did we hire each year since {year}?',
+    sql: 'SELECT EXTRACT(YEAR FROM startDate) AS start_year, COUNT(*) AS hires FROM employees WHERE startDate >= make_date($year, 1, 1) GROUP BY start_year ORDER BY start_year',
+    arguments: [
+      { name: 'year', description: 'First hiring year to include (four digits, e.g. 2020)', kind: 'year' }
+    ]
+  },
+  {
+    name: 'employees-in-department',
+    title: 'Employees in a department',
+    description: 'List employees of {department} with position, location and start date',
+    question: 'Who works in the {department} department?',
+    sql: 'SELECT employeeName, position, location, startDate FROM employees WHERE department = $department ORDER BY startDate',
+    arguments: [
+      { name: 'department', description: 'Department name', kind: 'department' }
+    ]
+  },
+  {
+    name: 'employees-in-location',
+    title: 'Employees in a location',
+    description: 'List employees based in {location}',
+    question: 'Which employees are based in {location}?',
+    sql: 'SELECT employeeName, department, position, startDate FROM employees WHERE location = $location ORDER BY employeeName',
+    arguments: [
+      { name: 'location', description: 'Work location', kind: 'location' }
+    ]
+  },
+  {
+    name: 'employees-named',
+    title: 'Find employees by name',
+    description: 'Find employees whose name contains {name}',
+    question: 'Find employees whose name contains "{name}".',
+    sql: 'SELECT * FROM employees WHERE employeeName ILIKE \'%\' || $name || \'%\' ORDER BY employeeName',
+    arguments: [
+      { name: 'name', description: 'Part of the employee name (case-insensitive)', kind: 'text' }
+    ]
+  }
+];
+
+/**
+ * Publishes parameterized analytical prompts that expand into schema context plus a ready-to-run query
+ */
+export class QueryPrompts {
+  private dbManager: DatabaseManager;
+  private tableResources: TableResources;
+
+  constructor(dbManager: DatabaseManager, tableResources: TableResources) {
+    this.dbManager = dbManager;
+    this.tableResources = tableResources;
+  }
+
+  /**
+   * Prompt definitions for prompts/list, with allowed values documented for each argument
+   */
+  async listPrompts(principal: Principal | null = null): Promise<Prompt[]> {
+    if (!this.dbManager.canAccessTable('employees', principal)) {
+      return [];
+    }
+
+    const prompts: Prompt[] = [];
+    for (const spec of PROMPTS) {
+      const args = [];
+      for (const arg of spec.arguments) {
+        args.push({
+          name: arg.name,
+          description: await this.describeArgument(arg, principal),
+          required: true
+        });
+      }
+      prompts.push({
+        name: spec.name,
+        title: spec.title,
+        description: spec.description,
+        arguments: args
+      });
+    }
+    return prompts;
+  }
+
+  /**
+   * Expand a prompt into messages containing the employees schema and a suggested dbQueryTool call
+   */
+  async getPrompt(name: string, args: Record<string, string> = {}, principal: Principal | null = null): Promise<GetPromptResult> {
+    const spec = PROMPTS.find(prompt => prompt.name === name);
+    if (!spec || !this.dbManager.canAccessTable('employees', principal)) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+    }
+
+    const params = await this.validateArguments(spec, args, principal);
+    const question = spec.question.replace(/\{(\w+)\}/g, (_match, key: string) => String(params[key] ?? ''));
+    const toolCall = {
+      name: 'dbQueryTool',
+      arguments: Object.keys(params).length > 0 ? { sql: spec.sql, params } : { sql: spec.sql }
+    };
+
+    const schemaUri = TableResources.schemaUri('employees');
+    const schema = await this.tableResources.readResource(schemaUri, principal);
+    const schemaContent = schema.contents[0] as { uri: string; mimeType?: string; text: string };
+
+    return {
+      description: spec.description.replace(/\{(\w+)\}/g, (_match, key: string) => String(params[key] ?? '')),
+      messages: [
+        {
+          role: 'user',
+          content: {
+            type: 'resource',
+            resource: {
+              uri: schemaContent.uri,
+              mimeType: schemaContent.mimeType ?? 'application/json',
+              text: schemaContent.text
+            }
+          }
+        },
+        {
+          role: 'user',
+          content: {
+            type: 'text',
+            text: [
+              question,
+              '',
+              'The employees table schema is attached above. A ready-to-run query for this question:',
+              '',
+              '```sql',
+              spec.sql,
+              '```',
+              '',
+              'Run it with the dbQueryTool call below, then summarize the results:',
+              '',
+              '```json',
+              JSON.stringify(toolCall, null, 2),
+              '```'
+            ].join('\n')
+          }
+        }
+      ]
+    };
+  }
+
+  /**
+   * Validate prompt arguments and convert them to bound query parameters
+   */
+  private async validateArguments(
+    spec: PromptSpec,
+    args: Record<string, string>,
+    principal: Principal | null
+  ): Promise<Record<string, string | number>> {
+    const params: Record<string, string | number> = {};
+    const problems: string[] = [];
+
+    for (const arg of spec.arguments) {
+      const raw = args[arg.name]?.trim();
+      if (!raw) {
+        problems.push(`${arg.name}: required`);
+        continue;
+      }
+
+      if (arg.kind === 'year') {
+        const year = Number(raw);
+        const currentYear = new Date().getFullYear();
+        if (!/^\d{4}$/.test(raw) || year < 1900 || year > currentYear) {
+          problems.push(`${arg.name}: expected a four-digit year between 1900 and ${currentYear}`);
+          continue;
+        }
+        params[arg.name] = year;
+      } else if (arg.kind === 'text') {
+        params[arg.name] = raw;
+      } else {
+        // Match distinct column values case-insensitively and use the stored spelling
+        const allowed = await this.distinctValues(arg.kind, principal);
+        const match = allowed.find(value => value.toLowerCase() === raw.toLowerCase());
+        if (!match) {
+          problems.push(`${arg.name}: unknown value "${raw}"; expected one of ${allowed.join(', ')}`);
+          continue;
+        }
+        params[arg.name] = match;
+      }
+    }
+
+    for (const key of Object.keys(args)) {
+      if (!spec.arguments.some(arg => arg.name === key)) {
+        problems.push(`${key}: not an argument of ${spec.name}`);
+      }
+    }
+
+    if (problems.length > 0) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid arguments for prompt ${spec.name}: ${problems.join('; ')}`);
+    }
+    return params;
+  }
+
+  /**
+   * Build an argument description, listing allowed values for enumerated columns
+   */
+  private async describeArgument(arg: PromptArgumentSpec, principal: Principal | null): Promise<string> {
+    if (arg.kind === 'department' || arg.kind === 'location') {
+      const values = await this.distinctValues(arg.kind, principal);
+      return `${arg.description}. One of: ${values.join(', ')}`;
+    }
+    return arg.description;
+  }
+
+  /**
+   * Distinct non-null values of an employees column visible to the principal
+   */
+  private async distinctValues(column: DistinctColumn, principal: Principal | null): Promise<string[]> {
+    const result = await this.dbManager.executeQuery(
+      `SELECT DISTINCT ${column} AS value FROM employees WHERE ${column} IS NOT NULL ORDER BY value`,
+      [],
+      principal
+    );
+    return result.data.map(row => String(row.value));
+  }
+}
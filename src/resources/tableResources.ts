@@ -0,0 +1,264 @@
+import { ErrorCode, McpError, ReadResourceResult, Resource, ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
+import { DatabaseManager } from '../database/db';
+import { quoteIdentifier } from '../database/catalog';
+import { DatasetStatus, LoadDiagnostics, Principal } from '../types/index';
+
+/**
+ * URI scheme used for all DuckDB resources
+ */
+const SCHEME = 'duckdb:';
+
+/**
+ * Default and maximum row counts for sample resources
+ */
+const DEFAULT_SAMPLE_LIMIT = 10;
+const MAX_SAMPLE_LIMIT = 100;
+
+/**
+ * Rejected rows included in a diagnostics resource
+ */
+const MAX_REJECTED_ROWS = 100;
+
+/**
+ * A parsed duckdb:// resource URI
+ */
+interface ParsedResourceUri {
+  kind: 'tables' | 'schema' | 'sample' | 'diagnostics';
+  table?: string;
+  limit?: number;
+}
+
+/**
+ * Exposes registered tables, their schemas, sample rows and load diagnostics as MCP resources
+ */
+export class TableResources {
+  private dbManager: DatabaseManager;
+
+  constructor(dbManager: DatabaseManager) {
+    this.dbManager = dbManager;
+  }
+
+  /**
+   * URI of a table's schema resource
+   */
+  static schemaUri(table: string): string {
+    return `duckdb://tables/${encodeURIComponent(table)}/schema`;
+  }
+
+  /**
+   * URI of a table's sample resource
+   */
+  static sampleUri(table: string, limit?: number): string {
+    const base = `duckdb://tables/${encodeURIComponent(table)}/sample`;
+    return limit !== undefined ? `${base}?limit=${limit}` : base;
+  }
+
+  /**
+   * URI of a table's load diagnostics resource
+   */
+  static diagnosticsUri(table: string): string {
+    return `duckdb://tables/${encodeURIComponent(table)}/diagnostics`;
+  }
+
+  /**
+   * Concrete resources: the table list plus schema, sample and diagnostics resources per table the principal may query
+   */
+  listResources(principal: Principal | null = null): Resource[] {
+    const resources: Resource[] = [
+      {
+        uri: 'duckdb://tables',
+        name: 'tables',
+        title: 'Registered tables',
+        description: 'All tables and views available to dbQueryTool',
+        mimeType: 'application/json'
+      }
+    ];
+
+    for (const dataset of this.dbManager.visibleDatasets(principal)) {
+      resources.push({
+        uri: TableResources.schemaUri(dataset.name),
+        name: `${dataset.name}-schema`,
+        title: `${dataset.name} schema`,
+        description: `Column names and DuckDB types of ${dataset.name}`,
+        mimeType: 'application/json'
+      });
+      resources.push({
+        uri: TableResources.sampleUri(dataset.name),
+        name: `${dataset.name}-sample`,
+        title: `${dataset.name} sample rows`,
+        description: `First ${DEFAULT_SAMPLE_LIMIT} rows of ${dataset.name}`,
+        mimeType: 'application/json'
+      });
+      resources.push({
+        uri: TableResources.diagnosticsUri(dataset.name),
+        name: `${dataset.name}-diagnostics`,
+        title: `${dataset.name} load diagnostics`,
+        description: `Detected CSV dialect, column types and rejected rows from the last load of ${dataset.name}`,
+        mimeType: 'application/json'
+      });
+    }
+
+    return resources;
+  }
+
+  /**
+   * Parameterized resource templates for any registered table
+   */
+  listResourceTemplates(principal: Principal | null = null): ResourceTemplate[] {
+    const tables = this.dbManager.visibleDatasets(principal).map(dataset => dataset.name).join(', ');
+    return [
+      {
+        uriTemplate: 'duckdb://tables/{table}/schema',
+        name: 'table-schema',
+        title: 'Table schema',
+        description: `Column names and DuckDB types of a table (${tables})`,
+        mimeType: 'application/json'
+      },
+      {
+        uriTemplate: 'duckdb://tables/{table}/sample{?limit}',
+        name: 'table-sample',
+        title: 'Table sample rows',
+        description: `Up to limit rows (default ${DEFAULT_SAMPLE_LIMIT}, max ${MAX_SAMPLE_LIMIT}) from a table (${tables})`,
+        mimeType: 'application/json'
+      },
+      {
+        uriTemplate: 'duckdb://tables/{table}/diagnostics',
+        name: 'table-diagnostics',
+        title: 'Table load diagnostics',
+        description: `Detected CSV dialect, column types and rejected rows from the last load of a table (${tables})`,
+        mimeType: 'application/json'
+      }
+    ];
+  }
+
+  /**
+   * Read a resource by URI on behalf of a principal
+   */
+  async readResource(uri: string, principal: Principal | null = null): Promise<ReadResourceResult> {
+    const parsed = this.parseUri(uri, principal);
+    let payload: unknown;
+
+    switch (parsed.kind) {
+      case 'tables':
+        payload = this.dbManager.visibleDatasets(principal).map(dataset => ({
+          name: dataset.name,
+          kind: dataset.mode ?? 'table',
+          description: dataset.description,
+          schemaUri: TableResources.schemaUri(dataset.name),
+          sampleUri: TableResources.sampleUri(dataset.name),
+          diagnosticsUri: TableResources.diagnosticsUri(dataset.name)
+        }));
+        break;
+      case 'schema':
+        payload = {
+          table: parsed.table,
+          columns: await this.dbManager.getTableSchema(parsed.table!, principal)
+        };
+        break;
+      case 'sample':
+        payload = {
+          table: parsed.table,
+          limit: parsed.limit,
+          rows: await this.dbManager.getSampleRows(parsed.table!, parsed.limit, principal)
+        };
+        break;
+      case 'diagnostics': {
+        const status = this.dbManager.getDatasetStatus().find(candidate => candidate.name === parsed.table);
+        const unrestricted = this.dbManager.accessScope(principal) === 'unrestricted';
+        payload = {
+          table: parsed.table,
+          loadedAt: status?.loadedAt ?? null,
+          lastError: status?.lastError ?? null,
+          ...status?.diagnostics,
+          ...(status && !unrestricted ? await this.visibleDiagnostics(status, principal) : { rowCount: status?.rowCount ?? null }),
+          rejected: await this.dbManager.getRejectedRows(parsed.table!, MAX_REJECTED_ROWS, unrestricted)
+        };
+        break;
+      }
+    }
+
+    return {
+      contents: [
+        {
+          uri,
+          mimeType: 'application/json',
+          text: JSON.stringify(payload, null, 2)
+        }
+      ]
+    };
+  }
+
+  /**
+   * Row count and columns of a load as a restricted principal sees the table: hidden columns are left out,
+   * masked ones report their masked type, and rows are counted through the row filter
+   */
+  private async visibleDiagnostics(status: DatasetStatus, principal: Principal | null): Promise<{ rowCount: number | null; columns: LoadDiagnostics['columns'] }> {
+    const schema = await this.dbManager.getTableSchema(status.name, principal);
+    const visibleTypes = new Map(schema.map(column => [String(column.column_name), String(column.data_type)]));
+    const columns = status.diagnostics.columns
+      .filter(column => visibleTypes.has(column.name))
+      .map(column => ({ ...column, type: visibleTypes.get(column.name)! }));
+
+    if (status.rowCount === null) {
+      return { rowCount: null, columns };
+    }
+    const count = await this.dbManager.executeQuery(`SELECT count(*) AS total FROM ${quoteIdentifier(status.name)}`, [], principal);
+    return { rowCount: Number(count.data[0]?.total ?? 0), columns };
+  }
+
+  /**
+   * Check whether a resource URI reflects the contents of the given table
+   */
+  isAffectedBy(uri: string, table: string): boolean {
+    try {
+      const parsed = this.parseUri(uri);
+      return parsed.kind === 'tables' || parsed.table?.toLowerCase() === table.toLowerCase();
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Parse and validate a duckdb:// resource URI. Tables the principal may not query are reported as unknown.
+   */
+  private parseUri(uri: string, principal: Principal | null = null): ParsedResourceUri {
+    let url: URL;
+    try {
+      url = new URL(uri);
+    } catch {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid resource URI: ${uri}`);
+    }
+
+    if (url.protocol !== SCHEME || url.host !== 'tables') {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+    }
+
+    const segments = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+    if (segments.length === 0) {
+      return { kind: 'tables' };
+    }
+
+    const [table, view] = segments;
+    const dataset = table ? this.dbManager.getCatalog().get(table) : undefined;
+    if (!dataset || segments.length !== 2 || !this.dbManager.canAccessTable(dataset.name, principal)) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+    }
+
+    if (view === 'schema') {
+      return { kind: 'schema', table: dataset.name };
+    }
+    if (view === 'sample') {
+      const rawLimit = url.searchParams.get('limit');
+      const limit = rawLimit === null || rawLimit === '' ? DEFAULT_SAMPLE_LIMIT : Number(rawLimit);
+      if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SAMPLE_LIMIT) {
+        throw new McpError(ErrorCode.InvalidParams, `limit must be an integer between 1 and ${MAX_SAMPLE_LIMIT}`);
+      }
+      return { kind: 'sample', table: dataset.name, limit };
+    }
+    if (view === 'diagnostics') {
+      return { kind: 'diagnostics', table: dataset.name };
+    }
+
+    throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+  }
+}
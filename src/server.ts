@@ -1,10 +1,40 @@
 import express from 'express';
 import { Server } from '@modelcontextprotocol/sdk/server';
 import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
-import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import {
+  CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  isInitializeRequest
+} from '@modelcontextprotocol/sdk/types.js';
 import { DatabaseManager } from './database/db';
+import { loadDatasetConfigFile } from './database/catalog';
+import { DatasetWatcher } from './database/datasetWatcher';
+import { EmployeeWriteTools } from './tools/employeeWriteTools';
+import { SchemaTools } from './tools/schemaTools';
+import { EmployeeSearchTools } from './tools/employeeSearchTools';
+import { WorkforceTools } from './tools/workforceTools';
+import { ExplainTool } from './tools/explainTool';
+import { QueryGuardrails } from './tools/queryGuardrails';
+import { AuditLogTool } from './tools/auditLogTool';
+import { AuditLog, createAuditLog, normalizeSql, parseAuditQuery } from './audit/auditLog';
+import { loadPolicyConfigFile } from './database/accessPolicy';
+import { QueryCancelledError, QueryTimeoutError } from './database/queryStream';
+import { DEFAULT_MAX_CONNECTIONS } from './database/connectionPool';
 import { DbQueryTool } from './tools/dbQueryTool';
-import { ServerConfig } from './types/index';
+import { CursorLimits, ResultCursorStore } from './tools/resultCursors';
+import { QueryToolError } from './tools/queryErrors';
+import { TableResources } from './resources/tableResources';
+import { QueryPrompts } from './prompts/queryPrompts';
+import { Authenticator, PROTECTED_RESOURCE_METADATA_PATH, loadAuthConfigFile } from './auth/authenticator';
+import { SessionEventStore, createEventStore, scopeToSession } from './events/eventStore';
+import { AuditLogConfig, AuditOutcome, EventStoreConfig, Principal, QueryParams, ServerConfig, StreamExecuteOptions } from './types/index';
 import path from 'path';
 import crypto from 'crypto';
 
@@ -16,6 +46,20 @@ interface SessionInfo {
   transport: StreamableHTTPServerTransport;
   createdAt: Date;
   lastAccessed: Date;
+  inFlight: Map<string, AbortController>; // Running tool calls by JSON-RPC request id
+  subscriptions: Set<string>; // Resource URIs the client subscribed to
+  cursors: ResultCursorStore; // Open paged dbQueryTool results
+  principal: Principal | null; // Caller that created the session; null when authentication is disabled
+}
+
+/**
+ * Raised when a new session would exceed maxSessions and none can be evicted
+ */
+class SessionLimitError extends Error {
+  constructor(maxSessions: number) {
+    super(`Too many sessions: the server allows ${maxSessions} at once. Retry later or close unused sessions with DELETE /mcp.`);
+    this.name = 'SessionLimitError';
+  }
 }
 
 /**
@@ -24,65 +68,500 @@ interface SessionInfo {
 class MCPDuckDBServer {
   private dbManager: DatabaseManager;
   private dbQueryTool: DbQueryTool;
+  private schemaTools: SchemaTools;
+  private employeeSearchTools: EmployeeSearchTools;
+  private workforceTools: WorkforceTools;
+  private explainTool: ExplainTool;
+  private tableResources: TableResources;
+  private queryPrompts: QueryPrompts;
+  private authenticator: Authenticator | null;
+  private eventStore: SessionEventStore | null;
   private config: ServerConfig;
   private app: express.Application;
   private sessions: Map<string, SessionInfo> = new Map();
   private sessionTTL: number = 30 * 60 * 1000; // 30 minutes default
+  private maxSessions: number;
+  private sessionEviction: 'lru' | 'reject';
+  private datasetWatcher: DatasetWatcher | null = null;
+  private employeeWriteTools: EmployeeWriteTools | null = null; // Only set when writes are enabled
+  private auditLog: AuditLog | null;
+  private auditLogTool: AuditLogTool | null;
+  private cursorLimits: CursorLimits;
 
   constructor(config: ServerConfig) {
     this.config = config;
     this.app = express();
-    this.dbManager = new DatabaseManager();
-    this.dbQueryTool = new DbQueryTool(this.dbManager);
+    this.dbManager = new DatabaseManager(config.limits, config.pool);
+    const guardrails = new QueryGuardrails(this.dbManager, config.guardrails);
+    this.dbQueryTool = new DbQueryTool(this.dbManager, config.pageSize, config.resultCache, guardrails);
+    this.explainTool = new ExplainTool(this.dbManager, guardrails);
+    this.schemaTools = new SchemaTools(this.dbManager);
+    this.employeeSearchTools = new EmployeeSearchTools(this.dbManager);
+    this.workforceTools = new WorkforceTools(this.dbManager);
+    this.tableResources = new TableResources(this.dbManager);
+    this.queryPrompts = new QueryPrompts(this.dbManager, this.tableResources);
+    this.authenticator = config.auth ? new Authenticator(config.auth, `http://${config.host}:${config.port}/mcp`) : null;
+    this.eventStore = createEventStore(config.eventStore);
+
+    // Push resource updates to sessions subscribed to a changed table
+    this.dbManager.onTableChanged(table => this.notifyResourceSubscribers(table));
     
     // Set configurable session TTL
     this.sessionTTL = config.sessionTTL || 30 * 60 * 1000; // Default 30 minutes
+    this.maxSessions = config.maxSessions ?? 100;
+    this.sessionEviction = config.sessionEviction ?? 'lru';
 
     // Set up session cleanup interval
     setInterval(() => this.cleanupExpiredSessions(), 5 * 60 * 1000); // Check every 5 minutes
+
+    // Each open cursor holds a pooled connection, so one is always left for other queries
+    const poolSize = config.pool?.maxConnections ?? DEFAULT_MAX_CONNECTIONS;
+    this.cursorLimits = new CursorLimits(poolSize - 1, config.cursorIdleTimeoutMs);
+    setInterval(() => this.closeIdleCursors(), 60 * 1000);
+
+    // Record every tool call; expired audit files are deleted hourly
+    this.auditLog = createAuditLog(config.audit);
+    this.auditLogTool = this.auditLog && new AuditLogTool(this.auditLog);
+    setInterval(() => this.purgeExpiredAuditLogs(), 60 * 60 * 1000);
   }
 
   /**
    * Attach MCP request handlers to a server instance
    * This eliminates duplication by providing a reusable handler setup function
    */
-  private attachHandlers(server: Server): void {
+  private attachHandlers(server: Server, sessionId: string, principal: Principal | null): void {
     // Handle list tools request
     server.setRequestHandler(ListToolsRequestSchema, async () => {
       return {
-        tools: [this.dbQueryTool.getToolDefinition()]
+        tools: [
+          this.dbQueryTool.getToolDefinition(principal),
+          this.explainTool.getToolDefinition(this.isAdmin(principal)),
+          ...this.schemaTools.getToolDefinitions(principal),
+          ...this.employeeSearchTools.getToolDefinitions(principal),
+          ...this.workforceTools.getToolDefinitions(principal),
+          ...(this.employeeWriteTools?.getToolDefinitions(principal) ?? []),
+          ...(this.auditLogTool && this.isAdmin(principal) ? [this.auditLogTool.getToolDefinition()] : [])
+        ]
+      };
+    });
+
+    // Handle resource discovery and reads
+    server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      return {
+        resources: this.tableResources.listResources(principal)
       };
     });
 
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      return {
+        resourceTemplates: this.tableResources.listResourceTemplates(principal)
+      };
+    });
+
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      return await this.tableResources.readResource(request.params.uri, principal);
+    });
+
+    // Track resource subscriptions per session
+    server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      this.sessions.get(sessionId)?.subscriptions.add(request.params.uri);
+      return {};
+    });
+
+    server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      this.sessions.get(sessionId)?.subscriptions.delete(request.params.uri);
+      return {};
+    });
+
+    // Handle prompt discovery and expansion
+    server.setRequestHandler(ListPromptsRequestSchema, async () => {
+      return {
+        prompts: await this.queryPrompts.listPrompts(principal)
+      };
+    });
+
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      return await this.queryPrompts.getPrompt(request.params.name, request.params.arguments ?? {}, principal);
+    });
+
     // Handle call tool request
-    server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      const { name, arguments: args } = request.params;
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+      return this.auditToolCall(sessionId, principal, request.params, async () => {
+        const { name, arguments: args } = request.params;
 
-      if (name === 'dbQueryTool') {
-        try {
-          if (!args) {
-            throw new Error('Arguments are required for dbQueryTool');
-          }
-          
-          // Use the new streaming execute method
-          const result = await this.dbQueryTool.streamExecute(args as any);
-          return result;
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-          return {
-            content: [
-              {
-                type: 'text',
-                text: errorMessage // Plain text instead of JSON.stringify
+        if (name === 'dbQueryTool') {
+          return this.trackCall(sessionId, extra, async (signal, callId) => {
+            const progressToken = request.params._meta?.progressToken;
+            const options: StreamExecuteOptions = { signal, principal, sessionId };
+            const cursors = this.sessions.get(sessionId)?.cursors;
+            if (cursors) {
+              options.cursors = cursors;
+            }
+            if (progressToken !== undefined) {
+              options.onProgress = async (progress) => {
+                await extra.sendNotification({
+                  method: 'notifications/progress',
+                  params: {
+                    progressToken,
+                    progress: progress.rows,
+                    message: `${progress.rows} rows in ${progress.chunks} chunks (${progress.elapsedMs}ms elapsed)`
+                  }
+                });
+              };
+            }
+
+            try {
+              if (!args) {
+                throw new QueryToolError('validation', 'Arguments are required for dbQueryTool');
+              }
+
+              // Use the new streaming execute method
+              const result = await this.dbQueryTool.streamExecute(args as any, options);
+              return result;
+            } catch (error) {
+              if (error instanceof QueryCancelledError) {
+                console.log(`Cancelled dbQueryTool call ${callId} in session ${sessionId}`);
+              } else if (error instanceof QueryTimeoutError) {
+                console.log(`dbQueryTool call ${callId} in session ${sessionId} timed out after ${error.timeoutMs}ms`);
               }
-            ],
-            isError: true
-          };
+              return this.dbQueryTool.errorResult(error);
+            }
+          });
         }
+
+        if (name === 'explainQuery') {
+          return this.trackCall(sessionId, extra, signal =>
+            this.explainTool.call(args ?? {}, { principal, sessionId, admin: this.isAdmin(principal), signal }));
+        }
+
+        if (this.schemaTools.handles(name)) {
+          return this.trackCall(sessionId, extra, signal => this.schemaTools.call(name, args ?? {}, principal, signal));
+        }
+
+        if (this.employeeSearchTools.handles(name)) {
+          return this.trackCall(sessionId, extra, signal => this.employeeSearchTools.call(name, args ?? {}, principal, sessionId, signal));
+        }
+
+        if (this.workforceTools.handles(name)) {
+          return this.trackCall(sessionId, extra, signal => this.workforceTools.call(name, args ?? {}, principal, sessionId, signal));
+        }
+
+        if (name === 'queryAuditLog' && this.auditLogTool && this.isAdmin(principal)) {
+          return await this.auditLogTool.call(args ?? {});
+        }
+
+        if (this.employeeWriteTools?.handles(name)) {
+          return await this.employeeWriteTools.call(name, args ?? {}, principal);
+        }
+
+        throw new Error(`Unknown tool: ${name}`);
+      });
+    });
+  }
+
+  /**
+   * Run a tool call under an AbortController registered in the session's in-flight calls, so it is
+   * interrupted by notifications/cancelled from the client or when the session is terminated
+   */
+  private async trackCall<T>(
+    sessionId: string,
+    extra: { signal: AbortSignal; requestId: string | number },
+    run: (signal: AbortSignal, callId: string) => Promise<T>
+  ): Promise<T> {
+    const controller = new AbortController();
+    const onClientCancel = () => controller.abort(extra.signal.reason ?? 'Cancelled by client');
+    extra.signal.addEventListener('abort', onClientCancel);
+    const callId = String(extra.requestId);
+    this.sessions.get(sessionId)?.inFlight.set(callId, controller);
+
+    try {
+      return await run(controller.signal, callId);
+    } finally {
+      extra.signal.removeEventListener('abort', onClientCancel);
+      this.sessions.get(sessionId)?.inFlight.delete(callId);
+    }
+  }
+
+  /**
+   * Run a tool call and record it in the audit log: who called which tool with what SQL and parameters,
+   * how long it took, how many rows it returned and how it ended
+   */
+  private async auditToolCall(
+    sessionId: string,
+    principal: Principal | null,
+    params: { name: string; arguments?: Record<string, unknown> | undefined },
+    call: () => Promise<any>
+  ): Promise<any> {
+    if (!this.auditLog) {
+      return call();
+    }
+
+    const startedAt = Date.now();
+    let result: any;
+    let thrown: unknown = null;
+    try {
+      result = await call();
+      return result;
+    } catch (error) {
+      thrown = error;
+      throw error;
+    } finally {
+      const args = params.arguments ?? {};
+      const isQuery = params.name === 'dbQueryTool';
+      const error = thrown
+        ? { code: null, message: thrown instanceof Error ? thrown.message : String(thrown) }
+        : result?.isError ? result.structuredContent?.error ?? { code: 'internal', message: result.content?.[0]?.text ?? null } : null;
+
+      let outcome: AuditOutcome = 'success';
+      if (thrown || error?.code === 'internal') {
+        outcome = 'error';
+      } else if (error?.code === 'cancelled' || error?.code === 'timeout') {
+        outcome = error.code;
+      } else if (error) {
+        outcome = 'rejected';
       }
 
-      throw new Error(`Unknown tool: ${name}`);
+      this.auditLog.record({
+        sessionId,
+        principal: principal && { id: principal.id, method: principal.method, roles: principal.roles },
+        tool: params.name,
+        sql: isQuery && typeof args.sql === 'string' ? args.sql : null,
+        normalizedSql: isQuery && typeof args.sql === 'string' ? normalizeSql(args.sql) : null,
+        params: isQuery ? (args.params as QueryParams | undefined) ?? null : null,
+        arguments: isQuery ? null : args,
+        cursor: isQuery && typeof args.cursor === 'string' ? args.cursor : null,
+        rowCount: typeof result?.structuredContent?.rowCount === 'number' ? result.structuredContent.rowCount : null,
+        durationMs: Date.now() - startedAt,
+        outcome,
+        errorCode: error?.code ?? null,
+        reason: error?.message ?? null
+      });
+    }
+  }
+
+  /**
+   * Delete audit log files past their retention period
+   */
+  private purgeExpiredAuditLogs(): void {
+    this.auditLog?.purgeExpired()
+      .then(purged => {
+        if (purged > 0) {
+          console.log(`Deleted ${purged} expired audit log file(s)`);
+        }
+      })
+      .catch(error => {
+        console.error('Failed to delete expired audit log files:', error);
+      });
+  }
+
+  /**
+   * Send notifications/resources/updated to every session subscribed to a resource backed by the table
+   */
+  private notifyResourceSubscribers(table: string): void {
+    for (const [sessionId, session] of this.sessions.entries()) {
+      for (const uri of session.subscriptions) {
+        if (this.tableResources.isAffectedBy(uri, table)) {
+          session.server.sendResourceUpdated({ uri }).catch(error => {
+            console.error(`Failed to notify session ${sessionId} about ${uri}:`, error);
+          });
+        }
+      }
+    }
+  }
+
+  /**
+   * Check whether a request's principal may use a session: only the principal that created it can
+   */
+  private isSessionOwner(owner: Pick<Principal, 'id' | 'method'> | null, principal: Principal | undefined): boolean {
+    if (!owner) {
+      return !this.authenticator;
+    }
+    return principal?.method === owner.method && principal.id === owner.id;
+  }
+
+  /**
+   * Create a session with its own MCP server and transport
+   */
+  private async createSession(sessionId: string, principal: Principal | null): Promise<SessionInfo> {
+    if (this.sessions.size >= this.maxSessions && !this.evictSession()) {
+      throw new SessionLimitError(this.maxSessions);
+    }
+
+    const owner = principal && { id: principal.id, method: principal.method };
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => sessionId,
+      ...(this.eventStore && { eventStore: scopeToSession(this.eventStore, sessionId, owner) })
+    });
+
+    const server = new Server(
+      {
+        name: 'mcp-duckdb-server',
+        version: '1.0.0',
+        description: 'MCP server with DuckDB integration for employee data queries'
+      },
+      {
+        capabilities: {
+          tools: {},
+          prompts: {},
+          resources: {
+            subscribe: true
+          }
+        }
+      }
+    );
+
+    // Use the extracted handler attachment method to avoid duplication
+    this.attachHandlers(server, sessionId, principal);
+
+    // Record the session before any event can be stored for it
+    const now = new Date();
+    await this.eventStore?.registerSession({ sessionId, owner, createdAt: now.toISOString() });
+
+    // Connect server to transport
+    await server.connect(transport);
+
+    // Store session with enhanced tracking
+    const session: SessionInfo = {
+      server,
+      transport,
+      createdAt: now,
+      lastAccessed: now,
+      inFlight: new Map(),
+      subscriptions: new Set(),
+      cursors: new ResultCursorStore(this.cursorLimits),
+      principal
+    };
+    this.sessions.set(sessionId, session);
+    return session;
+  }
+
+  /**
+   * Find the session a request names. Returns null when the session is unknown, for example because the
+   * server restarted since it was created, or belongs to a different principal; the client then
+   * initializes a new session.
+   */
+  private findSession(sessionId: string, principal: Principal | undefined): SessionInfo | null {
+    const session = this.sessions.get(sessionId);
+    return session && this.isSessionOwner(session.principal, principal) ? session : null;
+  }
+
+  /**
+   * Make room for a new session under the eviction policy. Only sessions without running tool calls
+   * are evicted, least recently used first. Returns false when no session can be evicted.
+   */
+  private evictSession(): boolean {
+    if (this.sessionEviction === 'reject') {
+      return false;
+    }
+
+    const idle = Array.from(this.sessions.entries())
+      .filter(([, session]) => session.inFlight.size === 0)
+      .sort(([, a], [, b]) => a.lastAccessed.getTime() - b.lastAccessed.getTime())[0];
+    if (!idle) {
+      return false;
+    }
+    console.log(`Evicting least recently used session ${idle[0]} (session limit ${this.maxSessions} reached)`);
+    return this.terminateSession(idle[0], 'Session evicted');
+  }
+
+  /**
+   * Terminate a session: interrupt tool calls still running in it, close its cursors, purge its stored
+   * events and close its MCP server and transport, which ends any open SSE streams
+   */
+  private terminateSession(sessionId: string, reason: string): boolean {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return false;
+    }
+
+    for (const controller of session.inFlight.values()) {
+      controller.abort(reason);
+    }
+    session.cursors.closeAll();
+    this.dbManager.releaseSession(sessionId);
+    this.sessions.delete(sessionId);
+    this.eventStore?.purgeSession(sessionId).catch(error => {
+      console.error(`Failed to purge stored events for session ${sessionId}:`, error);
+    });
+    session.server.close().catch(error => {
+      console.error(`Failed to close session ${sessionId}:`, error);
     });
+    return true;
+  }
+
+  /**
+   * Check whether a principal may use admin endpoints and tools; everyone may when authentication is disabled
+   */
+  private isAdmin(principal: Principal | null): boolean {
+    return !this.authenticator || this.authenticator.isAdmin(principal ?? undefined);
+  }
+
+  /**
+   * Reject a request to an admin endpoint unless its principal holds an admin role. Admin endpoints are
+   * open when authentication is disabled, like every other endpoint.
+   */
+  private requireAdmin(res: express.Response): boolean {
+    if (!this.isAdmin(res.locals.principal ?? null)) {
+      res.status(403).json({ error: 'forbidden', error_description: 'This endpoint requires an admin role' });
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Dataset status for the public health check when authentication is enabled: only when each dataset was
+   * loaded and whether its last reload failed, since columns, dialect and row counts describe the data
+   */
+  private datasetHealth(): Array<{ name: string; loadedAt: string; status: 'ok' | 'error' }> {
+    return this.dbManager.getDatasetStatus().map(dataset => ({
+      name: dataset.name,
+      loadedAt: dataset.loadedAt,
+      status: dataset.lastError ? 'error' : 'ok'
+    }));
+  }
+
+  /**
+   * Reload a dataset after its files changed, logging instead of throwing when the new data is rejected
+   */
+  private reloadChangedDataset(name: string): void {
+    console.log(`Source files of dataset ${name} changed; reloading`);
+    this.dbManager.reloadDataset(name).catch(error => {
+      console.error(error instanceof Error ? error.message : error);
+    });
+  }
+
+  /**
+   * Send a JSON-RPC error response that is not tied to a request id
+   */
+  private sendJsonRpcError(res: express.Response, status: number, code: number, message: string): void {
+    res.status(status).json({
+      jsonrpc: '2.0',
+      error: {
+        code,
+        message
+      },
+      id: null
+    });
+  }
+
+  /**
+   * Terminate a session on behalf of its owner; other principals get the same 404 as for unknown sessions
+   */
+  private handleSessionDelete(sessionId: string, res: express.Response): void {
+    const session = this.sessions.get(sessionId);
+
+    if (session && this.isSessionOwner(session.principal, res.locals.principal) && this.terminateSession(sessionId, 'Session terminated')) {
+      console.log(`Manually terminated session: ${sessionId}`);
+      res.json({
+        success: true,
+        message: `Session ${sessionId} terminated successfully`
+      });
+    } else {
+      res.status(404).json({
+        success: false,
+        message: `Session ${sessionId} not found`
+      });
+    }
   }
 
   /**
@@ -100,12 +579,31 @@ class MCPDuckDBServer {
 
     for (const sessionId of expiredSessions) {
       console.log(`Cleaning up expired session: ${sessionId}`);
-      this.sessions.delete(sessionId);
+      this.terminateSession(sessionId, 'Session expired');
     }
 
     if (expiredSessions.length > 0) {
       console.log(`Cleaned up ${expiredSessions.length} expired sessions`);
     }
+
+    // Sessions persisted before a restart and never resumed have no live entry to expire
+    this.eventStore?.purgeInactive(this.sessionTTL, new Set(this.sessions.keys()))
+      .then(purged => {
+        if (purged > 0) {
+          console.log(`Purged stored events of ${purged} inactive sessions`);
+        }
+      })
+      .catch(error => console.error('Failed to purge inactive sessions from the event store:', error));
+  }
+
+  /**
+   * Close result cursors left idle past the cursor timeout, releasing their connections
+   */
+  private closeIdleCursors(): void {
+    const closed = this.cursorLimits.closeIdle();
+    if (closed > 0) {
+      console.log(`Closed ${closed} idle result cursors`);
+    }
   }
 
 
@@ -117,14 +615,43 @@ class MCPDuckDBServer {
     try {
       console.log('Initializing MCP DuckDB Server...');
 
-      // Initialize database
-      await this.dbManager.initialize(this.config.csvFilePath);
-      console.log('Database initialized successfully with expanded dataset (70 employees)');
+      // Access policies must be in place before any query can run
+      if (this.config.policies) {
+        if (!this.authenticator) {
+          console.warn('⚠️  Access policies are configured but authentication is disabled, so every caller is unrestricted');
+        }
+        this.dbManager.setAccessPolicies(this.config.policies);
+      }
+
+      // Initialize database with the configured datasets (or the default employees CSV)
+      await this.dbManager.initialize(this.config.datasets ?? this.config.csvFilePath);
+
+      // Opt-in employee write tools
+      if (this.config.writes?.enabled) {
+        if (!this.authenticator) {
+          console.warn('⚠️  Employee write tools are enabled but authentication is disabled, so every caller can change records');
+        }
+        this.employeeWriteTools = new EmployeeWriteTools(this.dbManager, this.config.writes);
+        await this.employeeWriteTools.initialize();
+      }
+
+      // Apply audit log retention at startup, then hourly
+      this.purgeExpiredAuditLogs();
+
+      // Reload datasets when their source files change, without restarting sessions
+      if (this.config.watchDatasets !== false) {
+        this.datasetWatcher = new DatasetWatcher(name => this.reloadChangedDataset(name), this.config.reloadDebounceMs);
+        for (const dataset of this.dbManager.getCatalog().list()) {
+          if (!this.dbManager.isPinned(dataset.name)) {
+            this.datasetWatcher.watch(dataset);
+          }
+        }
+      }
 
       // Simplified Express middleware for /mcp route
       this.app.use((req, res, next) => {
         if (req.path.startsWith('/mcp')) {
-          // Skip all middleware processing for MCP routes - let transport handle raw body
+          // MCP routes parse their own bodies so they can spot initialize requests
           next();
         } else {
           // Apply standard middleware for other routes
@@ -135,7 +662,8 @@ class MCPDuckDBServer {
       // Add CORS headers for development
       this.app.use((req, res, next) => {
         res.header('Access-Control-Allow-Origin', '*');
-        res.header('Access-Control-Allow-Headers', 'Origin, X-Requested-With, Content-Type, Accept, Authorization, mcp-session-id');
+        res.header('Access-Control-Allow-Headers', 'Origin, X-Requested-With, Content-Type, Accept, Authorization, X-API-Key, mcp-session-id');
+        res.header('Access-Control-Expose-Headers', 'WWW-Authenticate, mcp-session-id');
         res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
         if (req.method === 'OPTIONS') {
           res.sendStatus(200);
@@ -144,6 +672,23 @@ class MCPDuckDBServer {
         }
       });
 
+      // Authenticate MCP, schema and admin requests; health and discovery endpoints stay public
+      if (this.authenticator) {
+        await this.authenticator.initialize();
+        this.app.use(['/mcp', '/schema', '/sessions', '/datasets', '/audit'], this.authenticator.middleware());
+
+        this.app.get([PROTECTED_RESOURCE_METADATA_PATH, '/.well-known/oauth-protected-resource'], (_req, res) => {
+          const metadata = this.authenticator!.getResourceMetadata();
+          if (metadata) {
+            res.json(metadata);
+          } else {
+            res.status(404).json({ error: 'OAuth is not configured' });
+          }
+        });
+      } else {
+        console.warn('⚠️  Authentication disabled: set AUTH_CONFIG to require API keys or OAuth tokens on /mcp');
+      }
+
       // Health check endpoint
       this.app.get('/health', (_req, res) => {
         res.json({
@@ -151,14 +696,17 @@ class MCPDuckDBServer {
           server: 'mcp-duckdb-server',
           version: '1.0.0',
           timestamp: new Date().toISOString(),
-          activeSessions: this.sessions.size
+          activeSessions: this.sessions.size,
+          datasets: this.authenticator ? this.datasetHealth() : this.dbManager.getDatasetStatus(),
+          resultCache: this.dbQueryTool.getCacheStats(),
+          connectionPool: this.dbManager.getPoolStats()
         });
       });
 
       // Schema endpoint for debugging
       this.app.get('/schema', async (_req, res) => {
         try {
-          const schema = await this.dbQueryTool.getSchema();
+          const schema = await this.dbQueryTool.getSchema(res.locals.principal ?? null);
           res.json(JSON.parse(schema));
         } catch (error) {
           res.status(500).json({
@@ -168,78 +716,144 @@ class MCPDuckDBServer {
         }
       });
 
-      // DELETE endpoint for manual session termination
-      this.app.delete('/mcp/:sessionId', (req, res) => {
-        const sessionId = req.params.sessionId;
-        
-        if (this.sessions.has(sessionId)) {
-          this.sessions.delete(sessionId);
-          console.log(`Manually terminated session: ${sessionId}`);
-          res.json({ 
-            success: true, 
-            message: `Session ${sessionId} terminated successfully` 
-          });
-        } else {
-          res.status(404).json({ 
-            success: false, 
-            message: `Session ${sessionId} not found` 
-          });
+      // Admin listing of open sessions
+      this.app.get('/sessions', (_req, res) => {
+        if (!this.requireAdmin(res)) {
+          return;
         }
+
+        const now = Date.now();
+        res.json({
+          count: this.sessions.size,
+          maxSessions: this.maxSessions,
+          sessions: Array.from(this.sessions.entries()).map(([sessionId, session]) => {
+            const client = session.server.getClientVersion();
+            return {
+              id: sessionId,
+              principal: session.principal && { id: session.principal.id, method: session.principal.method, roles: session.principal.roles },
+              client: client ? { name: client.name, version: client.version } : null,
+              createdAt: session.createdAt.toISOString(),
+              ageMs: now - session.createdAt.getTime(),
+              lastAccessed: session.lastAccessed.toISOString(),
+              idleMs: now - session.lastAccessed.getTime(),
+              inFlightCalls: session.inFlight.size,
+              openCursors: session.cursors.size,
+              subscriptions: session.subscriptions.size
+            };
+          })
+        });
       });
 
-      // Set up HTTP route for MCP communication with enhanced session management
-      this.app.post('/mcp', async (req, res) => {
+      // Admin search of the tool call audit log
+      this.app.get('/audit', async (req, res) => {
+        if (!this.requireAdmin(res)) {
+          return;
+        }
+        if (!this.auditLog) {
+          res.status(404).json({ error: 'not_found', error_description: 'The audit log is disabled' });
+          return;
+        }
+
+        let filter;
         try {
-          const sessionId = req.headers['mcp-session-id'] as string || crypto.randomUUID();
-          const now = new Date();
+          filter = parseAuditQuery(req.query as Record<string, unknown>);
+        } catch (error) {
+          res.status(400).json({ error: 'invalid_request', error_description: error instanceof Error ? error.message : String(error) });
+          return;
+        }
 
-          let session = this.sessions.get(sessionId);
+        try {
+          const entries = await this.auditLog.query(filter);
+          res.json({ count: entries.length, entries });
+        } catch (error) {
+          res.status(500).json({
+            error: 'Failed to read the audit log',
+            message: error instanceof Error ? error.message : 'Unknown error'
+          });
+        }
+      });
 
-          if (!session) {
-            // Create new session
-            console.log(`Creating new MCP session: ${sessionId}`);
+      // Admin view of each dataset's load status and diagnostics
+      this.app.get('/datasets', (_req, res) => {
+        if (!this.requireAdmin(res)) {
+          return;
+        }
+        res.json({ datasets: this.dbManager.getDatasetStatus() });
+      });
 
-            const transport = new StreamableHTTPServerTransport({
-              sessionIdGenerator: () => sessionId
-            });
+      // Admin trigger to reload a dataset from its source files
+      this.app.post('/datasets/:name/reload', async (req, res) => {
+        if (!this.requireAdmin(res)) {
+          return;
+        }
+        if (!this.dbManager.getCatalog().get(req.params.name)) {
+          res.status(404).json({ error: 'not_found', error_description: `Unknown dataset: ${req.params.name}` });
+          return;
+        }
 
-            const server = new Server(
-              {
-                name: 'mcp-duckdb-server',
-                version: '1.0.0',
-                description: 'MCP server with DuckDB integration for employee data queries'
-              },
-              {
-                capabilities: {
-                  tools: {}
-                }
-              }
-            );
+        try {
+          res.json(await this.dbManager.reloadDataset(req.params.name));
+        } catch (error) {
+          res.status(422).json({
+            error: 'reload_failed',
+            error_description: error instanceof Error ? error.message : 'Unknown error'
+          });
+        }
+      });
 
-            // Use the extracted handler attachment method to avoid duplication
-            this.attachHandlers(server);
+      // Session termination as defined by the Streamable HTTP transport
+      this.app.delete('/mcp', (req, res) => {
+        const sessionId = req.headers['mcp-session-id'];
+        if (typeof sessionId !== 'string') {
+          this.sendJsonRpcError(res, 400, -32000, 'Bad Request: Mcp-Session-Id header is required');
+          return;
+        }
+        this.handleSessionDelete(sessionId, res);
+      });
 
-            // Connect server to transport
-            await server.connect(transport);
+      // DELETE endpoint for manual session termination
+      this.app.delete('/mcp/:sessionId', (req, res) => {
+        this.handleSessionDelete(req.params.sessionId, res);
+      });
 
-            // Store session with enhanced tracking
-            session = { 
-              server, 
-              transport, 
-              createdAt: now, 
-              lastAccessed: now 
-            };
-            this.sessions.set(sessionId, session);
-          } else {
-            console.log(`Reusing existing MCP session: ${sessionId}`);
+      // Set up HTTP route for MCP communication. Sessions are only created by an initialize request,
+      // under a server-generated id; any other request must name a live session.
+      this.app.post('/mcp', express.json({ limit: '4mb' }), async (req, res) => {
+        try {
+          const requestedId = req.headers['mcp-session-id'];
+          const isInitialize = Array.isArray(req.body) ? req.body.some(isInitializeRequest) : isInitializeRequest(req.body);
+          let session: SessionInfo | null;
+
+          if (typeof requestedId === 'string') {
+            session = this.findSession(requestedId, res.locals.principal);
+            if (!session) {
+              // Unknown and foreign sessions look the same, so session ids cannot be probed
+              if (this.sessions.has(requestedId)) {
+                console.warn(`Rejected access to session ${requestedId} by principal ${res.locals.principal?.id}`);
+              }
+              this.sendJsonRpcError(res, 404, -32001, 'Session not found');
+              return;
+            }
+            console.log(`Reusing existing MCP session: ${requestedId}`);
             // Update last accessed time
-            session.lastAccessed = now;
+            session.lastAccessed = new Date();
+          } else if (isInitialize) {
+            const sessionId = crypto.randomUUID();
+            console.log(`Creating new MCP session: ${sessionId}${res.locals.principal ? ` for ${res.locals.principal.id}` : ''}`);
+            session = await this.createSession(sessionId, res.locals.principal ?? null);
+          } else {
+            this.sendJsonRpcError(res, 400, -32000, 'Bad Request: Mcp-Session-Id header is required');
+            return;
           }
 
           // Handle the request with the session's transport
-          await session.transport.handleRequest(req, res);
+          await session.transport.handleRequest(req, res, req.body);
 
         } catch (error) {
+          if (error instanceof SessionLimitError) {
+            this.sendJsonRpcError(res, 503, -32000, error.message);
+            return;
+          }
           console.error('MCP request handling error:', error);
           if (!res.headersSent) {
             res.status(500).json({
@@ -254,6 +868,39 @@ class MCPDuckDBServer {
         }
       });
 
+      // Standalone SSE stream for server-initiated messages; with Last-Event-ID, replays a dropped stream of this
+      // or an earlier session of the same owner
+      this.app.get('/mcp', async (req, res) => {
+        try {
+          const sessionId = req.headers['mcp-session-id'];
+          if (typeof sessionId !== 'string') {
+            this.sendJsonRpcError(res, 400, -32000, 'Bad Request: Mcp-Session-Id header is required');
+            return;
+          }
+
+          const session = this.findSession(sessionId, res.locals.principal);
+          if (!session) {
+            this.sendJsonRpcError(res, 404, -32001, 'Session not found');
+            return;
+          }
+
+          session.lastAccessed = new Date();
+          await session.transport.handleRequest(req, res);
+        } catch (error) {
+          console.error('MCP stream handling error:', error);
+          if (!res.headersSent) {
+            res.status(500).json({
+              jsonrpc: '2.0',
+              error: {
+                code: -32603,
+                message: 'Internal error'
+              },
+              id: null
+            });
+          }
+        }
+      });
+
       console.log(`MCP server configured with StreamableHTTPTransport (Session TTL: ${this.sessionTTL / 1000}s)`);
 
     } catch (error) {
@@ -279,7 +926,9 @@ class MCPDuckDBServer {
         // Graceful shutdown
         process.on('SIGINT', async () => {
           console.log('\\n🔄 Gracefully shutting down...');
+          this.datasetWatcher?.close();
           httpServer.close(async () => {
+            await this.auditLog?.flush();
             await this.dbManager.close();
             console.log('✅ Server shutdown complete');
             process.exit(0);
@@ -288,7 +937,9 @@ class MCPDuckDBServer {
 
         process.on('SIGTERM', async () => {
           console.log('\\n🔄 Gracefully shutting down...');
+          this.datasetWatcher?.close();
           httpServer.close(async () => {
+            await this.auditLog?.flush();
             await this.dbManager.close();
             console.log('✅ Server shutdown complete');
             process.exit(0);
@@ -327,10 +978,117 @@ async function main() {
     const config: ServerConfig = {
       port: parseInt(process.env.PORT || '3000'),
       host: process.env.HOST || 'localhost',
-      csvFilePath: path.join(process.cwd(), 'data', 'employees.csv')
+      csvFilePath: path.join(process.cwd(), 'data', 'employees.csv'),
+      ...(process.env.PAGE_SIZE && { pageSize: parseInt(process.env.PAGE_SIZE) }),
+      ...(process.env.CURSOR_IDLE_TIMEOUT_MS && { cursorIdleTimeoutMs: parseInt(process.env.CURSOR_IDLE_TIMEOUT_MS) }),
+      // Query timeout, result size limits and DuckDB resource settings
+      limits: {
+        ...(process.env.QUERY_TIMEOUT_MS && { queryTimeoutMs: parseInt(process.env.QUERY_TIMEOUT_MS) }),
+        ...(process.env.MAX_RESULT_ROWS && { maxResultRows: parseInt(process.env.MAX_RESULT_ROWS) }),
+        ...(process.env.MAX_RESULT_BYTES && { maxResultBytes: parseInt(process.env.MAX_RESULT_BYTES) }),
+        ...(process.env.DUCKDB_MEMORY_LIMIT && { memoryLimit: process.env.DUCKDB_MEMORY_LIMIT }),
+        ...(process.env.DUCKDB_THREADS && { threads: parseInt(process.env.DUCKDB_THREADS) }),
+        ...(process.env.DUCKDB_TEMP_DIRECTORY && { tempDirectory: process.env.DUCKDB_TEMP_DIRECTORY })
+      },
+      // DuckDB connection pool shared by all sessions
+      pool: {
+        ...(process.env.DB_POOL_SIZE && { maxConnections: parseInt(process.env.DB_POOL_SIZE) }),
+        ...(process.env.DB_POOL_MAX_WAIT_MS && { acquireTimeoutMs: parseInt(process.env.DB_POOL_MAX_WAIT_MS) })
+      },
+      // Plan-based checks before queries run
+      guardrails: {
+        ...(process.env.GUARDRAIL_MAX_ESTIMATED_ROWS && { maxEstimatedRows: parseInt(process.env.GUARDRAIL_MAX_ESTIMATED_ROWS) }),
+        ...(process.env.GUARDRAIL_MAX_SCANNED_ROWS && { maxScannedRows: parseInt(process.env.GUARDRAIL_MAX_SCANNED_ROWS) }),
+        ...(process.env.GUARDRAIL_MAX_JOINS && { maxJoins: parseInt(process.env.GUARDRAIL_MAX_JOINS) }),
+        ...(process.env.GUARDRAIL_ACTION === 'confirm' && { action: 'confirm' as const })
+      },
+      // Cache of complete query results
+      resultCache: {
+        ...(process.env.RESULT_CACHE_MAX_BYTES && { maxBytes: parseInt(process.env.RESULT_CACHE_MAX_BYTES) }),
+        ...(process.env.RESULT_CACHE_MAX_ENTRIES && { maxEntries: parseInt(process.env.RESULT_CACHE_MAX_ENTRIES) }),
+        ...(process.env.RESULT_CACHE_TTL_MS && { ttlMs: parseInt(process.env.RESULT_CACHE_TTL_MS) })
+      }
     };
 
-    console.log('Starting MCP DuckDB Server with config:', config);
+    // Optional authentication (API keys and/or OAuth JWKS) for the MCP endpoint
+    if (process.env.AUTH_CONFIG) {
+      config.auth = await loadAuthConfigFile(process.env.AUTH_CONFIG);
+    }
+
+    // Optional per-principal table access, column masking and row filters
+    if (process.env.POLICIES_CONFIG) {
+      config.policies = await loadPolicyConfigFile(process.env.POLICIES_CONFIG);
+    }
+
+    // Stored SSE events for resumable streams: memory (default), file, or none
+    if (process.env.EVENT_STORE) {
+      const eventStore: EventStoreConfig = { type: process.env.EVENT_STORE as EventStoreConfig['type'] };
+      if (process.env.EVENT_STORE_DIR) {
+        eventStore.directory = process.env.EVENT_STORE_DIR;
+      }
+      if (process.env.EVENT_STORE_MAX_EVENTS_PER_SESSION) {
+        eventStore.maxEventsPerSession = parseInt(process.env.EVENT_STORE_MAX_EVENTS_PER_SESSION);
+      }
+      if (process.env.EVENT_STORE_MAX_EVENTS) {
+        eventStore.maxEvents = parseInt(process.env.EVENT_STORE_MAX_EVENTS);
+      }
+      config.eventStore = eventStore;
+    }
+
+    // Dataset file watching
+    if (process.env.WATCH_DATASETS) {
+      config.watchDatasets = process.env.WATCH_DATASETS !== 'false';
+    }
+    if (process.env.RELOAD_DEBOUNCE_MS) {
+      config.reloadDebounceMs = parseInt(process.env.RELOAD_DEBOUNCE_MS);
+    }
+
+    // Employee write tools, disabled unless ENABLE_WRITES=true
+    if (process.env.ENABLE_WRITES === 'true') {
+      config.writes = {
+        enabled: true,
+        ...(process.env.WRITE_ROLES && { roles: process.env.WRITE_ROLES.split(',').map(role => role.trim()).filter(Boolean) }),
+        ...(process.env.WRITE_PRINCIPALS && { principals: process.env.WRITE_PRINCIPALS.split(',').map(id => id.trim()).filter(Boolean) }),
+        ...(process.env.WRITE_PERSIST === 'database' && { persist: 'database' as const }),
+        ...(process.env.WRITE_DATABASE_PATH && { databasePath: process.env.WRITE_DATABASE_PATH }),
+        ...(process.env.CHANGE_LOG_PATH && { changeLogPath: process.env.CHANGE_LOG_PATH })
+      };
+    }
+
+    // Tool call audit log: JSONL files (default) or none
+    if (process.env.AUDIT_LOG || process.env.AUDIT_LOG_DIR || process.env.AUDIT_RETENTION_DAYS || process.env.AUDIT_MAX_FILE_BYTES) {
+      const audit: AuditLogConfig = { type: process.env.AUDIT_LOG === 'none' ? 'none' : 'file' };
+      if (process.env.AUDIT_LOG_DIR) {
+        audit.directory = process.env.AUDIT_LOG_DIR;
+      }
+      if (process.env.AUDIT_RETENTION_DAYS) {
+        audit.retentionDays = parseInt(process.env.AUDIT_RETENTION_DAYS);
+      }
+      if (process.env.AUDIT_MAX_FILE_BYTES) {
+        audit.maxFileBytes = parseInt(process.env.AUDIT_MAX_FILE_BYTES);
+      }
+      config.audit = audit;
+    }
+
+    // Session cap and what happens when it is reached
+    if (process.env.MAX_SESSIONS) {
+      config.maxSessions = parseInt(process.env.MAX_SESSIONS);
+    }
+    if (process.env.SESSION_EVICTION) {
+      config.sessionEviction = process.env.SESSION_EVICTION === 'reject' ? 'reject' : 'lru';
+    }
+
+    // Optional dataset catalog (JSON list of tables/views to register)
+    if (process.env.DATASETS_CONFIG) {
+      config.datasets = await loadDatasetConfigFile(process.env.DATASETS_CONFIG);
+    }
+
+    // Keep API keys out of the logs
+    console.log('Starting MCP DuckDB Server with config:', {
+      ...config,
+      auth: config.auth ? 'enabled' : 'disabled',
+      policies: config.policies?.map(policy => policy.name)
+    });
 
     // Create and start server
     const server = new MCPDuckDBServer(config);
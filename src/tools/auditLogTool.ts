@@ -0,0 +1,105 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { AuditLog, parseAuditQuery } from '../audit/auditLog';
+
+/**
+ * Admin tool that reads the tool call audit log with the same filters as GET /audit
+ */
+export class AuditLogTool {
+  private auditLog: AuditLog;
+
+  constructor(auditLog: AuditLog) {
+    this.auditLog = auditLog;
+  }
+
+  /**
+   * Get the MCP tool definition
+   */
+  getToolDefinition(): Tool {
+    return {
+      name: 'queryAuditLog',
+      description: 'Search the audit log of tool calls, newest first. Each entry has the session, principal, tool, SQL as sent and normalized, parameters, row count, duration, outcome and rejection reason.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          from: { type: 'string', description: 'Only calls at or after this ISO 8601 time' },
+          to: { type: 'string', description: 'Only calls before this ISO 8601 time' },
+          sessionId: { type: 'string', description: 'Only calls from this MCP session' },
+          principal: { type: 'string', description: 'Only calls by this principal id' },
+          tool: { type: 'string', description: 'Only calls to this tool, e.g. dbQueryTool' },
+          sql: { type: 'string', description: 'Only dbQueryTool calls whose SQL contains this text, ignoring case, comments and whitespace differences' },
+          outcome: {
+            type: 'string',
+            enum: ['success', 'rejected', 'error', 'cancelled', 'timeout'],
+            description: 'Only calls with this outcome'
+          },
+          limit: { type: 'integer', minimum: 1, maximum: 1000, description: 'Maximum entries to return (default: 100)' }
+        },
+        additionalProperties: false
+      },
+      outputSchema: {
+        type: 'object',
+        properties: {
+          entries: { type: 'array', items: { type: 'object' } },
+          count: { type: 'integer' },
+          error: {
+            type: 'object',
+            description: 'Present only on failed calls',
+            properties: {
+              code: { type: 'string', enum: ['validation', 'internal'] },
+              message: { type: 'string' }
+            },
+            required: ['code', 'message']
+          }
+        },
+        anyOf: [
+          { required: ['entries', 'count'] },
+          { required: ['error'] }
+        ]
+      }
+    };
+  }
+
+  /**
+   * Run a search and return the MCP tool result
+   */
+  async call(args: Record<string, unknown>): Promise<any> {
+    let filter;
+    try {
+      filter = parseAuditQuery(args);
+    } catch (error) {
+      return this.errorResult('validation', error instanceof Error ? error.message : String(error));
+    }
+
+    try {
+      const entries = await this.auditLog.query(filter);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(entries, null, 2)
+          }
+        ],
+        structuredContent: { entries, count: entries.length }
+      };
+    } catch (error) {
+      console.error('Failed to read the audit log:', error);
+      return this.errorResult('internal', error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  /**
+   * Build the MCP error result for a failed search
+   */
+  private errorResult(code: 'validation' | 'internal', message: string): any {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: message
+        }
+      ],
+      structuredContent: { error: { code, message } },
+      isError: true
+    };
+  }
+}
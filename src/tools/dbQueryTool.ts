@@ -1,6 +1,41 @@
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { DatabaseManager } from '../database/db';
-import { DbQueryToolInput } from '../types/index';
+import { SqlValidator } from '../database/sqlValidator';
+import { QueryLimitError, QueryStream } from '../database/queryStream';
+import { normalizeSql } from '../audit/auditLog';
+import { DbQueryError, DbQueryResult, DbQueryToolInput, Principal, ResultCacheConfig, ResultCacheStats, ResultFormat, StreamExecuteOptions } from '../types/index';
+import { RESULT_FORMATS, ResultContent, binaryContent, encodeArrow, isResultFormat, orderedRow, renderText } from './resultFormats';
+import { QUERY_ERROR_CODES, QueryToolError, describeQueryError } from './queryErrors';
+import { ResultCache } from './resultCache';
+import { QueryGuardrails } from './queryGuardrails';
+
+/**
+ * Minimum interval between progress notifications for a single call
+ */
+const PROGRESS_INTERVAL_MS = 250;
+
+/**
+ * Rows fetched per DuckDB read and default rows per returned page
+ */
+const DB_CHUNK_SIZE = 100;
+const DEFAULT_PAGE_SIZE = 500;
+
+/**
+ * Functions and clauses whose results differ between runs over the same data; queries using them are not cached
+ */
+const VOLATILE_SQL_PATTERN = /\b(random|setseed|uuid|gen_random_uuid|nextval|currval|now|today|current_date|current_time|current_timestamp|current_localtime|current_localtimestamp|localtime|localtimestamp|get_current_time|get_current_timestamp|transaction_timestamp|sample|tablesample)\b/i;
+
+/**
+ * Position of one returned page within a result
+ */
+interface PageState {
+  format: ResultFormat;
+  page: number;
+  rowsReturned: number; // Rows returned so far, including this page
+  truncated: boolean;
+  nextCursor: string | null;
+  startTime: number; // When the call that produced this page started
+}
 
 /**
  * Database query tool for MCP server
@@ -8,9 +43,30 @@ import { DbQueryToolInput } from '../types/index';
  */
 export class DbQueryTool {
   private dbManager: DatabaseManager;
-
-  constructor(dbManager: DatabaseManager) {
+  private pageSize: number;
+  private cache: ResultCache;
+  private guardrails: QueryGuardrails;
+
+  constructor(
+    dbManager: DatabaseManager,
+    pageSize: number = DEFAULT_PAGE_SIZE,
+    cacheConfig: ResultCacheConfig = {},
+    guardrails: QueryGuardrails = new QueryGuardrails(dbManager)
+  ) {
     this.dbManager = dbManager;
+    this.pageSize = Math.max(1, Math.floor(pageSize));
+    this.cache = new ResultCache(cacheConfig);
+    this.guardrails = guardrails;
+
+    // Any reload or write may change any cached result, including joins across tables
+    this.dbManager.onTableChanged(() => this.cache.invalidate());
+  }
+
+  /**
+   * Result cache usage for /health
+   */
+  getCacheStats(): ResultCacheStats {
+    return this.cache.getStats();
   }
 
   /**
@@ -21,115 +77,498 @@ export class DbQueryTool {
   }
 
   /**
-   * Get the MCP tool definition
+   * Get the MCP tool definition, listing the tables the principal may query
    */
-  getToolDefinition(): Tool {
+  getToolDefinition(principal: Principal | null = null): Tool {
+    const datasets = this.dbManager.visibleDatasets(principal);
+    const tables = datasets
+      .map(dataset => dataset.description ? `${dataset.name} (${dataset.description})` : dataset.name)
+      .join('; ');
+
     return {
       name: 'dbQueryTool',
-      description: 'Execute SQL queries against the employee database with streaming results. Only SELECT statements are allowed for security.',
+      description: `Execute SQL queries against the DuckDB database with streaming results. Available tables: ${tables}. Only SELECT statements are allowed for security.${this.guardrails.enabled ? ` ${this.guardrails.describe()}` : ''}`,
       inputSchema: {
         type: 'object',
         properties: {
           sql: {
             type: 'string',
-            description: 'SQL SELECT query to execute against the employees table'
+            description: `SQL SELECT query to execute against the registered tables (${datasets.map(dataset => dataset.name).join(', ')}). Use $1/? or $name placeholders for values instead of string concatenation.`
+          },
+          params: {
+            description: 'Optional bound parameters: an array for positional placeholders ($1, $2 or ?) or an object for named placeholders ($name). Values are type-checked against the column they are compared with.',
+            oneOf: [
+              {
+                type: 'array',
+                items: { type: ['string', 'number', 'boolean', 'null'] }
+              },
+              {
+                type: 'object',
+                additionalProperties: { type: ['string', 'number', 'boolean', 'null'] }
+              }
+            ]
           },
           limit: {
             type: 'number',
             description: 'Optional limit for the number of results (default: no limit)',
             minimum: 1,
             maximum: 10000
+          },
+          format: {
+            type: 'string',
+            enum: RESULT_FORMATS,
+            description: 'Output format: rows (default, one JSON text item per row), json (single JSON array), ndjson, csv, markdown (table), arrow (Arrow IPC stream) or parquet, both returned as embedded base64 blob resources. Parquet results are never paged.'
+          },
+          ...(this.guardrails.enabled && this.guardrails.action === 'confirm' && {
+            confirm: {
+              type: 'boolean',
+              description: 'Run a query that was held back because its estimated plan is large (error code guardrail with confirmable: true)'
+            }
+          }),
+          cursor: {
+            type: 'string',
+            description: `Opaque cursor returned with a previous page. Results with more than ${this.pageSize} rows are paged; pass only the cursor to fetch the next page.`
           }
         },
-        required: ['sql'],
+        anyOf: [
+          { required: ['sql'] },
+          { required: ['cursor'] }
+        ],
         additionalProperties: false
+      },
+      outputSchema: {
+        type: 'object',
+        properties: {
+          columns: {
+            type: 'array',
+            description: 'Result columns in query order with their DuckDB types',
+            items: {
+              type: 'object',
+              properties: {
+                name: { type: 'string' },
+                type: { type: 'string' }
+              },
+              required: ['name', 'type']
+            }
+          },
+          rows: {
+            type: 'array',
+            description: 'Rows of this page as objects keyed by column name; empty for the arrow and parquet formats',
+            items: { type: 'object' }
+          },
+          rowCount: { type: 'integer', description: 'Rows in this response' },
+          truncated: { type: 'boolean', description: 'True when limit cut the result short' },
+          executionTimeMs: { type: 'number' },
+          format: { type: 'string', enum: RESULT_FORMATS },
+          page: { type: 'integer' },
+          hasMore: { type: 'boolean' },
+          nextCursor: { type: 'string' },
+          error: {
+            type: 'object',
+            description: 'Present only on failed calls',
+            properties: {
+              code: { type: 'string', enum: QUERY_ERROR_CODES },
+              message: { type: 'string' },
+              position: { type: 'integer', description: 'Character offset in the SQL text' },
+              issues: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    parameter: { type: 'string' },
+                    message: { type: 'string' }
+                  },
+                  required: ['parameter', 'message']
+                }
+              },
+              plan: {
+                type: 'object',
+                description: 'Plan estimates of a query stopped by the guardrails',
+                properties: {
+                  estimatedRows: { type: ['integer', 'null'] },
+                  peakEstimatedRows: { type: ['integer', 'null'] },
+                  joins: { type: 'integer' },
+                  operators: { type: 'integer' }
+                }
+              },
+              confirmable: { type: 'boolean', description: 'True when calling again with confirm: true runs the query' }
+            },
+            required: ['code', 'message']
+          }
+        },
+        anyOf: [
+          { required: ['columns', 'rows', 'rowCount', 'truncated', 'executionTimeMs', 'format', 'page', 'hasMore'] },
+          { required: ['error'] }
+        ]
       }
     };
   }
 
   /**
    * Execute the database query tool with streaming results
-   * This is the new method that yields results row-by-row as { type: "text", text: JSON.stringify(row) }
+   * Returns structuredContent (typed columns, rows, row count, truncation flag, timing) plus a rendering in the requested format.
+   * Progress is reported through options.onProgress; aborting options.signal interrupts the query.
+   * Results larger than the page size return the first page and a cursor for the next one.
+   * Complete results are cached per principal policy; _meta.cache reports whether the call was a hit.
    */
-  async streamExecute(input: DbQueryToolInput): Promise<any> {
+  async streamExecute(input: DbQueryToolInput, options: StreamExecuteOptions = {}): Promise<any> {
+    const startTime = Date.now();
+
     try {
+      if (input.cursor !== undefined) {
+        return await this.nextPage(input.cursor, options, startTime);
+      }
+
       // Validate input
       if (!input.sql || typeof input.sql !== 'string') {
-        throw new Error('SQL query is required and must be a string');
+        throw new QueryToolError('validation', 'SQL query is required and must be a string');
+      }
+      if (input.params !== undefined && (input.params === null || typeof input.params !== 'object')) {
+        throw new QueryToolError('validation', 'params must be an array (positional) or an object (named)');
+      }
+      if (input.limit !== undefined && !(typeof input.limit === 'number' && input.limit >= 1)) {
+        throw new QueryToolError('validation', 'limit must be a number of at least 1');
+      }
+      if (input.format !== undefined && !isResultFormat(input.format)) {
+        throw new QueryToolError('validation', `Unsupported format "${input.format}". Use one of: ${RESULT_FORMATS.join(', ')}`);
+      }
+      if (input.confirm !== undefined && typeof input.confirm !== 'boolean') {
+        throw new QueryToolError('validation', 'confirm must be a boolean');
       }
 
       // Validate SQL query for security
-      if (!this.dbManager.validateQuery(input.sql)) {
-        throw new Error('Invalid SQL query. Only SELECT statements are allowed. Dangerous keywords (DROP, DELETE, UPDATE, INSERT, etc.) are not permitted.');
+      const validation = await this.dbManager.validateQuery(input.sql, options.principal ?? null);
+      if (!validation.valid) {
+        throw QueryToolError.fromValidation(validation);
       }
 
-      // Apply limit if specified
-      let sql = input.sql.trim();
-      if (input.limit && input.limit > 0) {
-        // Check if query already has a LIMIT clause
-        if (!sql.toLowerCase().includes('limit')) {
-          sql += ` LIMIT ${input.limit}`;
-        }
+      const format: ResultFormat = input.format ?? 'rows';
+      const limit = input.limit !== undefined ? Math.floor(input.limit) : null;
+
+      // Serve a complete result computed earlier for the same query, parameters and policy
+      const cacheKey = this.cacheKey(input, format, limit, options);
+      const cached = cacheKey !== null ? this.cache.get(cacheKey) : null;
+      if (cached) {
+        return this.cachedResult(cached.result, cached.ageMs, startTime);
+      }
+      const dataVersion = this.cache.dataVersion;
+
+      // Estimate the plan and stop queries that exceed the configured guardrails before they run
+      await this.guardrails.check(
+        DbQueryTool.applyLimit(input.sql, limit ?? undefined),
+        input.params ?? [],
+        input.confirm === true,
+        options.signal,
+        options.principal ?? null,
+        options.sessionId ?? null,
+        limit
+      );
+
+      // Parquet is written by DuckDB in a single pass and is never paged
+      if (format === 'parquet') {
+        const parquet = await this.dbManager.exportParquet(
+          DbQueryTool.applyLimit(input.sql, limit ?? undefined),
+          input.params ?? [],
+          options.signal,
+          options.principal ?? null,
+          options.sessionId ?? null
+        );
+        const structured: DbQueryResult = {
+          columns: parquet.columns,
+          rows: [],
+          rowCount: parquet.rowCount,
+          // Without lookahead, a file that fills the limit is reported as truncated
+          truncated: limit !== null && parquet.rowCount >= limit,
+          executionTimeMs: Date.now() - startTime,
+          format: format,
+          page: 1,
+          hasMore: false
+        };
+        return this.storeResult(cacheKey, {
+          content: [binaryContent('parquet', parquet.data)],
+          structuredContent: structured,
+          _meta: {
+            totalRows: parquet.rowCount,
+            format: format,
+            timestamp: new Date().toISOString()
+          }
+        }, dataVersion);
       }
 
-      // Stream results row-by-row
-      const content: Array<{ type: string; text: string }> = [];
-      let rowCount = 0;
+      // Read one row past the limit so a truncated result can be told apart from one that fits exactly,
+      // unless that row would itself trip the server's row limit
+      const { maxRows } = this.dbManager.getQueryLimits();
+      const lookahead = limit !== null && (maxRows === null || limit < maxRows) ? limit + 1 : limit;
+      const sql = DbQueryTool.applyLimit(input.sql, lookahead ?? undefined);
+
+      // Start the query and read the first page as DuckDB produces rows
+      const stream = await this.dbManager.streamQuery(
+        sql,
+        input.params ?? [],
+        DB_CHUNK_SIZE,
+        options.signal,
+        options.principal ?? null,
+        options.sessionId ?? null
+      );
+      const iterator = stream[Symbol.asyncIterator]();
+      const pageSize = Math.min(options.cursors ? this.pageSize : Infinity, limit ?? Infinity);
+      const page = await this.readPage(iterator, [], pageSize, options);
+      const truncated = page.hasMore && limit !== null && page.rows.length >= limit;
+
+      if (!page.hasMore || truncated || !options.cursors) {
+        await iterator.return?.();
+        const result = this.buildPageResult(stream, page.rows, { format, page: 1, rowsReturned: page.rows.length, truncated, nextCursor: null, startTime });
+        return this.storeResult(cacheKey, result, dataVersion);
+      }
 
-      // Execute streaming query and collect each row
-      for await (const dbChunk of this.dbManager.executeStreamingQuery(sql, [], 1)) {
-        for (const row of dbChunk) {
-          content.push({
-            type: 'text',
-            text: JSON.stringify(row)
-          });
-          rowCount++;
-        }
+      // Keep the DuckDB result open so later pages come from the same snapshot. Paged results are not cached.
+      const cursor = options.cursors.open(stream, iterator, page.carry, page.rows.length, format, limit);
+      try {
+        const result = this.buildPageResult(stream, page.rows, { format, page: 1, rowsReturned: page.rows.length, truncated, nextCursor: cursor.id, startTime });
+        return this.storeResult(null, result, dataVersion);
+      } catch (error) {
+        options.cursors.close(cursor.id);
+        throw error;
       }
 
-      return {
-        content: content,
-        _meta: {
-          totalRows: rowCount,
-          streamingEnabled: true,
-          timestamp: new Date().toISOString()
-        }
-      };
+    } catch (error) {
+      // Preserve typed errors (cancellation, parameter issues) for the caller
+      throw error instanceof Error ? error : new Error('Unknown error occurred');
+    }
+  }
+
+  /**
+   * Cache key for a query: its normalized SQL and parameters plus everything else that shapes the result,
+   * including the principal's access policy. null when the query must not be cached.
+   */
+  private cacheKey(input: DbQueryToolInput, format: ResultFormat, limit: number | null, options: StreamExecuteOptions): string | null {
+    if (!this.cache.enabled || VOLATILE_SQL_PATTERN.test(input.sql!)) {
+      return null;
+    }
+    // With cursors a result is cut into pages, so a whole result cached without them doesn't apply
+    const paging = options.cursors ? this.pageSize : null;
+    return JSON.stringify([
+      this.dbManager.accessScope(options.principal ?? null),
+      normalizeSql(input.sql!),
+      input.params ?? [],
+      limit,
+      format,
+      paging
+    ]);
+  }
+
+  /**
+   * Cache a result when it has a key, and tag it as a cache miss
+   */
+  private storeResult(cacheKey: string | null, result: any, dataVersion: number): any {
+    if (cacheKey !== null) {
+      this.cache.set(cacheKey, result, dataVersion);
+    }
+    return { ...result, _meta: { ...result._meta, cache: { hit: false } } };
+  }
+
+  /**
+   * Copy a cached result with this call's timing and a cache hit tag
+   */
+  private cachedResult(result: any, ageMs: number, startTime: number): any {
+    return {
+      ...result,
+      structuredContent: { ...result.structuredContent, executionTimeMs: Date.now() - startTime },
+      _meta: { ...result._meta, timestamp: new Date().toISOString(), cache: { hit: true, ageMs } }
+    };
+  }
 
+  /**
+   * Return the next page of a paged result
+   */
+  private async nextPage(cursorId: string, options: StreamExecuteOptions, startTime: number): Promise<any> {
+    const cursor = typeof cursorId === 'string' ? options.cursors?.get(cursorId) : undefined;
+    if (!cursor) {
+      throw new QueryToolError('validation', 'Unknown or expired cursor. Cursors are valid only within the MCP session that created them; re-run the query to start over.');
+    }
+
+    // Cancellation of this call should interrupt the shared stream
+    cursor.stream.bindSignal(options.signal);
+    try {
+      const remaining = cursor.limit !== null ? cursor.limit - cursor.rowsReturned : Infinity;
+      const page = await this.readPage(cursor.iterator, cursor.carry, Math.min(this.pageSize, remaining), options);
+      cursor.page++;
+      cursor.rowsReturned += page.rows.length;
+      cursor.carry = page.carry;
+      const truncated = page.hasMore && cursor.limit !== null && cursor.rowsReturned >= cursor.limit;
+      const state = { format: cursor.format, page: cursor.page, rowsReturned: cursor.rowsReturned, truncated, startTime };
+
+      if (!page.hasMore || truncated) {
+        options.cursors!.close(cursor.id);
+        return this.buildPageResult(cursor.stream, page.rows, { ...state, nextCursor: null });
+      }
+
+      cursor.stream.bindSignal(undefined);
+      return this.buildPageResult(cursor.stream, page.rows, { ...state, nextCursor: cursor.id });
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-      throw new Error(errorMessage);
+      options.cursors!.close(cursor.id);
+      throw error;
     }
   }
 
+  /**
+   * Build the MCP error result for a failed call, tagged with a structured error code
+   */
+  errorResult(error: unknown): any {
+    const structured: DbQueryError = { error: describeQueryError(error) };
+    return {
+      content: [
+        {
+          type: 'text',
+          text: structured.error.message
+        }
+      ],
+      structuredContent: structured,
+      isError: true,
+      ...(structured.error.code === 'cancelled' && { _meta: { cancelled: true } })
+    };
+  }
+
+  /**
+   * Read up to pageSize rows, plus enough lookahead to know whether more rows follow
+   */
+  private async readPage(
+    iterator: AsyncIterator<any[]>,
+    carry: any[],
+    pageSize: number,
+    options: StreamExecuteOptions
+  ): Promise<{ rows: any[]; carry: any[]; hasMore: boolean }> {
+    const rows = [...carry];
+    let chunkCount = 0;
+    const startTime = Date.now();
+    let lastProgressAt = 0;
+
+    while (rows.length <= pageSize) {
+      const next = await iterator.next();
+      if (next.done) {
+        break;
+      }
+      rows.push(...next.value);
+      chunkCount++;
+
+      // Throttle progress reports so large results don't flood the client
+      const now = Date.now();
+      if (options.onProgress && now - lastProgressAt >= PROGRESS_INTERVAL_MS) {
+        lastProgressAt = now;
+        await options.onProgress({ rows: Math.min(rows.length, pageSize), chunks: chunkCount, elapsedMs: now - startTime });
+      }
+    }
+
+    const pageRows = rows.length > pageSize ? rows.slice(0, pageSize) : rows;
+    if (options.onProgress) {
+      await options.onProgress({ rows: pageRows.length, chunks: chunkCount, elapsedMs: Date.now() - startTime });
+    }
+
+    return {
+      rows: pageRows,
+      carry: rows.length > pageSize ? rows.slice(pageSize) : [],
+      hasMore: rows.length > pageSize
+    };
+  }
+
+  /**
+   * Build the MCP tool result for one page: structuredContent with typed columns and rows, plus a
+   * rendering in the requested format that keeps the result's column order
+   */
+  private buildPageResult(stream: QueryStream, rows: any[], state: PageState): any {
+    const { format, page, rowsReturned, truncated, nextCursor } = state;
+    const columns = stream.columns;
+    const content: ResultContent[] = format === 'arrow'
+      ? [binaryContent('arrow', encodeArrow(columns, stream.columnTypes, rows))]
+      : renderText(format as Exclude<ResultFormat, 'arrow' | 'parquet'>, columns, rows);
+
+    if (nextCursor) {
+      content.push({
+        type: 'text',
+        text: `Page ${page} ends at row ${rowsReturned}; more rows are available. Call dbQueryTool with {"cursor": "${nextCursor}"} to fetch the next page.`
+      });
+    } else if (truncated) {
+      content.push({
+        type: 'text',
+        text: `Result truncated to ${rowsReturned} rows by limit.`
+      });
+    }
+
+    const structured: DbQueryResult = {
+      columns: columns.map((name, index) => ({ name, type: stream.columnTypes[index] ?? 'UNKNOWN' })),
+      rows: format === 'arrow' ? [] : rows.map(row => orderedRow(row, columns)),
+      rowCount: rows.length,
+      truncated: truncated,
+      executionTimeMs: Date.now() - state.startTime,
+      format: format,
+      page: page,
+      hasMore: nextCursor !== null,
+      ...(nextCursor && { nextCursor })
+    };
+
+    const { maxBytes } = this.dbManager.getQueryLimits();
+    if (maxBytes !== null) {
+      const size = Buffer.byteLength(JSON.stringify({ content, structuredContent: structured }));
+      if (size > maxBytes) {
+        throw new QueryLimitError(`Page ${page} would be ${size} bytes, more than the server's maximum response size of ${maxBytes} bytes. Select fewer columns or pass a smaller limit.`);
+      }
+    }
+
+    return {
+      content: content,
+      structuredContent: structured,
+      _meta: {
+        totalRows: rows.length,
+        columns: columns,
+        format: format,
+        page: page,
+        rowsReturned: rowsReturned,
+        hasMore: nextCursor !== null,
+        ...(nextCursor && { nextCursor }),
+        streamingEnabled: true,
+        timestamp: new Date().toISOString()
+      }
+    };
+  }
+
+  /**
+   * Strip trailing semicolons and wrap the query in an outer LIMIT when a limit is given.
+   * Wrapping works whether or not the query already has its own LIMIT clause.
+   */
+  static applyLimit(rawSql: string, limit?: number): string {
+    const sql = rawSql.trim().replace(/;+$/, '').trim();
+    if (limit && limit > 0) {
+      return `SELECT * FROM (\n${sql}\n) AS limited_query LIMIT ${Math.floor(limit)}`;
+    }
+    return sql;
+  }
+
   /**
    * Execute the database query tool (legacy method - maintained for compatibility)
    */
-  async execute(input: DbQueryToolInput): Promise<string> {
+  async execute(input: DbQueryToolInput, principal: Principal | null = null): Promise<string> {
     try {
       // Validate input
       if (!input.sql || typeof input.sql !== 'string') {
         throw new Error('SQL query is required and must be a string');
       }
+      if (input.params !== undefined && (input.params === null || typeof input.params !== 'object')) {
+        throw new Error('params must be an array (positional) or an object (named)');
+      }
 
       // Validate SQL query for security
-      if (!this.dbManager.validateQuery(input.sql)) {
-        throw new Error('Invalid SQL query. Only SELECT statements are allowed. Dangerous keywords (DROP, DELETE, UPDATE, INSERT, etc.) are not permitted.');
+      const validation = await this.dbManager.validateQuery(input.sql, principal);
+      if (!validation.valid) {
+        throw new Error(SqlValidator.formatError(validation));
       }
 
       // Apply limit if specified
-      let sql = input.sql.trim();
-      if (input.limit && input.limit > 0) {
-        // Check if query already has a LIMIT clause
-        if (!sql.toLowerCase().includes('limit')) {
-          sql += ` LIMIT ${input.limit}`;
-        }
-      }
+      const sql = DbQueryTool.applyLimit(input.sql, input.limit);
 
       // For StreamableHTTPServerTransport, we should use the generator approach
       // Collect streaming events one by one as they're generated
       const events: string[] = [];
-      for await (const event of this.executeStreamingTool({ sql, ...(input.limit && { limit: input.limit }) })) {
+      for await (const event of this.executeStreamingTool({ sql, ...(input.params && { params: input.params }), ...(input.limit && { limit: input.limit }) }, principal)) {
         events.push(event);
       }
 
@@ -157,32 +596,34 @@ export class DbQueryTool {
   /**
    * Execute streaming query with real-time chunks (for MCP clients that support streaming)
    */
-  async *executeStreamingTool(input: DbQueryToolInput): AsyncGenerator<string, void, unknown> {
+  async *executeStreamingTool(input: DbQueryToolInput, principal: Principal | null = null): AsyncGenerator<string, void, unknown> {
+    let stream: QueryStream | null = null;
+
     try {
       // Validate input
       if (!input.sql || typeof input.sql !== 'string') {
         throw new Error('SQL query is required and must be a string');
       }
+      if (input.params !== undefined && (input.params === null || typeof input.params !== 'object')) {
+        throw new Error('params must be an array (positional) or an object (named)');
+      }
 
       // Validate SQL query for security
-      if (!this.dbManager.validateQuery(input.sql)) {
-        throw new Error('Invalid SQL query. Only SELECT statements are allowed. Dangerous keywords (DROP, DELETE, UPDATE, INSERT, etc.) are not permitted.');
+      const validation = await this.dbManager.validateQuery(input.sql, principal);
+      if (!validation.valid) {
+        throw new Error(SqlValidator.formatError(validation));
       }
 
       // Apply limit if specified
-      let sql = input.sql.trim();
-      if (input.limit && input.limit > 0) {
-        // Check if query already has a LIMIT clause
-        if (!sql.toLowerCase().includes('limit')) {
-          sql += ` LIMIT ${input.limit}`;
-        }
-      }
-
-      // Get column information first
-      const schemaResult = await this.dbManager.executeQuery('SELECT * FROM employees LIMIT 0');
-      const columns = schemaResult.columns;
+      const sql = DbQueryTool.applyLimit(input.sql, input.limit);
 
       const startTime = Date.now();
+      const streamChunkSize = 5; // Stream 5 rows at a time
+      const dbChunkSize = 50; // Database reads 50 rows at a time internally
+
+      // Start the query; column information is available before any rows are fetched
+      stream = await this.dbManager.streamQuery(sql, input.params ?? [], dbChunkSize, undefined, principal);
+      const columns = stream.columns;
 
       console.log('Starting query execution:', sql);
       // Yield initial metadata
@@ -200,14 +641,12 @@ export class DbQueryTool {
       console.log('Waiting 1 second before processing data...');
       await this.sleep(1000);
 
-      const streamChunkSize = 5; // Stream 5 rows at a time
-      const dbChunkSize = 50; // Database reads 50 rows at a time internally
       let currentStreamChunk: any[] = [];
       let totalRows = 0;
       let chunkNumber = 0;
 
       // Execute streaming query and yield chunks as they're ready
-      for await (const dbChunk of this.dbManager.executeStreamingQuery(sql, [], dbChunkSize)) {
+      for await (const dbChunk of stream) {
         // Process each row from the database chunk
         for (const row of dbChunk) {
           currentStreamChunk.push(row);
@@ -279,6 +718,9 @@ export class DbQueryTool {
           timestamp: new Date().toISOString()
         }
       });
+    } finally {
+      // Release the DuckDB result even if the consumer stops early
+      stream?.close();
     }
   }
 
@@ -300,17 +742,14 @@ export class DbQueryTool {
   }
 
   /**
-   * Get table schema information
+   * Get schema information for every table the principal may query
    */
-  async getSchema(): Promise<string> {
+  async getSchema(principal: Principal | null = null): Promise<string> {
     try {
-      const schema = await this.dbManager.getTableSchema();
-      const sampleData = await this.dbManager.getSampleEmployees(5);
+      const tables = await this.dbManager.describeTables(5, principal);
 
       const response = {
-        table: 'employees',
-        schema: schema,
-        sampleData: sampleData,
+        tables: tables,
         sampleQueries: this.getSampleQueries()
       };
 
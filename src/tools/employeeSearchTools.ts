@@ -0,0 +1,335 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { DatabaseManager } from '../database/db';
+import { quoteIdentifier } from '../database/catalog';
+import { Principal, VisibleEmployee } from '../types/index';
+import { QUERY_ERROR_CODES, QueryToolError, queryErrorResult, toolErrorResult, toolOutputSchema } from './queryErrors';
+
+const EMPLOYEES_TABLE = 'employees';
+const DEFAULT_PAGE_LIMIT = 20;
+const MAX_PAGE_LIMIT = 100;
+const MAX_TEXT_LENGTH = 200;
+const LOOKUP_ERROR_CODES = [...QUERY_ERROR_CODES, 'not_found'];
+const SORT_COLUMNS = ['employeeId', 'employeeName', 'location', 'startDate', 'department', 'salary', 'position', 'lastPromoted'];
+
+/**
+ * A searchEmployees filter: the argument, the column it tests and how
+ */
+interface FilterSpec {
+  argument: string;
+  column: string;
+  operator: 'contains' | 'equals' | 'min' | 'max';
+  kind: 'text' | 'boolean' | 'number' | 'date';
+  description: string;
+}
+
+const FILTERS: FilterSpec[] = [
+  { argument: 'nameContains', column: 'employeeName', operator: 'contains', kind: 'text', description: 'Part of the employee name, case-insensitive' },
+  { argument: 'department', column: 'department', operator: 'equals', kind: 'text', description: 'Department, case-insensitive exact match' },
+  { argument: 'location', column: 'location', operator: 'equals', kind: 'text', description: 'Location, case-insensitive exact match' },
+  { argument: 'isRemote', column: 'isRemote', operator: 'equals', kind: 'boolean', description: 'Only remote (true) or only on-site (false) employees' },
+  { argument: 'minSalary', column: 'salary', operator: 'min', kind: 'number', description: 'Lowest salary, inclusive' },
+  { argument: 'maxSalary', column: 'salary', operator: 'max', kind: 'number', description: 'Highest salary, inclusive' },
+  { argument: 'startedFrom', column: 'startDate', operator: 'min', kind: 'date', description: 'Earliest start date (YYYY-MM-DD), inclusive' },
+  { argument: 'startedTo', column: 'startDate', operator: 'max', kind: 'date', description: 'Latest start date (YYYY-MM-DD), inclusive' },
+  { argument: 'promotedFrom', column: 'lastPromoted', operator: 'min', kind: 'date', description: 'Earliest last promotion date (YYYY-MM-DD), inclusive' },
+  { argument: 'promotedTo', column: 'lastPromoted', operator: 'max', kind: 'date', description: 'Latest last promotion date (YYYY-MM-DD), inclusive' }
+];
+
+/**
+ * Typed read tools for the employees table: getEmployee and searchEmployees. Filters are turned into
+ * parameterized SQL here, so callers never write SQL, and queries run under the caller's access policy:
+ * hidden columns are left out of the results and cannot be filtered or sorted on.
+ */
+export class EmployeeSearchTools {
+  private dbManager: DatabaseManager;
+
+  constructor(dbManager: DatabaseManager) {
+    this.dbManager = dbManager;
+  }
+
+  /**
+   * Check whether a tool name belongs to these tools
+   */
+  handles(name: string): boolean {
+    return name === 'getEmployee' || name === 'searchEmployees';
+  }
+
+  /**
+   * Tool definitions visible to a principal; empty when it may not read the employees table
+   */
+  getToolDefinitions(principal: Principal | null = null): Tool[] {
+    if (!this.dbManager.canAccessTable(EMPLOYEES_TABLE, principal)) {
+      return [];
+    }
+
+    const employee = {
+      type: 'object',
+      description: 'Employee record; columns hidden by your access policy are omitted',
+      properties: {
+        employeeId: { type: 'integer' },
+        employeeName: { type: 'string' },
+        location: { type: 'string' },
+        startDate: { type: 'string', format: 'date' },
+        department: { type: 'string' },
+        salary: { type: 'number' },
+        position: { type: 'string' },
+        isRemote: { type: 'boolean' },
+        lastPromoted: { type: ['string', 'null'], format: 'date' }
+      }
+    };
+
+    return [
+      {
+        name: 'getEmployee',
+        description: 'Get one employee record by id.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            employeeId: { type: 'integer', minimum: 1, description: 'Employee id' }
+          },
+          required: ['employeeId'],
+          additionalProperties: false
+        },
+        outputSchema: toolOutputSchema({ employee }, ['employee'], LOOKUP_ERROR_CODES)
+      },
+      {
+        name: 'searchEmployees',
+        description: 'Find employees by name, department, location, remote flag, salary range and start or promotion date range, with sorting and paging. All filters are optional and combined with AND.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            ...Object.fromEntries(FILTERS.map(filter => [filter.argument, this.filterSchema(filter)])),
+            sortBy: { type: 'string', enum: SORT_COLUMNS, description: 'Column to sort by (default: employeeId)' },
+            sortOrder: { type: 'string', enum: ['asc', 'desc'], description: 'Sort direction (default: asc); empty values sort last' },
+            limit: { type: 'integer', minimum: 1, maximum: MAX_PAGE_LIMIT, description: `Employees per page (default: ${DEFAULT_PAGE_LIMIT})` },
+            offset: { type: 'integer', minimum: 0, description: 'Matching employees to skip, for the next page (default: 0)' }
+          },
+          additionalProperties: false
+        },
+        outputSchema: toolOutputSchema({
+          employees: { type: 'array', items: employee },
+          total: { type: 'integer', description: 'Employees matching the filters across all pages' },
+          limit: { type: 'integer' },
+          offset: { type: 'integer' },
+          hasMore: { type: 'boolean' }
+        }, ['employees', 'total', 'limit', 'offset', 'hasMore'], LOOKUP_ERROR_CODES)
+      }
+    ];
+  }
+
+  /**
+   * Run a lookup tool on behalf of a principal, returning the MCP tool result
+   */
+  async call(name: string, args: Record<string, unknown>, principal: Principal | null, sessionId: string | null = null, signal?: AbortSignal): Promise<any> {
+    try {
+      if (!this.dbManager.canAccessTable(EMPLOYEES_TABLE, principal)) {
+        throw new QueryToolError('validation', 'The employees table is not available to you');
+      }
+
+      switch (name) {
+        case 'getEmployee':
+          return await this.getEmployee(args, principal, sessionId, signal);
+        case 'searchEmployees':
+          return await this.searchEmployees(args, principal, sessionId, signal);
+        default:
+          throw new Error(`Unknown tool: ${name}`);
+      }
+    } catch (error) {
+      return queryErrorResult(name, error);
+    }
+  }
+
+  /**
+   * Look up one employee by id
+   */
+  private async getEmployee(args: Record<string, unknown>, principal: Principal | null, sessionId: string | null, signal: AbortSignal | undefined): Promise<any> {
+    const employeeId = args.employeeId;
+    if (!Number.isInteger(employeeId) || (employeeId as number) < 1 || (employeeId as number) > 2_147_483_647) {
+      throw new QueryToolError('validation', 'employeeId must be a positive integer');
+    }
+
+    const columns = await this.visibleColumns(principal, ['employeeId']);
+    const result = await this.dbManager.executeQuery(
+      `SELECT ${this.projection(columns)} FROM ${quoteIdentifier(EMPLOYEES_TABLE)} WHERE ${quoteIdentifier('employeeId')} = $employeeId LIMIT 1`,
+      { employeeId },
+      principal,
+      sessionId,
+      signal
+    );
+    const employee = result.data[0] as VisibleEmployee | undefined;
+    if (!employee) {
+      return toolErrorResult({ code: 'not_found', message: `No employee with id ${employeeId}` });
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(employee, null, 2)
+        }
+      ],
+      structuredContent: { employee }
+    };
+  }
+
+  /**
+   * Find employees matching the typed filters, one page at a time
+   */
+  private async searchEmployees(args: Record<string, unknown>, principal: Principal | null, sessionId: string | null, signal: AbortSignal | undefined): Promise<any> {
+    const issues: string[] = [];
+    const conditions: string[] = [];
+    const params: Record<string, string | number | boolean> = {};
+    const used = new Set<string>();
+
+    for (const filter of FILTERS) {
+      const value = args[filter.argument];
+      if (value === undefined) {
+        continue;
+      }
+      const problem = this.checkFilter(filter, value);
+      if (problem) {
+        issues.push(`${filter.argument}: ${problem}`);
+        continue;
+      }
+
+      const column = quoteIdentifier(filter.column);
+      const placeholder = `$${filter.argument}`;
+      params[filter.argument] = typeof value === 'string' ? value.trim() : value as number | boolean;
+      used.add(filter.column);
+      switch (filter.operator) {
+        case 'contains':
+          conditions.push(`contains(lower(${column}), lower(${placeholder}))`);
+          break;
+        case 'equals':
+          conditions.push(filter.kind === 'text' ? `lower(${column}) = lower(${placeholder})` : `${column} = ${placeholder}`);
+          break;
+        case 'min':
+          conditions.push(`${column} >= ${this.typedPlaceholder(filter, placeholder)}`);
+          break;
+        case 'max':
+          conditions.push(`${column} <= ${this.typedPlaceholder(filter, placeholder)}`);
+          break;
+      }
+    }
+
+    const sortBy = args.sortBy ?? 'employeeId';
+    if (typeof sortBy !== 'string' || !SORT_COLUMNS.includes(sortBy)) {
+      issues.push(`sortBy: must be one of ${SORT_COLUMNS.join(', ')}`);
+    }
+    const sortOrder = args.sortOrder ?? 'asc';
+    if (sortOrder !== 'asc' && sortOrder !== 'desc') {
+      issues.push('sortOrder: must be asc or desc');
+    }
+    const limit = args.limit ?? DEFAULT_PAGE_LIMIT;
+    if (!Number.isInteger(limit) || (limit as number) < 1 || (limit as number) > MAX_PAGE_LIMIT) {
+      issues.push(`limit: must be an integer from 1 to ${MAX_PAGE_LIMIT}`);
+    }
+    const offset = args.offset ?? 0;
+    if (!Number.isInteger(offset) || (offset as number) < 0) {
+      issues.push('offset: must be a non-negative integer');
+    }
+    const unknown = Object.keys(args).filter(key =>
+      !FILTERS.some(filter => filter.argument === key) && !['sortBy', 'sortOrder', 'limit', 'offset'].includes(key));
+    issues.push(...unknown.map(key => `${key}: is not a search filter`));
+    if (issues.length > 0) {
+      throw new QueryToolError('validation', `Invalid search arguments:\n  ${issues.join('\n  ')}`);
+    }
+
+    const columns = await this.visibleColumns(principal, [...used, sortBy as string]);
+    const where = conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '';
+    const table = quoteIdentifier(EMPLOYEES_TABLE);
+    const order = `${quoteIdentifier(sortBy as string)} ${sortOrder === 'desc' ? 'DESC' : 'ASC'} NULLS LAST, ${quoteIdentifier('employeeId')}`;
+
+    const count = await this.dbManager.executeQuery(`SELECT count(*) AS total FROM ${table}${where}`, params, principal, sessionId, signal);
+    const total = Number(count.data[0]?.total ?? 0);
+    const page = await this.dbManager.executeQuery(
+      `SELECT ${this.projection(columns)} FROM ${table}${where} ORDER BY ${order} LIMIT ${limit} OFFSET ${offset}`,
+      params,
+      principal,
+      sessionId,
+      signal
+    );
+    const employees = page.data as VisibleEmployee[];
+    const hasMore = (offset as number) + employees.length < total;
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `${total} matching employee(s); showing ${employees.length} from offset ${offset}.${hasMore ? ` Call again with offset ${(offset as number) + employees.length} for more.` : ''}\n${JSON.stringify(employees, null, 2)}`
+        }
+      ],
+      structuredContent: { employees, total, limit, offset, hasMore }
+    };
+  }
+
+  /**
+   * Describe what is wrong with a filter value, or return null when it is valid
+   */
+  private checkFilter(filter: FilterSpec, value: unknown): string | null {
+    switch (filter.kind) {
+      case 'boolean':
+        return typeof value === 'boolean' ? null : 'must be true or false';
+      case 'number':
+        return typeof value === 'number' && Number.isFinite(value) ? null : 'must be a number';
+      case 'date': {
+        const date = typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) ? new Date(`${value}T00:00:00Z`) : null;
+        return date && !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value ? null : 'must be a date in YYYY-MM-DD format';
+      }
+      default:
+        if (typeof value !== 'string' || value.trim().length === 0) {
+          return 'must be a non-empty string';
+        }
+        return value.length <= MAX_TEXT_LENGTH ? null : `must be at most ${MAX_TEXT_LENGTH} characters`;
+    }
+  }
+
+  /**
+   * Columns of the employees table the principal can see, with their types. Fails when a column the
+   * request filters or sorts on is hidden.
+   */
+  private async visibleColumns(principal: Principal | null, required: string[]): Promise<Array<{ name: string; type: string }>> {
+    const schema = await this.dbManager.getTableSchema(EMPLOYEES_TABLE, principal);
+    const columns = schema.map(row => ({ name: String(row.column_name), type: String(row.data_type) }));
+    const hidden = required.filter(column => !columns.some(candidate => candidate.name === column));
+    if (hidden.length > 0) {
+      throw new QueryToolError('validation', `Cannot filter or sort on ${hidden.join(', ')}: not visible to you`);
+    }
+    return columns;
+  }
+
+  /**
+   * Select list returning plain JSON values, with dates as YYYY-MM-DD
+   */
+  private projection(columns: Array<{ name: string; type: string }>): string {
+    return columns
+      .map(column => column.type === 'DATE'
+        ? `strftime(${quoteIdentifier(column.name)}, '%Y-%m-%d') AS ${quoteIdentifier(column.name)}`
+        : quoteIdentifier(column.name))
+      .join(', ');
+  }
+
+  /**
+   * Range filter placeholder cast to the argument's type. Numbers are bound as DOUBLE so fractional
+   * bounds work against integer columns.
+   */
+  private typedPlaceholder(filter: FilterSpec, placeholder: string): string {
+    return filter.kind === 'date' ? `CAST(${placeholder} AS DATE)` : `CAST(${placeholder} AS DOUBLE)`;
+  }
+
+  /**
+   * JSON schema for one search filter
+   */
+  private filterSchema(filter: FilterSpec): object {
+    switch (filter.kind) {
+      case 'boolean':
+        return { type: 'boolean', description: filter.description };
+      case 'number':
+        return { type: 'number', minimum: 0, description: filter.description };
+      case 'date':
+        return { type: 'string', format: 'date', description: filter.description };
+      default:
+        return { type: 'string', minLength: 1, maxLength: MAX_TEXT_LENGTH, description: filter.description };
+    }
+  }
+}
@@ -0,0 +1,575 @@
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { DatabaseManager } from '../database/db';
+import { EMPLOYEE_COLUMNS } from '../database/catalog';
+import { EmployeeAccessError, EmployeeChange, EmployeeStore } from '../database/employeeStore';
+import { EmployeeChangeRecord, EmployeeFieldChange, EmployeeFields, EmployeeWriteConfig, Principal } from '../types/index';
+
+const EMPLOYEES_TABLE = 'employees';
+const DEFAULT_WRITE_ROLES = ['hr-admin'];
+const MAX_TEXT_LENGTH = 200;
+
+/**
+ * Columns that may be left empty; every other column is required on a new employee
+ */
+const NULLABLE_FIELDS = new Set(['lastPromoted']);
+
+const FIELD_DESCRIPTIONS: Record<string, string> = {
+  employeeId: 'Unique employee number',
+  employeeName: 'Full name',
+  location: 'Office location or "Remote"',
+  startDate: 'First working day (YYYY-MM-DD)',
+  department: 'Department name',
+  salary: 'Annual salary in whole currency units',
+  position: 'Job title',
+  isRemote: 'Whether the employee works remotely',
+  lastPromoted: 'Date of the last promotion (YYYY-MM-DD), or null if never promoted'
+};
+
+type WriteErrorCode = 'validation' | 'not_found' | 'conflict' | 'forbidden';
+
+/**
+ * A field that failed validation
+ */
+interface FieldIssue {
+  field: string;
+  message: string;
+}
+
+/**
+ * Raised when a write is rejected before anything is changed
+ */
+export class EmployeeWriteError extends Error {
+  readonly code: WriteErrorCode;
+  readonly issues: FieldIssue[];
+
+  constructor(code: WriteErrorCode, message: string, issues: FieldIssue[] = []) {
+    super(issues.length > 0 ? `${message}:\n${issues.map(issue => `  ${issue.field}: ${issue.message}`).join('\n')}` : message);
+    this.name = 'EmployeeWriteError';
+    this.code = code;
+    this.issues = issues;
+  }
+}
+
+/**
+ * Typed tools that add and change employee records: addEmployee, updateEmployee and recordPromotion.
+ * They are only listed to principals allowed to write. Every field is validated against the employees
+ * column types, dryRun returns the diff without writing, and each applied change is appended to the
+ * change log with its before and after values.
+ *
+ * Writes respect access policies: a principal can only change records its policy view shows, cannot
+ * move a record out of that view, cannot change fields the policy masks, and gets the records back
+ * masked the same way.
+ */
+export class EmployeeWriteTools {
+  private dbManager: DatabaseManager;
+  private store: EmployeeStore;
+  private roles: string[];
+  private principals: string[];
+  private changeLogPath: string;
+
+  constructor(dbManager: DatabaseManager, config: EmployeeWriteConfig = {}) {
+    this.dbManager = dbManager;
+    this.store = new EmployeeStore(dbManager, config.persist === 'database'
+      ? { type: 'database', path: path.resolve(config.databasePath ?? path.join('data', 'employees.duckdb')) }
+      : { type: 'csv' });
+    this.roles = config.roles ?? DEFAULT_WRITE_ROLES;
+    this.principals = config.principals ?? [];
+    this.changeLogPath = path.resolve(config.changeLogPath ?? path.join('data', 'employee-changes.ndjson'));
+  }
+
+  /**
+   * Check the employees table can be written back and restore persisted records
+   */
+  async initialize(): Promise<void> {
+    await this.store.initialize();
+    console.log(`Employee write tools enabled for roles ${this.roles.join(', ') || '(none)'}${this.principals.length > 0 ? ` and principals ${this.principals.join(', ')}` : ''}; changes are logged to ${this.changeLogPath}`);
+  }
+
+  /**
+   * Check whether a principal may write. Without authentication (principal null) everyone may. A principal
+   * also needs to see the employees table with unmasked employee ids.
+   */
+  canWrite(principal: Principal | null): boolean {
+    if (!principal) {
+      return true;
+    }
+    return (this.principals.includes(principal.id) || principal.roles.some(role => this.roles.includes(role)))
+      && this.dbManager.canAccessTable(EMPLOYEES_TABLE, principal)
+      && !this.dbManager.maskedColumns(EMPLOYEES_TABLE, principal).includes('employeeid');
+  }
+
+  /**
+   * Check whether a tool name belongs to these tools
+   */
+  handles(name: string): boolean {
+    return name === 'addEmployee' || name === 'updateEmployee' || name === 'recordPromotion';
+  }
+
+  /**
+   * Tool definitions visible to a principal; empty when it may not write
+   */
+  getToolDefinitions(principal: Principal | null = null): Tool[] {
+    if (!this.canWrite(principal)) {
+      return [];
+    }
+
+    const editable = Object.keys(EMPLOYEE_COLUMNS).filter(field => field !== 'employeeId');
+    const dryRun = {
+      type: 'boolean',
+      description: 'Validate and return the diff without writing anything (default: false)'
+    };
+
+    return [
+      {
+        name: 'addEmployee',
+        description: 'Add a new employee record. Omit employeeId to use the next free id. Use dryRun to preview the record first.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            ...this.fieldSchemas(Object.keys(EMPLOYEE_COLUMNS)),
+            dryRun
+          },
+          required: editable.filter(field => !NULLABLE_FIELDS.has(field)),
+          additionalProperties: false
+        },
+        outputSchema: this.outputSchema()
+      },
+      {
+        name: 'updateEmployee',
+        description: 'Change fields of an existing employee record. Only the fields in changes are modified. Use dryRun to preview the diff first.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            employeeId: this.fieldSchema('employeeId'),
+            changes: {
+              type: 'object',
+              description: 'New values for the fields to change',
+              properties: this.fieldSchemas(editable),
+              minProperties: 1,
+              additionalProperties: false
+            },
+            dryRun
+          },
+          required: ['employeeId', 'changes'],
+          additionalProperties: false
+        },
+        outputSchema: this.outputSchema()
+      },
+      {
+        name: 'recordPromotion',
+        description: 'Record a promotion: sets the new position, optionally a new salary, and lastPromoted to the promotion date. Use dryRun to preview the diff first.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            employeeId: this.fieldSchema('employeeId'),
+            position: { ...this.fieldSchema('position'), description: 'New job title' },
+            salary: { ...this.fieldSchema('salary'), description: 'New annual salary (default: unchanged)' },
+            promotedOn: { type: 'string', format: 'date', description: 'Promotion date (YYYY-MM-DD, default: today)' },
+            dryRun
+          },
+          required: ['employeeId', 'position'],
+          additionalProperties: false
+        },
+        outputSchema: this.outputSchema()
+      }
+    ];
+  }
+
+  /**
+   * Run a write tool on behalf of a principal, returning the MCP tool result
+   */
+  async call(name: string, args: Record<string, unknown>, principal: Principal | null): Promise<any> {
+    try {
+      if (!this.canWrite(principal)) {
+        throw new EmployeeWriteError('forbidden', 'You are not allowed to change employee records');
+      }
+      if (args.dryRun !== undefined && typeof args.dryRun !== 'boolean') {
+        throw new EmployeeWriteError('validation', 'Invalid arguments', [{ field: 'dryRun', message: 'must be a boolean' }]);
+      }
+      const dryRun = args.dryRun === true;
+
+      switch (name) {
+        case 'addEmployee':
+          return await this.addEmployee(args, dryRun, principal);
+        case 'updateEmployee':
+          return await this.updateEmployee(args, dryRun, principal);
+        case 'recordPromotion':
+          return await this.recordPromotion(args, dryRun, principal);
+        default:
+          throw new Error(`Unknown tool: ${name}`);
+      }
+    } catch (error) {
+      return this.errorResult(error);
+    }
+  }
+
+  /**
+   * Insert a new employee after validating every field
+   */
+  private async addEmployee(args: Record<string, unknown>, dryRun: boolean, principal: Principal | null): Promise<any> {
+    const { dryRun: _dryRun, ...fields } = args;
+    const employeeId = fields.employeeId === undefined ? await this.store.nextEmployeeId() : fields.employeeId;
+    const record = this.validateFields({ ...fields, employeeId }, Object.keys(EMPLOYEE_COLUMNS));
+
+    const missing = Object.keys(EMPLOYEE_COLUMNS).filter(field => !(field in record) && !NULLABLE_FIELDS.has(field));
+    if (missing.length > 0) {
+      throw new EmployeeWriteError('validation', 'Missing required fields', missing.map(field => ({ field, message: 'is required' })));
+    }
+
+    const after: EmployeeFields = Object.fromEntries(Object.keys(EMPLOYEE_COLUMNS).map(field => [field, record[field] ?? null]));
+    this.checkConsistency(after, principal);
+    return this.apply('addEmployee', after.employeeId as number, dryRun, principal, before => {
+      if (before) {
+        throw new EmployeeWriteError('conflict', `Employee ${after.employeeId} already exists; use updateEmployee to change it`);
+      }
+      return after;
+    });
+  }
+
+  /**
+   * Change the given fields of an existing employee
+   */
+  private async updateEmployee(args: Record<string, unknown>, dryRun: boolean, principal: Principal | null): Promise<any> {
+    const employeeId = this.validateEmployeeId(args.employeeId);
+    if (!args.changes || typeof args.changes !== 'object' || Array.isArray(args.changes) || Object.keys(args.changes).length === 0) {
+      throw new EmployeeWriteError('validation', 'Invalid arguments', [{ field: 'changes', message: 'must be an object with at least one field' }]);
+    }
+    const editable = Object.keys(EMPLOYEE_COLUMNS).filter(field => field !== 'employeeId');
+    const changes = this.validateFields(args.changes as Record<string, unknown>, editable, 'changes.');
+    this.checkUnmasked(Object.keys(changes), principal, 'changes.');
+
+    return this.apply('updateEmployee', employeeId, dryRun, principal, before => {
+      if (!before) {
+        throw new EmployeeWriteError('not_found', `Employee ${employeeId} does not exist`);
+      }
+      const after = { ...before, ...changes };
+      this.checkConsistency(after, principal);
+      if (this.diff(before, after).length === 0) {
+        throw new EmployeeWriteError('validation', 'The changes match the current record; nothing would change');
+      }
+      return after;
+    });
+  }
+
+  /**
+   * Set a new position, optional salary and lastPromoted for an existing employee
+   */
+  private async recordPromotion(args: Record<string, unknown>, dryRun: boolean, principal: Principal | null): Promise<any> {
+    const employeeId = this.validateEmployeeId(args.employeeId);
+    const promotedOn = args.promotedOn ?? new Date().toISOString().slice(0, 10);
+    const promotion = this.validateFields(
+      { position: args.position, lastPromoted: promotedOn, ...(args.salary !== undefined && { salary: args.salary }) },
+      ['position', 'salary', 'lastPromoted']
+    );
+    if (promotion.lastPromoted === null) {
+      throw new EmployeeWriteError('validation', 'Invalid arguments', [{ field: 'promotedOn', message: 'must be a date' }]);
+    }
+    this.checkUnmasked(Object.keys(promotion), principal);
+
+    return this.apply('recordPromotion', employeeId, dryRun, principal, before => {
+      if (!before) {
+        throw new EmployeeWriteError('not_found', `Employee ${employeeId} does not exist`);
+      }
+      if (typeof before.lastPromoted === 'string' && (promotion.lastPromoted as string) < before.lastPromoted) {
+        throw new EmployeeWriteError('validation', 'Invalid arguments', [
+          { field: 'promotedOn', message: `must not be before the previous promotion on ${before.lastPromoted}` }
+        ]);
+      }
+      const after = { ...before, ...promotion };
+      this.checkConsistency(after, principal);
+      return after;
+    });
+  }
+
+  /**
+   * Apply (or in a dry run, only compute) a change and build the tool result
+   */
+  private async apply(
+    tool: string,
+    employeeId: number,
+    dryRun: boolean,
+    principal: Principal | null,
+    build: (before: EmployeeFields | null) => EmployeeFields
+  ): Promise<any> {
+    const changeId = crypto.randomUUID();
+    const change = await this.store.change(employeeId, build, {
+      dryRun,
+      principal,
+      record: applied => this.appendChange({
+        changeId,
+        at: new Date().toISOString(),
+        tool,
+        principal: principal && { id: principal.id, method: principal.method },
+        employeeId,
+        before: applied.before,
+        after: applied.after,
+        changes: this.diff(applied.before, applied.after)
+      })
+    }).catch(error => {
+      if (!(error instanceof EmployeeAccessError)) {
+        throw error;
+      }
+      // Records the principal cannot see are reported like missing (or, when adding, taken) ids
+      if (error.reason === 'outside') {
+        throw new EmployeeWriteError('forbidden', `${error.message}; your access policy does not allow this change`);
+      }
+      throw tool === 'addEmployee'
+        ? new EmployeeWriteError('conflict', `Employee ${employeeId} already exists; choose another employeeId`)
+        : new EmployeeWriteError('not_found', `Employee ${employeeId} does not exist`);
+    });
+
+    if (!dryRun) {
+      console.log(`${tool} changed employee ${employeeId}${principal ? ` for ${principal.id}` : ''} (change ${changeId})`);
+    }
+    return this.successResult(tool, employeeId, dryRun, change, dryRun ? null : changeId);
+  }
+
+  /**
+   * Append an applied change to the change log. A failure aborts the change.
+   */
+  private async appendChange(record: EmployeeChangeRecord): Promise<void> {
+    await fs.mkdir(path.dirname(this.changeLogPath), { recursive: true });
+    await fs.appendFile(this.changeLogPath, `${JSON.stringify(record)}\n`);
+  }
+
+  /**
+   * Fields whose values differ between two versions of a record
+   */
+  private diff(before: EmployeeFields | null, after: EmployeeFields): EmployeeFieldChange[] {
+    return Object.keys(EMPLOYEE_COLUMNS)
+      .filter(field => (before?.[field] ?? null) !== (after[field] ?? null))
+      .map(field => ({ field, before: before?.[field] ?? null, after: after[field] ?? null }));
+  }
+
+  /**
+   * Validate the given fields against the employees column types. Fields outside allowed are rejected.
+   */
+  private validateFields(fields: Record<string, unknown>, allowed: string[], prefix: string = ''): EmployeeFields {
+    const issues: FieldIssue[] = [];
+    const valid: EmployeeFields = {};
+
+    for (const [field, value] of Object.entries(fields)) {
+      if (!allowed.includes(field)) {
+        issues.push({ field: `${prefix}${field}`, message: 'is not a field that can be set here' });
+        continue;
+      }
+      const problem = this.checkField(field, value);
+      if (problem) {
+        issues.push({ field: `${prefix}${field}`, message: problem });
+      } else {
+        valid[field] = typeof value === 'string' ? value.trim() : value as number | boolean | null;
+      }
+    }
+
+    if (issues.length > 0) {
+      throw new EmployeeWriteError('validation', 'Invalid employee fields', issues);
+    }
+    return valid;
+  }
+
+  /**
+   * Describe what is wrong with a field value, or return null when it is valid
+   */
+  private checkField(field: string, value: unknown): string | null {
+    if (value === null) {
+      return NULLABLE_FIELDS.has(field) ? null : 'must not be null';
+    }
+
+    switch (EMPLOYEE_COLUMNS[field]) {
+      case 'INTEGER':
+        return Number.isInteger(value) && (value as number) > 0 && (value as number) <= 2_147_483_647 ? null : 'must be a positive integer';
+      case 'BIGINT':
+        return Number.isSafeInteger(value) && (value as number) >= 0 ? null : 'must be a non-negative integer';
+      case 'BOOLEAN':
+        return typeof value === 'boolean' ? null : 'must be true or false';
+      case 'DATE':
+        return typeof value === 'string' && this.isDate(value) ? null : 'must be a date in YYYY-MM-DD format';
+      default:
+        if (typeof value !== 'string' || value.trim().length === 0) {
+          return 'must be a non-empty string';
+        }
+        return value.length <= MAX_TEXT_LENGTH ? null : `must be at most ${MAX_TEXT_LENGTH} characters`;
+    }
+  }
+
+  /**
+   * Check cross-field rules on a complete record. Values of fields the principal's policy masks are left
+   * out of the messages.
+   */
+  private checkConsistency(record: EmployeeFields, principal: Principal | null): void {
+    if (typeof record.lastPromoted === 'string' && typeof record.startDate === 'string' && record.lastPromoted < record.startDate) {
+      const shown = !this.dbManager.maskedColumns(EMPLOYEES_TABLE, principal).includes('startdate');
+      throw new EmployeeWriteError('validation', 'Invalid employee fields', [
+        { field: 'lastPromoted', message: `must not be before startDate${shown ? ` (${record.startDate})` : ''}` }
+      ]);
+    }
+  }
+
+  /**
+   * Reject changes to fields the principal's policy hides or masks, which it could otherwise probe
+   */
+  private checkUnmasked(fields: string[], principal: Principal | null, prefix: string = ''): void {
+    const masked = this.dbManager.maskedColumns(EMPLOYEES_TABLE, principal);
+    const issues = fields
+      .filter(field => masked.includes(field.toLowerCase()))
+      .map(field => ({ field: field === 'lastPromoted' && !prefix ? 'promotedOn' : `${prefix}${field}`, message: 'is masked by your access policy' }));
+    if (issues.length > 0) {
+      throw new EmployeeWriteError('forbidden', 'You are not allowed to change these fields', issues);
+    }
+  }
+
+  /**
+   * Validate the id of the employee a tool changes
+   */
+  private validateEmployeeId(value: unknown): number {
+    const problem = this.checkField('employeeId', value ?? null);
+    if (problem) {
+      throw new EmployeeWriteError('validation', 'Invalid arguments', [{ field: 'employeeId', message: problem }]);
+    }
+    return value as number;
+  }
+
+  /**
+   * Check a YYYY-MM-DD string names a real calendar date
+   */
+  private isDate(value: string): boolean {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+      return false;
+    }
+    const date = new Date(`${value}T00:00:00Z`);
+    return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+  }
+
+  /**
+   * JSON schemas for a list of employee fields
+   */
+  private fieldSchemas(fields: string[]): Record<string, object> {
+    return Object.fromEntries(fields.map(field => [field, this.fieldSchema(field)]));
+  }
+
+  /**
+   * JSON schema for one employee field, derived from its column type
+   */
+  private fieldSchema(field: string): Record<string, unknown> {
+    const description = FIELD_DESCRIPTIONS[field] ?? field;
+    switch (EMPLOYEE_COLUMNS[field]) {
+      case 'INTEGER':
+        return { type: 'integer', minimum: 1, description };
+      case 'BIGINT':
+        return { type: 'integer', minimum: 0, description };
+      case 'BOOLEAN':
+        return { type: 'boolean', description };
+      case 'DATE':
+        return NULLABLE_FIELDS.has(field)
+          ? { type: ['string', 'null'], format: 'date', description }
+          : { type: 'string', format: 'date', description };
+      default:
+        return { type: 'string', minLength: 1, maxLength: MAX_TEXT_LENGTH, description };
+    }
+  }
+
+  /**
+   * Output schema shared by the write tools
+   */
+  private outputSchema(): Tool['outputSchema'] {
+    const record = { type: 'object', properties: this.fieldSchemas(Object.keys(EMPLOYEE_COLUMNS)) };
+    return {
+      type: 'object',
+      properties: {
+        tool: { type: 'string' },
+        employeeId: { type: 'integer' },
+        dryRun: { type: 'boolean', description: 'True when nothing was written' },
+        before: { ...record, description: 'Record before the change; null for a new employee' },
+        after: { ...record, description: 'Record after the change' },
+        changes: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: { field: { type: 'string' }, before: {}, after: {} },
+            required: ['field', 'before', 'after']
+          }
+        },
+        changeId: { type: 'string', description: 'Id of the change log entry; absent in a dry run' },
+        error: {
+          type: 'object',
+          description: 'Present only on failed calls',
+          properties: {
+            code: { type: 'string', enum: ['validation', 'not_found', 'conflict', 'forbidden', 'internal'] },
+            message: { type: 'string' },
+            issues: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: { field: { type: 'string' }, message: { type: 'string' } },
+                required: ['field', 'message']
+              }
+            }
+          },
+          required: ['code', 'message']
+        }
+      },
+      anyOf: [
+        { required: ['tool', 'employeeId', 'dryRun', 'before', 'after', 'changes'] },
+        { required: ['error'] }
+      ]
+    };
+  }
+
+  /**
+   * Build the MCP result for a change, as the principal's policy view shows it, with the diff as text
+   */
+  private successResult(tool: string, employeeId: number, dryRun: boolean, change: EmployeeChange, changeId: string | null): any {
+    const changes = this.diff(change.before, change.after);
+    const verb = change.before ? 'update' : 'add';
+    const name = typeof change.after.employeeName === 'string' ? ` (${change.after.employeeName})` : '';
+    const heading = dryRun
+      ? `Dry run: would ${verb} employee ${employeeId}${name}`
+      : `${verb === 'add' ? 'Added' : 'Updated'} employee ${employeeId}${name}`;
+    const lines = changes.map(entry => `  ${entry.field}: ${JSON.stringify(entry.before)} -> ${JSON.stringify(entry.after)}`);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: [heading, ...lines].join('\n')
+        }
+      ],
+      structuredContent: {
+        tool,
+        employeeId,
+        dryRun,
+        before: change.before,
+        after: change.after,
+        changes,
+        ...(changeId && { changeId })
+      }
+    };
+  }
+
+  /**
+   * Build the MCP error result for a rejected or failed write
+   */
+  private errorResult(error: unknown): any {
+    const message = error instanceof Error ? error.message : 'Unknown error occurred';
+    const structured = error instanceof EmployeeWriteError
+      ? { code: error.code, message, ...(error.issues.length > 0 && { issues: error.issues }) }
+      : { code: 'internal', message };
+    if (!(error instanceof EmployeeWriteError)) {
+      console.error('Employee write failed:', error);
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: message
+        }
+      ],
+      structuredContent: { error: structured },
+      isError: true
+    };
+  }
+}
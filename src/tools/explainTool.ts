@@ -0,0 +1,182 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { DatabaseManager } from '../database/db';
+import { estimatePlan } from '../database/queryPlan';
+import { Principal, QueryParams } from '../types/index';
+import { DbQueryTool } from './dbQueryTool';
+import { QUERY_ERROR_CODES, QueryToolError, queryErrorResult } from './queryErrors';
+import { QueryGuardrails } from './queryGuardrails';
+
+/**
+ * Caller context for one explainQuery call
+ */
+export interface ExplainCallOptions {
+  principal: Principal | null;
+  sessionId: string | null;
+  admin: boolean; // Only administrators may use analyze, which runs the query
+  signal?: AbortSignal;
+}
+
+/**
+ * explainQuery tool: shows DuckDB's plan for a query before it is run, with estimated row counts and
+ * whether dbQueryTool's guardrails would let it through. Administrators can also profile the query
+ * with EXPLAIN ANALYZE.
+ */
+export class ExplainTool {
+  private dbManager: DatabaseManager;
+  private guardrails: QueryGuardrails;
+
+  constructor(dbManager: DatabaseManager, guardrails: QueryGuardrails) {
+    this.dbManager = dbManager;
+    this.guardrails = guardrails;
+  }
+
+  /**
+   * Get the MCP tool definition; analyze is only offered to administrators
+   */
+  getToolDefinition(admin: boolean = false): Tool {
+    return {
+      name: 'explainQuery',
+      description: `Show the plan DuckDB would use for a dbQueryTool query without running it: the physical plan as text and JSON with estimated row counts per operator, the estimated result rows, the number of joins, and whether the server's guardrails would let dbQueryTool run it.${this.guardrails.enabled ? ` ${this.guardrails.describe()}` : ''}`,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          sql: { type: 'string', description: 'SQL SELECT query, as it would be passed to dbQueryTool' },
+          params: {
+            description: 'Bound parameters, as for dbQueryTool',
+            oneOf: [
+              { type: 'array', items: { type: ['string', 'number', 'boolean', 'null'] } },
+              { type: 'object', additionalProperties: { type: ['string', 'number', 'boolean', 'null'] } }
+            ]
+          },
+          limit: { type: 'number', minimum: 1, maximum: 10000, description: 'Limit, as for dbQueryTool' },
+          logical: { type: 'boolean', description: 'Also return the unoptimized and optimized logical plans (default: false)' },
+          ...(admin && {
+            analyze: { type: 'boolean', description: 'Run the query with EXPLAIN ANALYZE and return the profiled plan with actual row counts and timings (default: false)' }
+          })
+        },
+        required: ['sql'],
+        additionalProperties: false
+      },
+      outputSchema: {
+        type: 'object',
+        properties: {
+          plans: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                kind: { type: 'string', description: 'physical_plan, logical_plan, logical_opt or analyzed_plan' },
+                text: { type: 'string' },
+                json: {}
+              },
+              required: ['kind', 'text', 'json']
+            }
+          },
+          estimate: {
+            type: 'object',
+            properties: {
+              estimatedRows: { type: ['integer', 'null'], description: 'Rows the query is expected to return' },
+              peakEstimatedRows: { type: ['integer', 'null'], description: 'Largest estimate of any operator, such as a scan or join' },
+              joins: { type: 'integer' },
+              operators: { type: 'integer' }
+            }
+          },
+          guardrails: {
+            type: 'object',
+            properties: {
+              enabled: { type: 'boolean' },
+              action: { type: 'string', enum: ['reject', 'confirm'] },
+              violations: { type: 'array', items: { type: 'string' } }
+            },
+            required: ['enabled', 'violations']
+          },
+          error: {
+            type: 'object',
+            description: 'Present only on failed calls',
+            properties: {
+              code: { type: 'string', enum: QUERY_ERROR_CODES },
+              message: { type: 'string' },
+              position: { type: 'integer' }
+            },
+            required: ['code', 'message']
+          }
+        },
+        anyOf: [
+          { required: ['plans', 'estimate', 'guardrails'] },
+          { required: ['error'] }
+        ]
+      }
+    };
+  }
+
+  /**
+   * Explain a query on behalf of a principal, returning the MCP tool result
+   */
+  async call(args: Record<string, unknown>, options: ExplainCallOptions): Promise<any> {
+    try {
+      if (typeof args.sql !== 'string' || args.sql.trim() === '') {
+        throw new QueryToolError('validation', 'SQL query is required and must be a string');
+      }
+      if (args.params !== undefined && (args.params === null || typeof args.params !== 'object')) {
+        throw new QueryToolError('validation', 'params must be an array (positional) or an object (named)');
+      }
+      if (args.limit !== undefined && !(typeof args.limit === 'number' && args.limit >= 1)) {
+        throw new QueryToolError('validation', 'limit must be a number of at least 1');
+      }
+      for (const flag of ['logical', 'analyze']) {
+        if (args[flag] !== undefined && typeof args[flag] !== 'boolean') {
+          throw new QueryToolError('validation', `${flag} must be a boolean`);
+        }
+      }
+      const analyze = args.analyze === true;
+      if (analyze && !options.admin) {
+        throw new QueryToolError('validation', 'analyze is only available to administrators');
+      }
+
+      // EXPLAIN ANALYZE runs the query, so the same checks as dbQueryTool apply
+      const validation = await this.dbManager.validateQuery(args.sql, options.principal);
+      if (!validation.valid) {
+        throw QueryToolError.fromValidation(validation);
+      }
+
+      const sql = DbQueryTool.applyLimit(args.sql, args.limit as number | undefined);
+      const plans = await this.dbManager.explainQuery(
+        sql,
+        (args.params as QueryParams | undefined) ?? [],
+        { logical: args.logical === true, analyze },
+        options.signal,
+        options.principal,
+        options.sessionId
+      );
+
+      const main = plans.find(plan => plan.kind === 'physical_plan' || plan.kind === 'analyzed_plan');
+      const estimate = estimatePlan(main?.json ?? [], (args.limit as number | undefined) ?? null);
+      const guardrails = {
+        enabled: this.guardrails.enabled,
+        action: this.guardrails.action,
+        violations: this.guardrails.violations(estimate)
+      };
+      const verdict = !guardrails.enabled || guardrails.violations.length === 0
+        ? 'dbQueryTool would run this query.'
+        : guardrails.action === 'confirm'
+          ? `dbQueryTool would ask for confirmation: ${guardrails.violations.join('; ')}.`
+          : `dbQueryTool would refuse this query: ${guardrails.violations.join('; ')}.`;
+
+      return {
+        content: [
+          ...plans.map(plan => ({
+            type: 'text',
+            text: `${plan.kind}:\n${plan.text}`
+          })),
+          {
+            type: 'text',
+            text: `Estimated rows: ${estimate.estimatedRows ?? 'unknown'} (largest operator: ${estimate.peakEstimatedRows ?? 'unknown'}), joins: ${estimate.joins}. ${verdict}`
+          }
+        ],
+        structuredContent: { plans, estimate, guardrails }
+      };
+    } catch (error) {
+      return queryErrorResult('explainQuery', error);
+    }
+  }
+}
@@ -0,0 +1,139 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { QueryCancelledError, QueryLimitError, QueryTimeoutError } from '../database/queryStream';
+import { QueryParameterError } from '../database/params';
+import { ConnectionPoolTimeoutError } from '../database/connectionPool';
+import { DbQueryError, PlanEstimate, QueryErrorCode, SqlValidationResult } from '../types/index';
+import { SqlValidator } from '../database/sqlValidator';
+
+/**
+ * Every error code, in the order documented in the tool's output schema
+ */
+export const QUERY_ERROR_CODES: QueryErrorCode[] = ['validation', 'syntax', 'timeout', 'limit', 'guardrail', 'cancelled', 'internal'];
+
+/**
+ * Raised by dbQueryTool for failures it detects itself, tagged with the error code reported to clients
+ */
+export class QueryToolError extends Error {
+  readonly code: QueryErrorCode;
+  readonly position: number | undefined;
+
+  constructor(code: QueryErrorCode, message: string, position?: number) {
+    super(message);
+    this.name = 'QueryToolError';
+    this.code = code;
+    this.position = position;
+  }
+
+  /**
+   * Build the error for a query rejected by SqlValidator
+   */
+  static fromValidation(result: SqlValidationResult): QueryToolError {
+    return new QueryToolError(result.syntaxError ? 'syntax' : 'validation', SqlValidator.formatError(result), result.position);
+  }
+}
+
+/**
+ * Raised when a query's estimated plan exceeds the configured guardrails
+ */
+export class QueryGuardrailError extends QueryToolError {
+  readonly plan: PlanEstimate;
+  readonly confirmable: boolean;
+
+  constructor(message: string, plan: PlanEstimate, confirmable: boolean) {
+    super('guardrail', message);
+    this.name = 'QueryGuardrailError';
+    this.plan = plan;
+    this.confirmable = confirmable;
+  }
+}
+
+/**
+ * DuckDB error prefixes that describe a problem with the query rather than with the server
+ */
+const DUCKDB_ERROR_CODES: Array<[RegExp, QueryErrorCode]> = [
+  [/^Parser Error:/, 'syntax'],
+  [/^(Binder|Catalog) Error:/, 'validation']
+];
+
+/**
+ * Classify any error thrown while running dbQueryTool into the structured error payload
+ */
+export function describeQueryError(error: unknown): DbQueryError['error'] {
+  const message = error instanceof Error ? error.message : 'Unknown error occurred';
+
+  if (error instanceof QueryGuardrailError) {
+    return { code: error.code, message, plan: error.plan, confirmable: error.confirmable };
+  }
+  if (error instanceof QueryToolError) {
+    return error.position !== undefined
+      ? { code: error.code, message, position: error.position }
+      : { code: error.code, message };
+  }
+  if (error instanceof QueryCancelledError) {
+    return { code: 'cancelled', message };
+  }
+  if (error instanceof QueryTimeoutError || error instanceof ConnectionPoolTimeoutError) {
+    return { code: 'timeout', message };
+  }
+  if (error instanceof QueryLimitError) {
+    return { code: 'limit', message };
+  }
+  if (error instanceof QueryParameterError) {
+    return { code: 'validation', message, issues: error.issues };
+  }
+
+  const match = DUCKDB_ERROR_CODES.find(([pattern]) => pattern.test(message));
+  return { code: match ? match[1] : 'internal', message };
+}
+
+/**
+ * Output schema for a tool that returns either the given properties or a structured error with one of the codes
+ */
+export function toolOutputSchema(properties: Record<string, object>, required: string[], codes: string[] = QUERY_ERROR_CODES): Tool['outputSchema'] {
+  return {
+    type: 'object',
+    properties: {
+      ...properties,
+      error: {
+        type: 'object',
+        description: 'Present only on failed calls',
+        properties: {
+          code: { type: 'string', enum: codes },
+          message: { type: 'string' }
+        },
+        required: ['code', 'message']
+      }
+    },
+    anyOf: [
+      { required },
+      { required: ['error'] }
+    ]
+  };
+}
+
+/**
+ * Build the MCP error result carrying a structured error
+ */
+export function toolErrorResult(error: { code: string; message: string }): any {
+  return {
+    content: [
+      {
+        type: 'text',
+        text: error.message
+      }
+    ],
+    structuredContent: { error },
+    isError: true
+  };
+}
+
+/**
+ * Build the MCP error result for a failed tool call, logging errors that are not the caller's fault
+ */
+export function queryErrorResult(toolName: string, error: unknown): any {
+  const structured = describeQueryError(error);
+  if (structured.code === 'internal') {
+    console.error(`${toolName} failed:`, error);
+  }
+  return toolErrorResult(structured);
+}
@@ -0,0 +1,99 @@
+import { DatabaseManager } from '../database/db';
+import { estimatePlan } from '../database/queryPlan';
+import { PlanEstimate, Principal, QueryGuardrailConfig, QueryParams } from '../types/index';
+import { QueryGuardrailError } from './queryErrors';
+
+/**
+ * Pre-flight checks that estimate a query's plan with EXPLAIN and stop it before it runs when the plan
+ * exceeds the configured result row, operator row or join thresholds. Estimates come from DuckDB's optimizer, so they can be
+ * far off for complex filters; thresholds should leave room for that.
+ */
+export class QueryGuardrails {
+  private dbManager: DatabaseManager;
+  private maxEstimatedRows: number | null;
+  private maxScannedRows: number | null;
+  private maxJoins: number | null;
+  readonly action: 'reject' | 'confirm';
+
+  constructor(dbManager: DatabaseManager, config: QueryGuardrailConfig = {}) {
+    this.dbManager = dbManager;
+    this.maxEstimatedRows = config.maxEstimatedRows ?? null;
+    this.maxScannedRows = config.maxScannedRows ?? null;
+    this.maxJoins = config.maxJoins ?? null;
+    this.action = config.action ?? 'reject';
+  }
+
+  /**
+   * Whether any threshold is configured
+   */
+  get enabled(): boolean {
+    return this.maxEstimatedRows !== null || this.maxScannedRows !== null || this.maxJoins !== null;
+  }
+
+  /**
+   * One sentence naming the configured thresholds, for tool descriptions
+   */
+  describe(): string {
+    const limits: string[] = [];
+    if (this.maxEstimatedRows !== null) {
+      limits.push(`more than ${this.maxEstimatedRows} result rows`);
+    }
+    if (this.maxScannedRows !== null) {
+      limits.push(`more than ${this.maxScannedRows} rows in any operator, such as a scan or join`);
+    }
+    if (this.maxJoins !== null) {
+      limits.push(`more than ${this.maxJoins} joins`);
+    }
+    const verb = this.action === 'confirm' ? 'held back until confirmed' : 'refused';
+    return `Queries whose plan is estimated to have ${limits.join(', ')} are ${verb}.`;
+  }
+
+  /**
+   * Describe each threshold the estimate exceeds; empty when it is within all of them
+   */
+  violations(estimate: PlanEstimate): string[] {
+    const reasons: string[] = [];
+    if (this.maxEstimatedRows !== null && estimate.estimatedRows !== null && estimate.estimatedRows > this.maxEstimatedRows) {
+      reasons.push(`an estimated ${estimate.estimatedRows} result rows (limit ${this.maxEstimatedRows})`);
+    }
+    if (this.maxScannedRows !== null && estimate.peakEstimatedRows !== null && estimate.peakEstimatedRows > this.maxScannedRows) {
+      reasons.push(`an estimated ${estimate.peakEstimatedRows} rows in one operator (limit ${this.maxScannedRows})`);
+    }
+    if (this.maxJoins !== null && estimate.joins > this.maxJoins) {
+      reasons.push(`${estimate.joins} joins (limit ${this.maxJoins})`);
+    }
+    return reasons;
+  }
+
+  /**
+   * Estimate a query and throw QueryGuardrailError when it exceeds a threshold. In confirm mode a
+   * confirmed query is let through. `limit` is the row limit the SQL was wrapped with, if any.
+   * Returns the estimate, or null when no threshold is configured.
+   */
+  async check(
+    sql: string,
+    params: QueryParams,
+    confirmed: boolean,
+    signal?: AbortSignal,
+    principal: Principal | null = null,
+    sessionId: string | null = null,
+    limit: number | null = null
+  ): Promise<PlanEstimate | null> {
+    if (!this.enabled) {
+      return null;
+    }
+
+    const plans = await this.dbManager.explainQuery(sql, params, { text: false }, signal, principal, sessionId);
+    const physical = plans.find(plan => plan.kind === 'physical_plan');
+    const estimate = estimatePlan(physical?.json ?? [], limit);
+    const reasons = this.violations(estimate);
+    if (reasons.length === 0 || (this.action === 'confirm' && confirmed)) {
+      return estimate;
+    }
+
+    const message = this.action === 'confirm'
+      ? `This query's plan has ${reasons.join(' and ')}. Narrow it with filters or a limit, or call dbQueryTool again with "confirm": true to run it anyway.`
+      : `Query refused: its plan has ${reasons.join(' and ')}. Narrow it with filters, a limit or fewer joins; use explainQuery to inspect the plan.`;
+    throw new QueryGuardrailError(message, estimate, this.action === 'confirm');
+  }
+}
@@ -0,0 +1,140 @@
+import { ResultCacheConfig, ResultCacheStats } from '../types/index';
+
+const DEFAULT_MAX_BYTES = 64 * 1024 * 1024;
+const DEFAULT_MAX_ENTRIES = 1000;
+const DEFAULT_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * Cached tool result with its bookkeeping
+ */
+interface CacheEntry {
+  result: any;
+  bytes: number;
+  createdAt: number;
+}
+
+/**
+ * LRU cache of complete dbQueryTool results, bounded by total serialized size and entry count.
+ *
+ * Entries are dropped whenever any dataset changes. A query that started before a change must not
+ * store its result afterwards, so callers take the data version when they start and pass it to set().
+ */
+export class ResultCache {
+  private entries: Map<string, CacheEntry> = new Map(); // Least recently used first
+  private maxBytes: number;
+  private maxEntries: number;
+  private ttlMs: number;
+  private bytes: number = 0;
+  private version: number = 0;
+  private counters = { hits: 0, misses: 0, evictions: 0, invalidations: 0 };
+
+  constructor(config: ResultCacheConfig = {}) {
+    this.maxBytes = config.maxBytes ?? DEFAULT_MAX_BYTES;
+    this.maxEntries = config.maxEntries ?? DEFAULT_MAX_ENTRIES;
+    this.ttlMs = config.ttlMs ?? DEFAULT_TTL_MS;
+  }
+
+  /**
+   * Whether results are cached at all
+   */
+  get enabled(): boolean {
+    return this.maxBytes > 0 && this.maxEntries > 0;
+  }
+
+  /**
+   * Current data version; it changes whenever the cache is invalidated
+   */
+  get dataVersion(): number {
+    return this.version;
+  }
+
+  /**
+   * Look up a result, counting the hit or miss. Returns the result and its age.
+   */
+  get(key: string): { result: any; ageMs: number } | null {
+    const entry = this.entries.get(key);
+    const ageMs = entry ? Date.now() - entry.createdAt : 0;
+    if (!entry || (this.ttlMs > 0 && ageMs > this.ttlMs)) {
+      if (entry) {
+        this.delete(key, entry);
+      }
+      this.counters.misses++;
+      return null;
+    }
+
+    // Move to the most recently used end
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.counters.hits++;
+    return { result: entry.result, ageMs };
+  }
+
+  /**
+   * Store a result computed at the given data version. Results from an older version, and results larger
+   * than a quarter of the cache, are not stored.
+   */
+  set(key: string, result: any, dataVersion: number): void {
+    if (!this.enabled || dataVersion !== this.version) {
+      return;
+    }
+    const bytes = Buffer.byteLength(JSON.stringify(result));
+    if (bytes > this.maxBytes / 4) {
+      return;
+    }
+
+    const existing = this.entries.get(key);
+    if (existing) {
+      this.delete(key, existing);
+    }
+    this.entries.set(key, { result, bytes, createdAt: Date.now() });
+    this.bytes += bytes;
+
+    for (const [oldestKey, oldest] of this.entries) {
+      if (this.bytes <= this.maxBytes && this.entries.size <= this.maxEntries) {
+        break;
+      }
+      this.delete(oldestKey, oldest);
+      this.counters.evictions++;
+    }
+  }
+
+  /**
+   * Drop every entry and move to a new data version
+   */
+  invalidate(): void {
+    if (this.entries.size > 0) {
+      this.counters.invalidations++;
+    }
+    this.entries.clear();
+    this.bytes = 0;
+    this.version++;
+  }
+
+  /**
+   * Current size and hit counters
+   */
+  getStats(): ResultCacheStats {
+    const lookups = this.counters.hits + this.counters.misses;
+    return {
+      enabled: this.enabled,
+      entries: this.entries.size,
+      bytes: this.bytes,
+      maxBytes: this.maxBytes,
+      maxEntries: this.maxEntries,
+      hits: this.counters.hits,
+      misses: this.counters.misses,
+      hitRate: lookups > 0 ? Math.round((this.counters.hits / lookups) * 1000) / 1000 : 0,
+      evictions: this.counters.evictions,
+      invalidations: this.counters.invalidations,
+      dataVersion: this.version
+    };
+  }
+
+  /**
+   * Remove one entry and release its bytes
+   */
+  private delete(key: string, entry: CacheEntry): void {
+    this.entries.delete(key);
+    this.bytes -= entry.bytes;
+  }
+}
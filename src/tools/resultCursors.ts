@@ -0,0 +1,213 @@
+import crypto from 'crypto';
+import { QueryStream } from '../database/queryStream';
+import { ResultFormat } from '../types/index';
+
+/**
+ * Open paged result held between tool calls
+ */
+export interface ResultCursor {
+  id: string;
+  stream: QueryStream;
+  iterator: AsyncIterator<any[]>;
+  carry: any[]; // Rows read from DuckDB but not yet returned
+  page: number; // Number of pages already returned
+  rowsReturned: number;
+  format: ResultFormat; // Output format chosen by the call that opened the cursor
+  limit: number | null; // Total row cap from the limit argument, null when unlimited
+  createdAt: Date;
+  lastAccessed: Date;
+}
+
+const DEFAULT_IDLE_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * Server-wide bounds on open cursors, shared by every session's store.
+ *
+ * Each open cursor holds a pooled DuckDB connection, so the total across sessions is kept below the
+ * pool size and cursors left idle past the timeout are closed.
+ */
+export class CursorLimits {
+  readonly maxOpen: number;
+  readonly idleTimeoutMs: number;
+  private stores: Set<ResultCursorStore> = new Set();
+
+  constructor(maxOpen: number, idleTimeoutMs: number = DEFAULT_IDLE_TIMEOUT_MS) {
+    this.maxOpen = Math.max(1, Math.floor(maxOpen));
+    this.idleTimeoutMs = idleTimeoutMs;
+  }
+
+  /**
+   * Number of cursors open in all sessions
+   */
+  get open(): number {
+    let open = 0;
+    for (const store of this.stores) {
+      open += store.size;
+    }
+    return open;
+  }
+
+  /**
+   * Track a session's store until it is closed
+   */
+  add(store: ResultCursorStore): void {
+    this.stores.add(store);
+  }
+
+  /**
+   * Stop tracking a closed store
+   */
+  remove(store: ResultCursorStore): void {
+    this.stores.delete(store);
+  }
+
+  /**
+   * Close cursors in every session that have been idle longer than the timeout; returns how many were closed
+   */
+  closeIdle(): number {
+    let closed = 0;
+    for (const store of this.stores) {
+      closed += store.closeIdle(this.idleTimeoutMs);
+    }
+    return closed;
+  }
+
+  /**
+   * Close the least recently used cursors of any session until one more can be opened
+   */
+  makeRoom(): void {
+    while (this.open >= this.maxOpen) {
+      let oldest: { store: ResultCursorStore; cursor: ResultCursor } | null = null;
+      for (const store of this.stores) {
+        const cursor = store.leastRecent();
+        if (cursor && (!oldest || cursor.lastAccessed < oldest.cursor.lastAccessed)) {
+          oldest = { store, cursor };
+        }
+      }
+      if (!oldest) {
+        return;
+      }
+      oldest.store.close(oldest.cursor.id);
+    }
+  }
+}
+
+/**
+ * Session-scoped store of open result cursors.
+ *
+ * Each cursor keeps its DuckDB streaming result open, so later pages are read from the same
+ * transaction snapshot as the first page. Closing the store (when the session ends) releases them all.
+ */
+export class ResultCursorStore {
+  private cursors: Map<string, ResultCursor> = new Map();
+  private limits: CursorLimits;
+  private maxCursors: number;
+
+  constructor(limits: CursorLimits, maxCursors: number = 5) {
+    this.limits = limits;
+    this.maxCursors = maxCursors;
+    limits.add(this);
+  }
+
+  /**
+   * Number of open cursors
+   */
+  get size(): number {
+    return this.cursors.size;
+  }
+
+  /**
+   * Register an open stream and return its cursor. The least recently used cursor is closed when the store
+   * is full, or the least recently used one of any session when the server-wide limit is reached.
+   */
+  open(stream: QueryStream, iterator: AsyncIterator<any[]>, carry: any[], rowsReturned: number, format: ResultFormat, limit: number | null): ResultCursor {
+    while (this.cursors.size >= this.maxCursors) {
+      this.close(this.leastRecent()!.id);
+    }
+    this.limits.makeRoom();
+
+    const now = new Date();
+    const cursor: ResultCursor = {
+      id: crypto.randomBytes(18).toString('base64url'),
+      stream,
+      iterator,
+      carry,
+      page: 1,
+      rowsReturned,
+      format,
+      limit,
+      createdAt: now,
+      lastAccessed: now
+    };
+    this.cursors.set(cursor.id, cursor);
+    return cursor;
+  }
+
+  /**
+   * Look up a cursor by its opaque id. A cursor idle past the timeout is closed and not returned.
+   */
+  get(id: string): ResultCursor | undefined {
+    const cursor = this.cursors.get(id);
+    if (!cursor) {
+      return undefined;
+    }
+    if (Date.now() - cursor.lastAccessed.getTime() > this.limits.idleTimeoutMs) {
+      this.close(id);
+      return undefined;
+    }
+    cursor.lastAccessed = new Date();
+    return cursor;
+  }
+
+  /**
+   * The cursor that was used longest ago
+   */
+  leastRecent(): ResultCursor | undefined {
+    let oldest: ResultCursor | undefined;
+    for (const cursor of this.cursors.values()) {
+      if (!oldest || cursor.lastAccessed < oldest.lastAccessed) {
+        oldest = cursor;
+      }
+    }
+    return oldest;
+  }
+
+  /**
+   * Close cursors idle longer than idleTimeoutMs; returns how many were closed
+   */
+  closeIdle(idleTimeoutMs: number): number {
+    const cutoff = Date.now() - idleTimeoutMs;
+    const idle = Array.from(this.cursors.values()).filter(cursor => cursor.lastAccessed.getTime() < cutoff);
+    for (const cursor of idle) {
+      this.close(cursor.id);
+    }
+    return idle.length;
+  }
+
+  /**
+   * Close a cursor and release its DuckDB result
+   */
+  close(id: string): void {
+    const cursor = this.cursors.get(id);
+    if (!cursor) {
+      return;
+    }
+    this.cursors.delete(id);
+
+    // Interrupt a fetch in progress; returning the iterator runs its cleanup, which closes the stream
+    cursor.stream.cancel();
+    cursor.iterator.return?.().catch(error => {
+      console.error(`Failed to close result cursor ${id}:`, error);
+    });
+  }
+
+  /**
+   * Close every open cursor and leave the server-wide limits
+   */
+  closeAll(): void {
+    for (const id of Array.from(this.cursors.keys())) {
+      this.close(id);
+    }
+    this.limits.remove(this);
+  }
+}
@@ -0,0 +1,280 @@
+import crypto from 'crypto';
+import {
+  Bool,
+  DataType,
+  DateDay,
+  Float32,
+  Float64,
+  Int8,
+  Int16,
+  Int32,
+  Int64,
+  Table,
+  TimeMicrosecond,
+  Timestamp,
+  TimestampMicrosecond,
+  TimestampMillisecond,
+  TimestampNanosecond,
+  TimestampSecond,
+  Uint8,
+  Uint16,
+  Uint32,
+  Uint64,
+  Utf8,
+  Vector,
+  makeData,
+  makeVector,
+  tableToIPC,
+  vectorFromArray
+} from 'apache-arrow';
+import { ResultFormat } from '../types/index';
+
+/**
+ * Every supported output format, in the order documented in the tool schema
+ */
+export const RESULT_FORMATS: ResultFormat[] = ['rows', 'json', 'ndjson', 'csv', 'markdown', 'arrow', 'parquet'];
+
+/**
+ * MIME types of the binary formats
+ */
+export const BINARY_MIME_TYPES: Record<'arrow' | 'parquet', string> = {
+  arrow: 'application/vnd.apache.arrow.stream',
+  parquet: 'application/vnd.apache.parquet'
+};
+
+/**
+ * MCP content item produced by a formatter
+ */
+export type ResultContent =
+  | { type: 'text'; text: string }
+  | { type: 'resource'; resource: { uri: string; mimeType: string; blob: string } };
+
+/**
+ * Check whether a value is a supported format name
+ */
+export function isResultFormat(value: unknown): value is ResultFormat {
+  return typeof value === 'string' && (RESULT_FORMATS as string[]).includes(value);
+}
+
+/**
+ * Render a single cell as text. Temporal and decimal values already arrive as their SQL text or numbers;
+ * lists and structs are rendered as JSON.
+ */
+function cellText(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Project a row onto the result's column order
+ */
+export function orderedRow(row: any, columns: string[]): Record<string, unknown> {
+  const ordered: Record<string, unknown> = {};
+  for (const column of columns) {
+    ordered[column] = row[column] ?? null;
+  }
+  return ordered;
+}
+
+/**
+ * Quote a CSV field when it contains a delimiter, quote or line break (RFC 4180)
+ */
+function csvField(value: unknown): string {
+  const text = cellText(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Escape a Markdown table cell
+ */
+function markdownCell(value: unknown): string {
+  return cellText(value).replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+}
+
+/**
+ * Render rows as text in one of the textual formats, preserving column order
+ */
+export function renderText(format: Exclude<ResultFormat, 'arrow' | 'parquet'>, columns: string[], rows: any[]): ResultContent[] {
+  switch (format) {
+    case 'rows':
+      return rows.map(row => ({ type: 'text', text: JSON.stringify(orderedRow(row, columns)) }));
+    case 'json':
+      return [{ type: 'text', text: JSON.stringify(rows.map(row => orderedRow(row, columns))) }];
+    case 'ndjson':
+      return [{ type: 'text', text: rows.map(row => JSON.stringify(orderedRow(row, columns))).join('\n') }];
+    case 'csv': {
+      const lines = [columns.map(csvField).join(',')];
+      for (const row of rows) {
+        lines.push(columns.map(column => csvField(row[column])).join(','));
+      }
+      return [{ type: 'text', text: lines.join('\r\n') }];
+    }
+    case 'markdown': {
+      const lines = [
+        `| ${columns.map(markdownCell).join(' | ')} |`,
+        `| ${columns.map(() => '---').join(' | ')} |`
+      ];
+      for (const row of rows) {
+        lines.push(`| ${columns.map(column => markdownCell(row[column])).join(' | ')} |`);
+      }
+      return [{ type: 'text', text: lines.join('\n') }];
+    }
+  }
+}
+
+/**
+ * Arrow types for DuckDB integer and floating point column types; their values are already JS numbers
+ */
+const ARROW_NUMBER_TYPES: Record<string, () => DataType> = {
+  TINYINT: () => new Int8(),
+  SMALLINT: () => new Int16(),
+  INTEGER: () => new Int32(),
+  UTINYINT: () => new Uint8(),
+  USMALLINT: () => new Uint16(),
+  UINTEGER: () => new Uint32(),
+  FLOAT: () => new Float32(),
+  DOUBLE: () => new Float64(),
+  // No Arrow integer is wide enough
+  HUGEINT: () => new Float64(),
+  UHUGEINT: () => new Float64()
+};
+
+/**
+ * Arrow types for DuckDB timestamp types and how many units of each make up a second
+ */
+const ARROW_TIMESTAMP_TYPES: Record<string, { type: () => Timestamp; unitsPerSecond: bigint }> = {
+  TIMESTAMP: { type: () => new TimestampMicrosecond(), unitsPerSecond: 1_000_000n },
+  'TIMESTAMP WITH TIME ZONE': { type: () => new TimestampMicrosecond('UTC'), unitsPerSecond: 1_000_000n },
+  TIMESTAMP_S: { type: () => new TimestampSecond(), unitsPerSecond: 1n },
+  TIMESTAMP_MS: { type: () => new TimestampMillisecond(), unitsPerSecond: 1_000n },
+  TIMESTAMP_NS: { type: () => new TimestampNanosecond(), unitsPerSecond: 1_000_000_000n }
+};
+
+/**
+ * Scale a fractional-seconds digit string (e.g. '345678') to a count of units
+ */
+function fractionUnits(digits: string | undefined, unitsPerSecond: bigint): bigint {
+  const places = String(unitsPerSecond).length - 1;
+  return BigInt((digits ?? '').padEnd(places, '0').slice(0, places) || '0');
+}
+
+/**
+ * Parse DuckDB's timestamp text ('YYYY-MM-DD HH:MM:SS[.fff][+HH[:MM]]') into units since the epoch.
+ * Values it cannot represent, such as 'infinity', throw so the column falls back to UTF-8.
+ */
+function timestampUnits(text: string, unitsPerSecond: bigint): bigint {
+  const match = /^(\d{4,})-(\d\d)-(\d\d) (\d\d):(\d\d):(\d\d)(?:\.(\d+))?(?:([+-])(\d\d)(?::?(\d\d))?)?$/.exec(text);
+  if (!match) {
+    throw new Error(`Unsupported timestamp: ${text}`);
+  }
+  const [, year, month, day, hour, minute, second, fraction, sign, offsetHours, offsetMinutes] = match;
+  const date = new Date(Date.UTC(2000, Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second)));
+  date.setUTCFullYear(Number(year));
+  const offsetSeconds = sign ? (sign === '-' ? -1 : 1) * (Number(offsetHours) * 3600 + Number(offsetMinutes ?? 0) * 60) : 0;
+  const seconds = BigInt(date.getTime() / 1000 - offsetSeconds);
+  return seconds * unitsPerSecond + fractionUnits(fraction, unitsPerSecond);
+}
+
+/**
+ * Parse DuckDB's time text ('HH:MM:SS[.ffffff]') into microseconds since midnight
+ */
+function timeMicros(text: string): bigint {
+  const match = /^(\d\d):(\d\d):(\d\d)(?:\.(\d+))?$/.exec(text);
+  if (!match) {
+    throw new Error(`Unsupported time: ${text}`);
+  }
+  const [, hour, minute, second, fraction] = match;
+  const seconds = Number(hour) * 3600 + Number(minute) * 60 + Number(second);
+  return BigInt(seconds) * 1_000_000n + fractionUnits(fraction, 1_000_000n);
+}
+
+/**
+ * Build a vector of 64-bit values directly, so timestamps keep their full precision
+ */
+function int64Vector<T extends Timestamp>(type: T, values: Array<bigint | null>): Vector<T> {
+  const data = new BigInt64Array(values.length);
+  const nullBitmap = new Uint8Array(Math.ceil(values.length / 8));
+  let nullCount = 0;
+  values.forEach((value, index) => {
+    if (value === null) {
+      nullCount++;
+    } else {
+      data[index] = value;
+      nullBitmap[index >> 3]! |= 1 << (index % 8);
+    }
+  });
+  return makeVector(makeData<T>({ type, length: values.length, nullCount, nullBitmap, data }));
+}
+
+/**
+ * Build the Arrow vector for one column from its DuckDB type. Values arrive as JS numbers, booleans and
+ * strings, with decimals as numbers and dates, times and timestamps as their SQL text.
+ */
+function arrowVector(type: string, values: any[]): Vector {
+  const nonNull = <T>(convert: (value: any) => T) => values.map(value => value === null ? null : convert(value));
+
+  if (type === 'BOOLEAN') {
+    return vectorFromArray(values, new Bool());
+  }
+  if (ARROW_NUMBER_TYPES[type] || type.startsWith('DECIMAL')) {
+    return vectorFromArray(nonNull(Number), ARROW_NUMBER_TYPES[type]?.() ?? new Float64());
+  }
+  if (type === 'BIGINT') {
+    return vectorFromArray(nonNull(value => BigInt(value)), new Int64());
+  }
+  if (type === 'UBIGINT') {
+    return vectorFromArray(nonNull(value => BigInt(value)), new Uint64());
+  }
+  if (type === 'DATE') {
+    return vectorFromArray(nonNull(value => {
+      const time = Date.parse(value);
+      if (Number.isNaN(time)) {
+        throw new Error(`Unsupported date: ${value}`);
+      }
+      return time;
+    }), new DateDay());
+  }
+  if (type === 'TIME') {
+    return vectorFromArray(nonNull(value => timeMicros(String(value))), new TimeMicrosecond());
+  }
+  const timestamp = ARROW_TIMESTAMP_TYPES[type];
+  if (timestamp) {
+    return int64Vector(timestamp.type(), nonNull(value => timestampUnits(String(value), timestamp.unitsPerSecond)));
+  }
+  return vectorFromArray(nonNull(cellText), new Utf8());
+}
+
+/**
+ * Encode rows as an Arrow IPC stream, with each column typed after its DuckDB type: integers, floats,
+ * booleans, dates, times and timestamps map to the matching Arrow types, DECIMAL and HUGEINT to Float64,
+ * and everything else to UTF-8. A column whose values do not fit its type falls back to UTF-8.
+ */
+export function encodeArrow(columns: string[], columnTypes: string[], rows: any[]): Uint8Array {
+  const vectors: Record<string, Vector> = {};
+  columns.forEach((column, index) => {
+    const values = rows.map(row => row[column] ?? null);
+    try {
+      vectors[column] = arrowVector(columnTypes[index] ?? 'VARCHAR', values);
+    } catch {
+      vectors[column] = arrowVector('VARCHAR', values);
+    }
+  });
+  return tableToIPC(new Table(vectors), 'stream');
+}
+
+/**
+ * Wrap binary result data as an embedded blob resource
+ */
+export function binaryContent(format: 'arrow' | 'parquet', data: Uint8Array): ResultContent {
+  const extension = format === 'arrow' ? 'arrows' : 'parquet';
+  return {
+    type: 'resource',
+    resource: {
+      uri: `duckdb://results/${crypto.randomUUID()}.${extension}`,
+      mimeType: BINARY_MIME_TYPES[format],
+      blob: Buffer.from(data).toString('base64')
+    }
+  };
+}
@@ -0,0 +1,311 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { DatabaseManager } from '../database/db';
+import { inferFormat } from '../database/catalog';
+import { ProfileOptions, TableProfiler } from '../database/tableProfiler';
+import { DatasetConfig, Principal, TableDescription } from '../types/index';
+import { QueryToolError, queryErrorResult, toolOutputSchema } from './queryErrors';
+
+const DEFAULT_TOP_K = 5;
+const MAX_TOP_K = 50;
+const DEFAULT_BINS = 10;
+const MAX_BINS = 100;
+
+/**
+ * Described and profiled tables kept at most; the oldest are dropped first
+ */
+const MAX_CACHED_RESULTS = 500;
+
+/**
+ * Tool names, in the order they are listed
+ */
+const SCHEMA_TOOLS = ['listTables', 'describeTable', 'profileTable', 'profileColumn'];
+
+/**
+ * Schema discovery tools: listTables, describeTable, profileTable and profileColumn. Every result reflects
+ * the caller's access policy and is cached until the dataset it describes changes.
+ */
+export class SchemaTools {
+  private dbManager: DatabaseManager;
+  private profiler: TableProfiler;
+  private cache: Map<string, any> = new Map(); // Keyed by table, dataset version, policy scope and request
+
+  constructor(dbManager: DatabaseManager) {
+    this.dbManager = dbManager;
+    this.profiler = new TableProfiler(dbManager);
+
+    // Drop results for older versions of a changed dataset
+    this.dbManager.onTableChanged(table => {
+      for (const key of this.cache.keys()) {
+        if (JSON.parse(key)[0] === table) {
+          this.cache.delete(key);
+        }
+      }
+    });
+  }
+
+  /**
+   * Check whether a tool name belongs to these tools
+   */
+  handles(name: string): boolean {
+    return SCHEMA_TOOLS.includes(name);
+  }
+
+  /**
+   * Get the MCP tool definitions
+   */
+  getToolDefinitions(principal: Principal | null = null): Tool[] {
+    const tables = this.dbManager.visibleDatasets(principal).map(dataset => dataset.name);
+    const table = { type: 'string', enum: tables, description: 'Registered table or view name' };
+    const topK = { type: 'integer', minimum: 0, maximum: MAX_TOP_K, description: `Most frequent values to return per column (default: ${DEFAULT_TOP_K})` };
+    const bins = { type: 'integer', minimum: 1, maximum: MAX_BINS, description: `Approximate histogram bins for numeric and date columns; boundaries are rounded, so the count may differ slightly (default: ${DEFAULT_BINS})` };
+
+    return [
+      {
+        name: 'listTables',
+        description: 'List the tables and views you can query, with their kind, source format and description.',
+        inputSchema: { type: 'object', properties: {}, additionalProperties: false },
+        outputSchema: toolOutputSchema({
+          tables: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                name: { type: 'string' },
+                kind: { type: 'string', enum: ['table', 'view'] },
+                format: { type: 'string' },
+                description: { type: ['string', 'null'] }
+              },
+              required: ['name', 'kind', 'format', 'description']
+            }
+          }
+        }, ['tables'])
+      },
+      {
+        name: 'describeTable',
+        description: 'Describe a table: its columns with types, nullability and comments, and the number of rows you can see.',
+        inputSchema: { type: 'object', properties: { table }, required: ['table'], additionalProperties: false },
+        outputSchema: toolOutputSchema({
+          name: { type: 'string' },
+          kind: { type: 'string', enum: ['table', 'view'] },
+          format: { type: 'string' },
+          description: { type: ['string', 'null'] },
+          rowCount: { type: 'integer' },
+          columns: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                name: { type: 'string' },
+                type: { type: 'string' },
+                nullable: { type: 'boolean' },
+                comment: { type: ['string', 'null'] },
+                position: { type: 'integer' }
+              },
+              required: ['name', 'type', 'nullable', 'comment', 'position']
+            }
+          }
+        }, ['name', 'kind', 'format', 'rowCount', 'columns'])
+      },
+      {
+        name: 'profileTable',
+        description: 'Profile every column of a table: row and null counts, null rate, distinct count, min, max, mean, standard deviation, quartiles, most frequent values and a histogram for numeric and date columns. Values are returned as text.',
+        inputSchema: { type: 'object', properties: { table, topK, bins }, required: ['table'], additionalProperties: false },
+        outputSchema: toolOutputSchema({
+          table: { type: 'string' },
+          rowCount: { type: 'integer' },
+          columns: { type: 'array', items: this.columnProfileSchema() }
+        }, ['table', 'rowCount', 'columns'])
+      },
+      {
+        name: 'profileColumn',
+        description: 'Profile one column of a table: row and null counts, null rate, distinct count, min, max, mean, standard deviation, quartiles, most frequent values and a histogram for numeric and date columns. Values are returned as text.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            table,
+            column: { type: 'string', description: 'Column name, as listed by describeTable' },
+            topK,
+            bins
+          },
+          required: ['table', 'column'],
+          additionalProperties: false
+        },
+        outputSchema: toolOutputSchema({
+          table: { type: 'string' },
+          column: this.columnProfileSchema()
+        }, ['table', 'column'])
+      }
+    ];
+  }
+
+  /**
+   * Run a schema tool on behalf of a principal, returning the MCP tool result
+   */
+  async call(name: string, args: Record<string, unknown>, principal: Principal | null, signal?: AbortSignal): Promise<any> {
+    try {
+      switch (name) {
+        case 'listTables':
+          return this.successResult({
+            tables: this.dbManager.visibleDatasets(principal).map(dataset => ({
+              name: dataset.name,
+              kind: dataset.mode ?? 'table',
+              format: dataset.format ?? inferFormat(dataset.path),
+              description: dataset.description ?? null
+            }))
+          });
+        case 'describeTable': {
+          const dataset = this.resolveTable(args.table, principal);
+          const { value, cached } = await this.describe(dataset, principal, signal);
+          return this.successResult(value, { datasetVersion: this.dbManager.getDatasetVersion(dataset.name), cached });
+        }
+        case 'profileTable': {
+          const dataset = this.resolveTable(args.table, principal);
+          const options = this.profileOptions(args);
+          const { value: description } = await this.describe(dataset, principal, signal);
+          const { value, cached } = await this.cached(dataset, principal, ['profile', options], () =>
+            this.profiler.profileColumns(dataset, description.columns, principal, options, signal));
+          return this.successResult(value, { datasetVersion: this.dbManager.getDatasetVersion(dataset.name), cached });
+        }
+        case 'profileColumn': {
+          const dataset = this.resolveTable(args.table, principal);
+          const options = this.profileOptions(args);
+          const { value: description } = await this.describe(dataset, principal, signal);
+          const column = typeof args.column === 'string'
+            ? description.columns.find(candidate => candidate.name.toLowerCase() === (args.column as string).toLowerCase())
+            : undefined;
+          if (!column) {
+            throw new QueryToolError('validation', `Unknown column "${String(args.column)}" in ${dataset.name}. Columns: ${description.columns.map(candidate => candidate.name).join(', ')}`);
+          }
+          const { value, cached } = await this.cached(dataset, principal, ['profile', column.name, options], () =>
+            this.profiler.profileColumns(dataset, [column], principal, options, signal));
+          return this.successResult({ table: dataset.name, column: value.columns[0] }, { datasetVersion: this.dbManager.getDatasetVersion(dataset.name), cached });
+        }
+        default:
+          throw new Error(`Unknown tool: ${name}`);
+      }
+    } catch (error) {
+      return queryErrorResult(name, error);
+    }
+  }
+
+  /**
+   * Look up a registered table the principal may query
+   */
+  private resolveTable(value: unknown, principal: Principal | null): DatasetConfig {
+    if (typeof value !== 'string' || value === '') {
+      throw new QueryToolError('validation', 'table is required and must be a string');
+    }
+    const dataset = this.dbManager.getCatalog().get(value);
+    if (!dataset || !this.dbManager.canAccessTable(dataset.name, principal)) {
+      const tables = this.dbManager.visibleDatasets(principal).map(candidate => candidate.name);
+      throw new QueryToolError('validation', `Unknown table "${value}". Tables: ${tables.join(', ')}`);
+    }
+    return dataset;
+  }
+
+  /**
+   * Validate topK and bins, applying defaults
+   */
+  private profileOptions(args: Record<string, unknown>): ProfileOptions {
+    const integer = (name: string, value: unknown, min: number, max: number, fallback: number) => {
+      if (value === undefined) {
+        return fallback;
+      }
+      if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+        throw new QueryToolError('validation', `${name} must be an integer from ${min} to ${max}`);
+      }
+      return value;
+    };
+    return {
+      topK: integer('topK', args.topK, 0, MAX_TOP_K, DEFAULT_TOP_K),
+      bins: integer('bins', args.bins, 1, MAX_BINS, DEFAULT_BINS)
+    };
+  }
+
+  /**
+   * Cached description of a table as the principal sees it
+   */
+  private describe(dataset: DatasetConfig, principal: Principal | null, signal?: AbortSignal): Promise<{ value: TableDescription; cached: boolean }> {
+    return this.cached(dataset, principal, ['describe'], () => this.profiler.describeTable(dataset, principal, signal));
+  }
+
+  /**
+   * Return a result computed for the current version of the dataset and the principal's policy, or
+   * compute and remember it. Results computed while the dataset changed are not kept.
+   */
+  private async cached<T>(dataset: DatasetConfig, principal: Principal | null, request: unknown[], compute: () => Promise<T>): Promise<{ value: T; cached: boolean }> {
+    const version = this.dbManager.getDatasetVersion(dataset.name);
+    const key = JSON.stringify([dataset.name, version, this.dbManager.accessScope(principal), ...request]);
+    if (this.cache.has(key)) {
+      return { value: this.cache.get(key), cached: true };
+    }
+
+    const value = await compute();
+    if (this.dbManager.getDatasetVersion(dataset.name) === version) {
+      this.cache.set(key, value);
+      if (this.cache.size > MAX_CACHED_RESULTS) {
+        this.cache.delete(this.cache.keys().next().value!);
+      }
+    }
+    return { value, cached: false };
+  }
+
+  /**
+   * Schema of one column profile
+   */
+  private columnProfileSchema(): object {
+    const text = { type: ['string', 'null'] };
+    return {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        type: { type: 'string' },
+        rowCount: { type: 'integer' },
+        nullCount: { type: 'integer' },
+        nullRate: { type: 'number' },
+        distinctCount: { type: 'integer' },
+        min: text,
+        max: text,
+        mean: text,
+        stddev: { type: ['number', 'null'] },
+        quartiles: {
+          type: ['object', 'null'],
+          properties: { q25: { type: 'string' }, q50: { type: 'string' }, q75: { type: 'string' } }
+        },
+        topValues: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: { value: { type: 'string' }, count: { type: 'integer' } },
+            required: ['value', 'count']
+          }
+        },
+        histogram: {
+          type: ['array', 'null'],
+          items: {
+            type: 'object',
+            properties: { lowerBound: { type: 'string' }, upperBound: { type: 'string' }, count: { type: 'integer' } },
+            required: ['lowerBound', 'upperBound', 'count']
+          }
+        }
+      },
+      required: ['name', 'type', 'rowCount', 'nullCount', 'nullRate', 'distinctCount', 'min', 'max', 'topValues', 'histogram']
+    };
+  }
+
+  /**
+   * Build the MCP result with the structured value also rendered as JSON text
+   */
+  private successResult(structured: any, meta?: { datasetVersion: number; cached: boolean }): any {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(structured, null, 2)
+        }
+      ],
+      structuredContent: structured,
+      ...(meta && { _meta: meta })
+    };
+  }
+}
@@ -0,0 +1,498 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { DatabaseManager } from '../database/db';
+import { HiddenColumnError, PeriodLimitError, WorkforceAnalytics } from '../database/workforceAnalytics';
+import { HeadcountReport, Principal, PromotionGapReport, SalaryBandReport, TenureReport, WorkforceGroupBy } from '../types/index';
+import { QueryToolError, queryErrorResult, toolOutputSchema } from './queryErrors';
+
+const EMPLOYEES_TABLE = 'employees';
+const GROUP_BY: WorkforceGroupBy[] = ['department', 'location', 'position', 'none'];
+const INTERVALS: Array<HeadcountReport['interval']> = ['month', 'quarter', 'year'];
+const MAX_PERIODS = 240;
+const DEFAULT_BUCKET_YEARS = 5;
+const DEFAULT_GAP_LIMIT = 10;
+const MAX_GAP_LIMIT = 100;
+const DEFAULT_PERCENTILES = [0.1, 0.25, 0.5, 0.75, 0.9];
+const MAX_PERCENTILES = 10;
+
+/**
+ * Groups named in a text summary before the rest are left out
+ */
+const SUMMARY_GROUPS = 3;
+
+/**
+ * Tool names, in the order they are listed
+ */
+const WORKFORCE_TOOLS = ['headcountOverTime', 'tenureDistribution', 'promotionGapReport', 'salaryBands'];
+
+/**
+ * Workforce analytics tools over the employees table: headcountOverTime, tenureDistribution,
+ * promotionGapReport and salaryBands. Each returns series ready for charting as structured content,
+ * with a short text summary ahead of the JSON.
+ */
+export class WorkforceTools {
+  private dbManager: DatabaseManager;
+  private analytics: WorkforceAnalytics;
+
+  constructor(dbManager: DatabaseManager) {
+    this.dbManager = dbManager;
+    this.analytics = new WorkforceAnalytics(dbManager);
+  }
+
+  /**
+   * Check whether a tool name belongs to these tools
+   */
+  handles(name: string): boolean {
+    return WORKFORCE_TOOLS.includes(name);
+  }
+
+  /**
+   * Tool definitions visible to a principal; empty when it may not read the employees table
+   */
+  getToolDefinitions(principal: Principal | null = null): Tool[] {
+    if (!this.dbManager.canAccessTable(EMPLOYEES_TABLE, principal)) {
+      return [];
+    }
+
+    const groupBy = (fallback: WorkforceGroupBy) => ({
+      type: 'string',
+      enum: GROUP_BY,
+      description: `Split the report into one series per value of this column, or none for all employees together (default: ${fallback})`
+    });
+    const asOf = { type: 'string', format: 'date', description: 'Date to measure from, YYYY-MM-DD (default: today)' };
+    const bucket = {
+      type: 'object',
+      properties: {
+        label: { type: 'string' },
+        from: { type: 'number' },
+        to: { type: ['number', 'null'] },
+        count: { type: 'integer' }
+      },
+      required: ['label', 'from', 'to', 'count']
+    };
+
+    return [
+      {
+        name: 'headcountOverTime',
+        description: 'Hires per period and headcount at the end of each period, by month, quarter or year, optionally split by department, location or position. The data has no leaving dates, so headcount counts everyone who had started by the end of the period.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            interval: { type: 'string', enum: INTERVALS, description: 'Period length (default: quarter)' },
+            groupBy: groupBy('none'),
+            from: { type: 'string', format: 'date', description: 'First period contains this date, YYYY-MM-DD (default: earliest start date)' },
+            to: { type: 'string', format: 'date', description: 'Last period contains this date, YYYY-MM-DD (default: today)' }
+          },
+          additionalProperties: false
+        },
+        outputSchema: toolOutputSchema({
+          interval: { type: 'string', enum: INTERVALS },
+          groupBy: { type: 'string', enum: GROUP_BY },
+          from: { type: 'string', format: 'date' },
+          to: { type: 'string', format: 'date' },
+          series: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                group: { type: 'string' },
+                points: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      period: { type: 'string', description: 'Chart label: 2024-03, 2024-Q1 or 2024' },
+                      periodStart: { type: 'string', format: 'date' },
+                      hires: { type: 'integer' },
+                      headcount: { type: 'integer' }
+                    },
+                    required: ['period', 'periodStart', 'hires', 'headcount']
+                  }
+                }
+              },
+              required: ['group', 'points']
+            }
+          }
+        }, ['interval', 'groupBy', 'from', 'to', 'series'])
+      },
+      {
+        name: 'tenureDistribution',
+        description: 'Completed years of service as of a date, bucketed, with mean and median tenure, optionally split by department, location or position.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            asOf,
+            bucketYears: { type: 'integer', minimum: 1, maximum: 10, description: `Years per bucket (default: ${DEFAULT_BUCKET_YEARS})` },
+            groupBy: groupBy('none')
+          },
+          additionalProperties: false
+        },
+        outputSchema: toolOutputSchema({
+          asOf: { type: 'string', format: 'date' },
+          bucketYears: { type: 'integer' },
+          groupBy: { type: 'string', enum: GROUP_BY },
+          series: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                group: { type: 'string' },
+                employees: { type: 'integer' },
+                meanYears: { type: ['number', 'null'] },
+                medianYears: { type: ['number', 'null'] },
+                buckets: { type: 'array', items: bucket, description: 'Completed years of service' }
+              },
+              required: ['group', 'employees', 'meanYears', 'medianYears', 'buckets']
+            }
+          }
+        }, ['asOf', 'bucketYears', 'groupBy', 'series'])
+      },
+      {
+        name: 'promotionGapReport',
+        description: 'Time since each employee\'s last promotion, or since their start date if never promoted: per-group median, mean and longest gap in months, bucketed counts, and the employees waiting longest.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            asOf,
+            groupBy: groupBy('department'),
+            limit: { type: 'integer', minimum: 0, maximum: MAX_GAP_LIMIT, description: `Employees with the longest gaps to list (default: ${DEFAULT_GAP_LIMIT})` }
+          },
+          additionalProperties: false
+        },
+        outputSchema: toolOutputSchema({
+          asOf: { type: 'string', format: 'date' },
+          groupBy: { type: 'string', enum: GROUP_BY },
+          groups: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                group: { type: 'string' },
+                employees: { type: 'integer' },
+                neverPromoted: { type: 'integer' },
+                medianMonths: { type: ['number', 'null'] },
+                meanMonths: { type: ['number', 'null'] },
+                maxMonths: { type: ['number', 'null'] },
+                buckets: { type: 'array', items: bucket, description: 'Completed months since the last promotion' }
+              },
+              required: ['group', 'employees', 'neverPromoted', 'medianMonths', 'meanMonths', 'maxMonths', 'buckets']
+            }
+          },
+          longestGaps: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                employeeId: { type: 'integer' },
+                employeeName: { type: 'string' },
+                department: { type: 'string' },
+                position: { type: 'string' },
+                since: { type: 'string', format: 'date' },
+                months: { type: 'integer' },
+                neverPromoted: { type: 'boolean' }
+              },
+              required: ['employeeId', 'since', 'months', 'neverPromoted']
+            }
+          }
+        }, ['asOf', 'groupBy', 'groups', 'longestGaps'])
+      },
+      {
+        name: 'salaryBands',
+        description: 'Salary percentiles, range and mean per department, position or location, highest median first.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            groupBy: groupBy('department'),
+            percentiles: {
+              type: 'array',
+              items: { type: 'number', minimum: 0, maximum: 1 },
+              minItems: 1,
+              maxItems: MAX_PERCENTILES,
+              description: `Percentiles as fractions from 0 to 1 (default: ${DEFAULT_PERCENTILES.join(', ')})`
+            }
+          },
+          additionalProperties: false
+        },
+        outputSchema: toolOutputSchema({
+          groupBy: { type: 'string', enum: GROUP_BY },
+          bands: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                group: { type: 'string' },
+                employees: { type: 'integer' },
+                min: { type: ['number', 'null'] },
+                max: { type: ['number', 'null'] },
+                mean: { type: ['number', 'null'] },
+                percentiles: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: { percentile: { type: 'number' }, salary: { type: 'number' } },
+                    required: ['percentile', 'salary']
+                  }
+                }
+              },
+              required: ['group', 'employees', 'min', 'max', 'mean', 'percentiles']
+            }
+          }
+        }, ['groupBy', 'bands'])
+      }
+    ];
+  }
+
+  /**
+   * Run a workforce tool on behalf of a principal, returning the MCP tool result
+   */
+  async call(name: string, args: Record<string, unknown>, principal: Principal | null, sessionId: string | null = null, signal?: AbortSignal): Promise<any> {
+    try {
+      if (!this.dbManager.canAccessTable(EMPLOYEES_TABLE, principal)) {
+        throw new QueryToolError('validation', 'The employees table is not available to you');
+      }
+
+      switch (name) {
+        case 'headcountOverTime': {
+          this.checkArguments(args, ['interval', 'groupBy', 'from', 'to']);
+          const interval = this.choice('interval', args.interval, INTERVALS, 'quarter');
+          const from = args.from === undefined ? null : this.date('from', args.from);
+          const to = args.to === undefined ? this.today() : this.date('to', args.to);
+          if (from !== null && from > to) {
+            throw new QueryToolError('validation', 'from must not be after to');
+          }
+          const report = await this.analytics.headcountOverTime({
+            interval,
+            groupBy: this.choice('groupBy', args.groupBy, GROUP_BY, 'none'),
+            from,
+            to,
+            maxPeriods: MAX_PERIODS
+          }, principal, sessionId, signal);
+          return this.successResult(this.summarizeHeadcount(report), report);
+        }
+        case 'tenureDistribution': {
+          this.checkArguments(args, ['asOf', 'bucketYears', 'groupBy']);
+          const report = await this.analytics.tenureDistribution(
+            args.asOf === undefined ? this.today() : this.date('asOf', args.asOf),
+            this.integer('bucketYears', args.bucketYears, 1, 10, DEFAULT_BUCKET_YEARS),
+            this.choice('groupBy', args.groupBy, GROUP_BY, 'none'),
+            principal,
+            sessionId,
+            signal
+          );
+          return this.successResult(this.summarizeTenure(report), report);
+        }
+        case 'promotionGapReport': {
+          this.checkArguments(args, ['asOf', 'groupBy', 'limit']);
+          const report = await this.analytics.promotionGaps(
+            args.asOf === undefined ? this.today() : this.date('asOf', args.asOf),
+            this.choice('groupBy', args.groupBy, GROUP_BY, 'department'),
+            this.integer('limit', args.limit, 0, MAX_GAP_LIMIT, DEFAULT_GAP_LIMIT),
+            principal,
+            sessionId,
+            signal
+          );
+          return this.successResult(this.summarizePromotionGaps(report), report);
+        }
+        case 'salaryBands': {
+          this.checkArguments(args, ['groupBy', 'percentiles']);
+          const report = await this.analytics.salaryBands(
+            this.choice('groupBy', args.groupBy, GROUP_BY, 'department'),
+            this.percentiles(args.percentiles),
+            principal,
+            sessionId,
+            signal
+          );
+          return this.successResult(this.summarizeSalaryBands(report), report);
+        }
+        default:
+          throw new Error(`Unknown tool: ${name}`);
+      }
+    } catch (error) {
+      const invalid = error instanceof HiddenColumnError || error instanceof PeriodLimitError;
+      return queryErrorResult(name, invalid ? new QueryToolError('validation', error.message) : error);
+    }
+  }
+
+  /**
+   * Summarize a headcount report: overall change across the range and the largest groups at its end
+   */
+  private summarizeHeadcount(report: HeadcountReport): string {
+    const periods = report.series[0]?.points ?? [];
+    if (periods.length === 0) {
+      return 'No employees in range.';
+    }
+    const first = periods[0];
+    const last = periods[periods.length - 1];
+    const total = (index: number, field: 'hires' | 'headcount') =>
+      report.series.reduce((sum, series) => sum + series.points[index][field], 0);
+    const hires = periods.reduce((sum, _point, index) => sum + total(index, 'hires'), 0);
+
+    let summary = `Headcount by ${report.interval} went from ${total(0, 'headcount')} in ${first.period} to ${total(periods.length - 1, 'headcount')} in ${last.period}, with ${hires} hires over ${periods.length} period(s).`;
+    if (report.groupBy !== 'none') {
+      const largest = [...report.series]
+        .sort((a, b) => b.points[periods.length - 1].headcount - a.points[periods.length - 1].headcount)
+        .slice(0, SUMMARY_GROUPS)
+        .map(series => `${series.group} (${series.points[periods.length - 1].headcount})`);
+      summary += ` Largest by ${report.groupBy} in ${last.period}: ${largest.join(', ')}.`;
+    }
+    return summary;
+  }
+
+  /**
+   * Summarize a tenure report: overall mean, the most common bucket and the longest-serving groups
+   */
+  private summarizeTenure(report: TenureReport): string {
+    const employees = report.series.reduce((sum, series) => sum + series.employees, 0);
+    if (employees === 0) {
+      return `No employees had started by ${report.asOf}.`;
+    }
+    const mean = report.series.reduce((sum, series) => sum + (series.meanYears ?? 0) * series.employees, 0) / employees;
+    const buckets = report.series[0].buckets.map((bucket, index) => ({
+      label: bucket.label,
+      count: report.series.reduce((sum, series) => sum + series.buckets[index].count, 0)
+    }));
+    const common = buckets.reduce((best, bucket) => bucket.count > best.count ? bucket : best);
+
+    let summary = `${employees} employee(s) as of ${report.asOf}, with a mean tenure of ${mean.toFixed(1)} years; the most common range is ${common.label} (${common.count}).`;
+    if (report.groupBy !== 'none') {
+      const longest = [...report.series]
+        .sort((a, b) => (b.medianYears ?? 0) - (a.medianYears ?? 0))
+        .slice(0, SUMMARY_GROUPS)
+        .map(series => `${series.group} (${series.medianYears} years)`);
+      summary += ` Longest median tenure by ${report.groupBy}: ${longest.join(', ')}.`;
+    }
+    return summary;
+  }
+
+  /**
+   * Summarize a promotion gap report: never-promoted count, groups with the longest median gap and
+   * the longest individual wait
+   */
+  private summarizePromotionGaps(report: PromotionGapReport): string {
+    const employees = report.groups.reduce((sum, group) => sum + group.employees, 0);
+    if (employees === 0) {
+      return `No employees had started by ${report.asOf}.`;
+    }
+    const neverPromoted = report.groups.reduce((sum, group) => sum + group.neverPromoted, 0);
+
+    let summary = `${employees} employee(s) as of ${report.asOf}; ${neverPromoted} never promoted.`;
+    if (report.groupBy !== 'none') {
+      const longest = report.groups
+        .slice(0, SUMMARY_GROUPS)
+        .map(group => `${group.group} (${group.medianMonths} months)`);
+      summary += ` Longest median gap by ${report.groupBy}: ${longest.join(', ')}.`;
+    } else {
+      summary += ` Median gap: ${report.groups[0].medianMonths} months.`;
+    }
+    const top = report.longestGaps[0];
+    if (top) {
+      const who = top.employeeName ? `${top.employeeName} (employee ${top.employeeId})` : `Employee ${top.employeeId}`;
+      summary += ` Longest wait: ${who}, ${top.months} months since ${top.neverPromoted ? 'starting' : 'their last promotion'} on ${top.since}.`;
+    }
+    return summary;
+  }
+
+  /**
+   * Summarize salary bands: the groups with the highest median salary
+   */
+  private summarizeSalaryBands(report: SalaryBandReport): string {
+    if (report.bands.length === 0) {
+      return 'No salaries to report.';
+    }
+    const median = (band: SalaryBandReport['bands'][number]) => band.percentiles.find(entry => entry.percentile === 0.5)?.salary;
+    const describe = (band: SalaryBandReport['bands'][number]) => {
+      const middle = median(band);
+      return `${band.group} ${middle !== undefined ? `median ${middle}` : `mean ${band.mean}`} (${band.employees} employee(s), ${band.min}-${band.max})`;
+    };
+
+    return report.groupBy === 'none'
+      ? `Salaries: ${describe(report.bands[0])}.`
+      : `${report.bands.length} ${report.groupBy} group(s), highest median first: ${report.bands.slice(0, SUMMARY_GROUPS).map(describe).join('; ')}.`;
+  }
+
+  /**
+   * Reject arguments the tool does not take
+   */
+  private checkArguments(args: Record<string, unknown>, allowed: string[]): void {
+    const unknown = Object.keys(args).filter(key => !allowed.includes(key));
+    if (unknown.length > 0) {
+      throw new QueryToolError('validation', `Unknown argument(s): ${unknown.join(', ')}. Arguments: ${allowed.join(', ')}`);
+    }
+  }
+
+  /**
+   * Validate an enumerated argument, applying its default
+   */
+  private choice<T extends string>(name: string, value: unknown, options: T[], fallback: T): T {
+    if (value === undefined) {
+      return fallback;
+    }
+    if (typeof value !== 'string' || !options.includes(value as T)) {
+      throw new QueryToolError('validation', `${name} must be one of ${options.join(', ')}`);
+    }
+    return value as T;
+  }
+
+  /**
+   * Validate an integer argument, applying its default
+   */
+  private integer(name: string, value: unknown, min: number, max: number, fallback: number): number {
+    if (value === undefined) {
+      return fallback;
+    }
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+      throw new QueryToolError('validation', `${name} must be an integer from ${min} to ${max}`);
+    }
+    return value;
+  }
+
+  /**
+   * Validate a YYYY-MM-DD date argument
+   */
+  private date(name: string, value: unknown): string {
+    const date = typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) ? new Date(`${value}T00:00:00Z`) : null;
+    if (!date || Number.isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== value) {
+      throw new QueryToolError('validation', `${name} must be a date in YYYY-MM-DD format`);
+    }
+    return value as string;
+  }
+
+  /**
+   * Validate the percentiles argument, returning them sorted without duplicates
+   */
+  private percentiles(value: unknown): number[] {
+    if (value === undefined) {
+      return DEFAULT_PERCENTILES;
+    }
+    if (!Array.isArray(value) || value.length === 0 || value.length > MAX_PERCENTILES
+      || value.some(entry => typeof entry !== 'number' || !Number.isFinite(entry) || entry < 0 || entry > 1)) {
+      throw new QueryToolError('validation', `percentiles must be 1 to ${MAX_PERCENTILES} numbers from 0 to 1`);
+    }
+    return [...new Set(value as number[])].sort((a, b) => a - b);
+  }
+
+  /**
+   * Today's date in UTC, YYYY-MM-DD
+   */
+  private today(): string {
+    return new Date().toISOString().slice(0, 10);
+  }
+
+  /**
+   * Build the MCP result: the summary, then the report as JSON
+   */
+  private successResult(summary: string, report: object): any {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: summary
+        },
+        {
+          type: 'text',
+          text: JSON.stringify(report, null, 2)
+        }
+      ],
+      structuredContent: report
+    };
+  }
+}
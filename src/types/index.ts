@@ -1,3 +1,5 @@
+import type { ResultCursorStore } from '../tools/resultCursors';
+
 /**
  * Employee record structure matching the CSV data
  */
@@ -5,7 +7,30 @@ export interface Employee {
   employeeId: number;
   employeeName: string;
   location: string;
-  startDate: string;
+  startDate: string; // YYYY-MM-DD
+  department: string;
+  salary: number;
+  position: string;
+  isRemote: boolean;
+  lastPromoted: string | null; // YYYY-MM-DD, null when never promoted
+}
+
+/**
+ * Employee record as seen through an access policy: hidden columns are left out and nulled ones are null
+ */
+export type VisibleEmployee = { [K in keyof Employee]?: Employee[K] | null };
+
+/**
+ * Bound query parameters: positional ($1, $2 or ?) as an array, named ($name) as an object
+ */
+export type QueryParams = any[] | Record<string, any>;
+
+/**
+ * A problem with a single bound parameter
+ */
+export interface QueryParameterIssue {
+  parameter: string; // Placeholder label, e.g. $1 or $department
+  message: string;
 }
 
 /**
@@ -13,7 +38,7 @@ export interface Employee {
  */
 export interface QueryRequest {
   sql: string;
-  params?: any[];
+  params?: QueryParams;
 }
 
 /**
@@ -26,6 +51,16 @@ export interface QueryResponse {
   executionTime: number;
 }
 
+/**
+ * Outcome of SQL safety validation
+ */
+export interface SqlValidationResult {
+  valid: boolean;
+  reason?: string; // Why the query was rejected
+  position?: number; // Zero-based character offset of the offending token in the SQL text
+  syntaxError?: boolean; // True when DuckDB's parser rejected the text, as opposed to the query policy
+}
+
 /**
  * Streaming query result chunk
  */
@@ -36,12 +71,607 @@ export interface QueryResultChunk {
   error?: string;
 }
 
+/**
+ * Output formats for dbQueryTool results
+ */
+export type ResultFormat = 'rows' | 'json' | 'ndjson' | 'csv' | 'markdown' | 'arrow' | 'parquet';
+
 /**
  * MCP tool definition for database queries
  */
 export interface DbQueryToolInput {
-  sql: string;
+  sql?: string; // Required unless cursor is given
+  params?: QueryParams;
   limit?: number;
+  cursor?: string; // Opaque cursor from a previous page
+  format?: ResultFormat; // Output format (default: rows, one JSON text item per row)
+  confirm?: boolean; // Run a query that the guardrails hold for confirmation
+}
+
+/**
+ * Result column with its DuckDB type
+ */
+export interface QueryResultColumn {
+  name: string;
+  type: string; // DuckDB type name, e.g. INTEGER, VARCHAR, DATE
+}
+
+/**
+ * structuredContent of a successful dbQueryTool call
+ */
+export interface DbQueryResult {
+  columns: QueryResultColumn[];
+  rows: Record<string, unknown>[]; // Empty for the arrow and parquet formats, whose data is in the embedded resource
+  rowCount: number; // Rows in this response
+  truncated: boolean; // True when limit cut the result short
+  executionTimeMs: number;
+  format: ResultFormat;
+  page: number;
+  hasMore: boolean;
+  nextCursor?: string;
+}
+
+/**
+ * Machine-readable category of a failed dbQueryTool call
+ */
+export type QueryErrorCode = 'validation' | 'syntax' | 'timeout' | 'limit' | 'guardrail' | 'cancelled' | 'internal';
+
+/**
+ * structuredContent of a failed dbQueryTool call
+ */
+export interface DbQueryError {
+  error: {
+    code: QueryErrorCode;
+    message: string;
+    position?: number; // Character offset in the SQL text, for validation and syntax errors
+    issues?: QueryParameterIssue[]; // Per-parameter problems, for invalid bound parameters
+    plan?: PlanEstimate; // Estimates of a query stopped by the guardrails
+    confirmable?: boolean; // For guardrail errors, whether re-running with confirm: true is allowed
+  };
+}
+
+/**
+ * One plan returned by EXPLAIN, in text and JSON form
+ */
+export interface ExplainedPlan {
+  kind: string; // DuckDB's explain_key: logical_plan, logical_opt, physical_plan or analyzed_plan
+  text: string;
+  json: unknown;
+}
+
+/**
+ * Size of a query estimated from its physical plan
+ */
+export interface PlanEstimate {
+  estimatedRows: number | null; // Rows the query is expected to return
+  peakEstimatedRows: number | null; // Largest row estimate of any operator, e.g. a join's output
+  joins: number; // Join and cross product operators
+  operators: number;
+}
+
+/**
+ * Thresholds checked against a query's estimated plan before dbQueryTool runs it
+ */
+export interface QueryGuardrailConfig {
+  maxEstimatedRows?: number; // Estimated rows the query returns (default: unlimited)
+  maxScannedRows?: number; // Largest estimated row count of any operator, such as a scan or join (default: unlimited)
+  maxJoins?: number; // Join and cross product operators (default: unlimited)
+  action?: 'reject' | 'confirm'; // Refuse the query, or run it only when called again with confirm: true (default: reject)
+}
+
+/**
+ * Supported source file formats for datasets
+ */
+export type DatasetFormat = 'csv' | 'parquet' | 'json' | 'ndjson';
+
+/**
+ * Dataset registered in the DuckDB catalog
+ */
+export interface DatasetConfig {
+  name: string; // Table or view name exposed to SQL
+  path: string; // File path or glob (e.g. data/events/*.parquet)
+  format?: DatasetFormat; // Inferred from the file extension when omitted
+  mode?: 'table' | 'view'; // Tables are loaded into memory, views read the files on every query (default: table)
+  columns?: Record<string, string>; // Optional explicit column name -> DuckDB type mapping
+  columnTypes?: Record<string, string>; // Types for some columns by name; the rest are inferred from the data
+  csv?: CsvOptions; // CSV datasets only
+  columnComments?: Record<string, string>; // Column descriptions reported by describeTable
+  description?: string;
+}
+
+/**
+ * How a CSV dataset is read. Anything omitted is detected by DuckDB's CSV sniffer.
+ */
+export interface CsvOptions {
+  delimiter?: string;
+  quote?: string;
+  escape?: string;
+  header?: boolean;
+  nullStrings?: string[]; // Values read as NULL (default: empty fields)
+  dateFormat?: string; // strftime format, e.g. %d/%m/%Y
+  timestampFormat?: string;
+  quarantine?: boolean; // Move malformed rows to <name>_quarantine instead of failing the load (default: true; tables only)
+}
+
+/**
+ * A column as seen by one principal, reported by describeTable
+ */
+export interface ColumnDescription {
+  name: string;
+  type: string; // DuckDB type; masked columns report the type of their masked values
+  nullable: boolean;
+  comment: string | null;
+  position: number; // 1-based
+}
+
+/**
+ * A registered table or view as seen by one principal
+ */
+export interface TableDescription {
+  name: string;
+  kind: 'table' | 'view';
+  format: DatasetFormat;
+  description: string | null;
+  rowCount: number; // Rows visible to the principal after row filters
+  columns: ColumnDescription[];
+}
+
+/**
+ * Value distribution of one column. Values are rendered as text so every column type reads the same way.
+ */
+export interface ColumnProfile {
+  name: string;
+  type: string;
+  rowCount: number;
+  nullCount: number;
+  nullRate: number; // 0 to 1
+  distinctCount: number; // Exact count of distinct non-null values
+  min: string | null;
+  max: string | null;
+  mean: string | null; // Numeric and temporal columns only
+  stddev: number | null; // Numeric columns only
+  quartiles: { q25: string; q50: string; q75: string } | null; // Approximate, numeric and temporal columns only
+  topValues: Array<{ value: string; count: number }>; // Most frequent non-null values
+  histogram: Array<{ lowerBound: string; upperBound: string; count: number }> | null; // Equal-width bins, numeric and temporal columns only
+}
+
+/**
+ * Column profiles of a table as seen by one principal
+ */
+export interface TableProfile {
+  table: string;
+  rowCount: number;
+  columns: ColumnProfile[];
+}
+
+/**
+ * Column a workforce report splits employees by; 'none' reports all employees as one group
+ */
+export type WorkforceGroupBy = 'department' | 'location' | 'position' | 'none';
+
+/**
+ * A range of a workforce distribution and the employees that fall in it
+ */
+export interface WorkforceBucket {
+  label: string;
+  from: number; // Inclusive lower bound, in the report's unit
+  to: number | null; // Exclusive upper bound; null for the open-ended last bucket
+  count: number;
+}
+
+/**
+ * Hires and headcount of one group at the end of each period
+ */
+export interface HeadcountSeries {
+  group: string;
+  points: Array<{ period: string; periodStart: string; hires: number; headcount: number }>;
+}
+
+/**
+ * Headcount over time, one series per group. The dataset has no leaving dates, so headcount counts
+ * everyone who started by the end of the period.
+ */
+export interface HeadcountReport {
+  interval: 'month' | 'quarter' | 'year';
+  groupBy: WorkforceGroupBy;
+  from: string; // Start of the first period, YYYY-MM-DD
+  to: string; // Start of the last period, YYYY-MM-DD
+  series: HeadcountSeries[];
+}
+
+/**
+ * Tenure of one group: completed years of service as of the report date
+ */
+export interface TenureSeries {
+  group: string;
+  employees: number;
+  meanYears: number | null;
+  medianYears: number | null;
+  buckets: WorkforceBucket[]; // In completed years
+}
+
+/**
+ * Tenure distribution, one series per group
+ */
+export interface TenureReport {
+  asOf: string;
+  bucketYears: number;
+  groupBy: WorkforceGroupBy;
+  series: TenureSeries[];
+}
+
+/**
+ * Time since one employee's last promotion, or since their start date when never promoted
+ */
+export interface PromotionGap {
+  employeeId: number;
+  employeeName?: string; // Omitted when hidden by the access policy, like department and position
+  department?: string;
+  position?: string;
+  since: string; // YYYY-MM-DD
+  months: number; // Completed months since
+  neverPromoted: boolean;
+}
+
+/**
+ * Promotion gaps of one group
+ */
+export interface PromotionGapGroup {
+  group: string;
+  employees: number;
+  neverPromoted: number;
+  medianMonths: number | null;
+  meanMonths: number | null;
+  maxMonths: number | null;
+  buckets: WorkforceBucket[]; // In completed months
+}
+
+/**
+ * Promotion gap report: per-group statistics and the employees waiting longest
+ */
+export interface PromotionGapReport {
+  asOf: string;
+  groupBy: WorkforceGroupBy;
+  groups: PromotionGapGroup[];
+  longestGaps: PromotionGap[];
+}
+
+/**
+ * Salary distribution of one group
+ */
+export interface SalaryBand {
+  group: string;
+  employees: number;
+  min: number | null;
+  max: number | null;
+  mean: number | null;
+  percentiles: Array<{ percentile: number; salary: number }>; // Interpolated
+}
+
+/**
+ * Salary percentiles, one band per group, highest median first
+ */
+export interface SalaryBandReport {
+  groupBy: WorkforceGroupBy;
+  bands: SalaryBand[];
+}
+
+/**
+ * Load state of a dataset, reported on /health
+ */
+export interface DatasetStatus {
+  name: string;
+  kind: 'table' | 'view';
+  loadedAt: string; // When the current version was loaded
+  rowCount: number | null; // null for views, which read their files on every query
+  loadDurationMs: number;
+  reloads: number; // Successful reloads since startup
+  lastError: { message: string; at: string } | null; // Last failed reload; the previous version stays in use
+  diagnostics: LoadDiagnostics;
+}
+
+/**
+ * CSV dialect a dataset was read with, as given in its config or detected by DuckDB
+ */
+export interface CsvDialect {
+  delimiter: string;
+  quote: string;
+  escape: string;
+  header: boolean;
+  dateFormat: string | null;
+  timestampFormat: string | null;
+}
+
+/**
+ * What the last successful load of a dataset found in its files
+ */
+export interface LoadDiagnostics {
+  format: DatasetFormat;
+  dialect: CsvDialect | null; // CSV datasets only
+  columns: Array<{ name: string; type: string; source: 'declared' | 'override' | 'inferred' }>;
+  rejectedRows: number; // Rows moved to the quarantine table instead of being loaded
+  quarantineTable: string | null; // Set while it holds rejected rows
+}
+
+/**
+ * A CSV row that could not be loaded, as kept in a dataset's quarantine table
+ */
+export interface RejectedRow {
+  file: string;
+  line: number | null;
+  column: string | null;
+  errorType: string; // DuckDB's classification, e.g. CAST or MISSING COLUMNS
+  message?: string; // Omitted for callers restricted by an access policy: it can quote hidden values
+  csvLine?: string; // Likewise omitted for restricted callers
+}
+
+/**
+ * Registered dataset with its resolved columns, as reported by getSchema()
+ */
+export interface TableInfo {
+  name: string;
+  kind: 'table' | 'view';
+  format: DatasetFormat;
+  source: string;
+  description?: string;
+  schema: any[];
+  sampleData: any[];
+}
+
+/**
+ * Progress of a running query, reported as rows are produced
+ */
+export interface QueryProgress {
+  rows: number; // Rows produced so far
+  chunks: number; // Result chunks read from DuckDB so far
+  elapsedMs: number;
+}
+
+/**
+ * Per-call options for streaming tool execution
+ */
+export interface StreamExecuteOptions {
+  signal?: AbortSignal; // Aborting interrupts the running DuckDB query
+  onProgress?: (progress: QueryProgress) => void | Promise<void>;
+  cursors?: ResultCursorStore; // Session cursor store; without one, results are returned unpaged
+  principal?: Principal | null; // Caller whose access policy applies
+  sessionId?: string; // MCP session the call belongs to, so it reuses that session's DuckDB connection
+}
+
+/**
+ * Static API key accepted on the MCP endpoint
+ */
+export interface ApiKeyConfig {
+  key: string; // Secret sent as "Authorization: Bearer <key>" or "X-API-Key: <key>"
+  principal: string; // Identity the key authenticates as
+  roles?: string[];
+  attributes?: Record<string, string>; // Extra principal attributes, e.g. department
+}
+
+/**
+ * OAuth 2.1 bearer token validation against a local JWKS file
+ */
+export interface OAuthConfig {
+  issuer: string; // Expected iss claim
+  audience: string; // Expected aud claim, normally the /mcp resource URL
+  jwksPath: string; // JSON Web Key Set with the issuer's public signing keys
+  authorizationServers?: string[]; // Advertised in protected-resource metadata (default: [issuer])
+  requiredScopes?: string[]; // Scopes every token must carry
+  scopesSupported?: string[]; // Advertised in protected-resource metadata
+  rolesClaim?: string; // Claim holding the caller's roles (default: roles)
+  clockToleranceSeconds?: number; // Allowed clock skew for exp/nbf (default: 60)
+  jwksReloadIntervalSeconds?: number; // Minimum time between JWKS re-reads for unknown key ids (default: 30)
+}
+
+/**
+ * Authentication settings for the MCP endpoint
+ */
+export interface AuthConfig {
+  resource?: string; // Canonical URL of the MCP endpoint (default: http://host:port/mcp)
+  apiKeys?: ApiKeyConfig[];
+  oauth?: OAuthConfig;
+  adminRoles?: string[]; // Roles allowed to use admin endpoints such as GET /sessions (default: ["admin"])
+}
+
+/**
+ * Authenticated caller of the MCP endpoint
+ */
+export interface Principal {
+  id: string; // API key principal or token subject
+  method: 'api-key' | 'oauth';
+  roles: string[];
+  scopes: string[];
+  attributes: Record<string, string>; // Configured key attributes or string-valued token claims
+}
+
+/**
+ * How a column is exposed to a restricted principal: removed, replaced by NULL, or rounded down to a bucket size
+ */
+export type ColumnRule = 'hide' | 'null' | { bucket: number };
+
+/**
+ * A literal, or "$attribute" to use the principal's attribute ("$id" for the principal id)
+ */
+export type RowFilterValue = string | number | boolean;
+
+/**
+ * Column masking and row filtering applied to one table
+ */
+export interface TablePolicy {
+  columns?: Record<string, ColumnRule>; // Columns not listed are exposed unchanged
+  rowFilter?: Record<string, RowFilterValue | RowFilterValue[]>; // Column -> required value (or any of several values)
+}
+
+/**
+ * Access policy matched against principals by id or role
+ */
+export interface AccessPolicy {
+  name: string;
+  principals?: string[]; // Principal ids the policy applies to
+  roles?: string[]; // Roles the policy applies to (any match)
+  tables: Record<string, TablePolicy>; // Allowed tables; "*" allows every other table with its policy
+}
+
+/**
+ * Per-query limits and DuckDB instance settings
+ */
+export interface QueryLimits {
+  queryTimeoutMs?: number; // Wall-clock limit per query, or per page of a paged result (default: 30000; 0 disables)
+  maxResultRows?: number; // Rows a single query may return across all of its pages (default: unlimited)
+  maxResultBytes?: number; // Serialized size of one dbQueryTool response or Parquet file (default: unlimited)
+  memoryLimit?: string; // DuckDB memory_limit, e.g. "2GB" (default: DuckDB's 80% of system memory)
+  threads?: number; // DuckDB worker threads (default: one per core)
+  tempDirectory?: string; // Where DuckDB spills operators that do not fit in memory
+}
+
+/**
+ * Size and queueing behaviour of the DuckDB connection pool
+ */
+export interface ConnectionPoolConfig {
+  maxConnections?: number; // Connections open at once across all sessions (default: 8)
+  acquireTimeoutMs?: number; // How long a query waits for a free connection before failing (default: 10000)
+}
+
+/**
+ * Connection pool counters reported on /health
+ */
+export interface ConnectionPoolStats {
+  maxConnections: number;
+  open: number; // Connections currently open, busy or idle
+  inUse: number;
+  idle: number;
+  sessions: number; // Sessions with a home connection
+  waiting: number; // Queries queued for a connection
+  acquired: number; // Connections handed out since startup
+  timeouts: number; // Queries that gave up waiting
+  averageWaitMs: number;
+  maxWaitMs: number;
+}
+
+/**
+ * Where the server keeps sent SSE events so clients can resume dropped streams
+ */
+export interface EventStoreConfig {
+  type: 'memory' | 'file' | 'none'; // 'file' keeps events and session ownership across restarts
+  directory?: string; // Directory for the file store (default: .mcp-events in the working directory)
+  maxEventsPerSession?: number; // Oldest events of a session are dropped beyond this (default: 1000)
+  maxEvents?: number; // Memory store only: events kept across all sessions (default: 10000)
+}
+
+/**
+ * Opt-in write tools for employee records
+ */
+export interface EmployeeWriteConfig {
+  enabled?: boolean; // Write tools are only listed and callable when true (default: false)
+  roles?: string[]; // Roles allowed to write (default: ["hr-admin"])
+  principals?: string[]; // Principal ids allowed to write regardless of role
+  persist?: 'csv' | 'database'; // Rewrite the source CSV, or keep records in a DuckDB database file (default: csv)
+  databasePath?: string; // Database file for persist=database (default: data/employees.duckdb)
+  changeLogPath?: string; // NDJSON log of every applied change (default: data/employee-changes.ndjson)
+}
+
+/**
+ * Employee column values keyed by column name, as read from or written to the employees table
+ */
+export type EmployeeFields = Record<string, string | number | boolean | null>;
+
+/**
+ * One field changed by a write
+ */
+export interface EmployeeFieldChange {
+  field: string;
+  before: string | number | boolean | null;
+  after: string | number | boolean | null;
+}
+
+/**
+ * Applied change to an employee record, as written to the change log
+ */
+export interface EmployeeChangeRecord {
+  changeId: string;
+  at: string;
+  tool: string;
+  principal: { id: string; method: Principal['method'] } | null; // null when authentication is disabled
+  employeeId: number;
+  before: EmployeeFields | null; // null for a new employee
+  after: EmployeeFields;
+  changes: EmployeeFieldChange[];
+}
+
+/**
+ * How a tool call ended, as recorded in the audit log
+ */
+export type AuditOutcome = 'success' | 'rejected' | 'error' | 'cancelled' | 'timeout';
+
+/**
+ * One tool call recorded in the audit log
+ */
+export interface AuditEntry {
+  id: string;
+  timestamp: string; // When the call finished
+  sessionId: string;
+  principal: { id: string; method: Principal['method']; roles: string[] } | null; // null when authentication is disabled
+  tool: string;
+  sql: string | null; // dbQueryTool SQL exactly as sent; null for other tools and cursor pages
+  normalizedSql: string | null; // sql without comments and with whitespace collapsed, for searching
+  params: QueryParams | null;
+  arguments: Record<string, unknown> | null; // Arguments of tools other than dbQueryTool
+  cursor: string | null; // Cursor of a dbQueryTool page request
+  rowCount: number | null; // Rows returned, when the tool returns rows
+  durationMs: number;
+  outcome: AuditOutcome;
+  errorCode: string | null;
+  reason: string | null; // Why the call was rejected or failed
+}
+
+/**
+ * Filters for reading the audit log; every filter is optional
+ */
+export interface AuditQuery {
+  from?: string; // ISO timestamp, inclusive
+  to?: string; // ISO timestamp, exclusive
+  sessionId?: string;
+  principal?: string;
+  tool?: string;
+  outcome?: AuditOutcome;
+  sql?: string; // Normalized SQL containing this text, ignoring case
+  limit?: number; // Newest entries first (default: 100, at most 1000)
+}
+
+/**
+ * Where and for how long tool calls are recorded
+ */
+export interface AuditLogConfig {
+  type: 'file' | 'none'; // 'file' appends JSONL files, one per day (default: file)
+  directory?: string; // Directory for the log files (default: logs/audit)
+  retentionDays?: number; // Files older than this are deleted (default: 30)
+  maxFileBytes?: number; // A day's file is rotated to a numbered file beyond this size (default: 50 MB)
+}
+
+/**
+ * Size limits for the dbQueryTool result cache
+ */
+export interface ResultCacheConfig {
+  maxBytes?: number; // Total serialized size of cached results; 0 disables the cache (default: 64 MB)
+  maxEntries?: number; // Cached results at most (default: 1000)
+  ttlMs?: number; // Results older than this are recomputed; 0 keeps them until evicted (default: 10 min)
+}
+
+/**
+ * Result cache usage reported on /health
+ */
+export interface ResultCacheStats {
+  enabled: boolean;
+  entries: number;
+  bytes: number;
+  maxBytes: number;
+  maxEntries: number;
+  hits: number;
+  misses: number;
+  hitRate: number; // Hits per lookup, 0 before the first lookup
+  evictions: number; // Entries dropped to stay within the size limits
+  invalidations: number; // Times a dataset change emptied the cache
+  dataVersion: number;
 }
 
 /**
@@ -52,5 +682,21 @@ export interface ServerConfig {
   host: string;
   databasePath?: string;
   csvFilePath: string;
+  datasets?: DatasetConfig[]; // Datasets to register; defaults to the employees table loaded from csvFilePath
   sessionTTL?: number; // Session time-to-live in milliseconds (default: 30 min)
+  maxSessions?: number; // Sessions open at once (default: 100)
+  sessionEviction?: 'lru' | 'reject'; // At the cap, close the least recently used idle session or refuse new ones (default: lru)
+  watchDatasets?: boolean; // Reload datasets when their source files change (default: true)
+  reloadDebounceMs?: number; // Quiet period after the last file change before reloading (default: 1000)
+  writes?: EmployeeWriteConfig; // Employee write tools; disabled when omitted
+  audit?: AuditLogConfig; // Tool call audit log (default: JSONL files in logs/audit)
+  pageSize?: number; // Rows per dbQueryTool page before a cursor is returned (default: 500)
+  cursorIdleTimeoutMs?: number; // Close a result cursor not paged for this long (default: 5 min)
+  resultCache?: ResultCacheConfig; // Cache of complete dbQueryTool results, emptied when any dataset changes
+  guardrails?: QueryGuardrailConfig; // Plan-based checks before dbQueryTool runs a query; off when omitted
+  auth?: AuthConfig; // Authentication for /mcp and /schema; disabled when omitted
+  policies?: AccessPolicy[]; // Table access, column masking and row filters per principal; unrestricted when omitted
+  limits?: QueryLimits; // Query timeouts, result size limits and DuckDB memory/thread settings
+  pool?: ConnectionPoolConfig; // Bounded DuckDB connection pool shared by all sessions
+  eventStore?: EventStoreConfig; // Resumable streams; defaults to an in-memory store
 }
\ No newline at end of file